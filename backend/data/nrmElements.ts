@@ -0,0 +1,136 @@
+/**
+ * Bundled NRM element library
+ *
+ * Group elements, elements and sub-elements following the RICS NRM1
+ * elemental breakdown used for cost plans. suggestedUnit is the unit the
+ * element is normally quantified in; works may still use another unit, and
+ * the UI flags the difference.
+ */
+
+import type { NRM2Element } from '../../shared/schemas/elements.js';
+
+export type CatalogueEntry = Pick<NRM2Element, 'code' | 'name' | 'suggestedUnit' | 'description'>;
+
+export const nrmCatalogue: CatalogueEntry[] = [
+  // 0 Facilitating works
+  { code: '0', name: 'Facilitating Works', suggestedUnit: 'ls' },
+  { code: '0.1', name: 'Toxic/Hazardous/Contaminated Material Treatment', suggestedUnit: 'm3' },
+  { code: '0.2', name: 'Major Demolition Works', suggestedUnit: 'm2' },
+  { code: '0.3', name: 'Temporary Support to Adjacent Structures', suggestedUnit: 'ls' },
+  { code: '0.4', name: 'Specialist Groundworks', suggestedUnit: 'm2' },
+  { code: '0.5', name: 'Temporary Diversion Works', suggestedUnit: 'ls' },
+  { code: '0.6', name: 'Extraordinary Site Investigation Works', suggestedUnit: 'ls' },
+
+  // 1 Substructure
+  { code: '1', name: 'Substructure', suggestedUnit: 'm2' },
+  { code: '1.1', name: 'Substructure', suggestedUnit: 'm2', description: 'Measured over the footprint of the lowest floor' },
+  { code: '1.1.1', name: 'Standard Foundations', suggestedUnit: 'm2' },
+  { code: '1.1.2', name: 'Specialist Foundations', suggestedUnit: 'm2', description: 'Piling, underpinning and ground treatment' },
+  { code: '1.1.3', name: 'Lowest Floor Construction', suggestedUnit: 'm2' },
+  { code: '1.1.4', name: 'Basement Excavation', suggestedUnit: 'm3' },
+  { code: '1.1.5', name: 'Basement Retaining Walls', suggestedUnit: 'm2' },
+
+  // 2 Superstructure
+  { code: '2', name: 'Superstructure', suggestedUnit: 'm2' },
+  { code: '2.1', name: 'Frame', suggestedUnit: 'm2' },
+  { code: '2.1.1', name: 'Steel Frames', suggestedUnit: 'm2' },
+  { code: '2.1.2', name: 'Space Frames/Decks', suggestedUnit: 'm2' },
+  { code: '2.1.3', name: 'Concrete Casings to Steel Frames', suggestedUnit: 'm2' },
+  { code: '2.1.4', name: 'Concrete Frames', suggestedUnit: 'm2' },
+  { code: '2.1.5', name: 'Timber Frames', suggestedUnit: 'm2' },
+  { code: '2.1.6', name: 'Specialist Frames', suggestedUnit: 'm2' },
+  { code: '2.2', name: 'Upper Floors', suggestedUnit: 'm2' },
+  { code: '2.2.1', name: 'Floors', suggestedUnit: 'm2' },
+  { code: '2.2.2', name: 'Balconies', suggestedUnit: 'nr' },
+  { code: '2.2.3', name: 'Drainage to Balconies', suggestedUnit: 'nr' },
+  { code: '2.3', name: 'Roof', suggestedUnit: 'm2' },
+  { code: '2.3.1', name: 'Roof Structure', suggestedUnit: 'm2' },
+  { code: '2.3.2', name: 'Roof Coverings', suggestedUnit: 'm2' },
+  { code: '2.3.3', name: 'Glazed Roofs', suggestedUnit: 'm2' },
+  { code: '2.3.4', name: 'Roof Drainage', suggestedUnit: 'm' },
+  { code: '2.3.5', name: 'Rooflights, Skylights and Openings', suggestedUnit: 'nr' },
+  { code: '2.3.6', name: 'Roof Features', suggestedUnit: 'nr' },
+  { code: '2.4', name: 'Stairs and Ramps', suggestedUnit: 'nr' },
+  { code: '2.4.1', name: 'Stair/Ramp Structures', suggestedUnit: 'nr' },
+  { code: '2.4.2', name: 'Stair/Ramp Finishes', suggestedUnit: 'nr' },
+  { code: '2.4.3', name: 'Stair/Ramp Balustrades and Handrails', suggestedUnit: 'm' },
+  { code: '2.5', name: 'External Walls', suggestedUnit: 'm2' },
+  { code: '2.5.1', name: 'External Enclosing Walls Above Ground Floor Level', suggestedUnit: 'm2' },
+  { code: '2.5.2', name: 'External Enclosing Walls Below Ground Level', suggestedUnit: 'm2' },
+  { code: '2.5.3', name: 'Solar/Rain Screening', suggestedUnit: 'm2' },
+  { code: '2.5.4', name: 'External Soffits', suggestedUnit: 'm2' },
+  { code: '2.5.5', name: 'Subsidiary Walls, Balustrades and Proprietary Balconies', suggestedUnit: 'm' },
+  { code: '2.5.6', name: 'Facade Access/Cleaning Systems', suggestedUnit: 'ls' },
+  { code: '2.6', name: 'Windows and External Doors', suggestedUnit: 'm2' },
+  { code: '2.6.1', name: 'External Windows', suggestedUnit: 'm2' },
+  { code: '2.6.2', name: 'External Doors', suggestedUnit: 'nr' },
+  { code: '2.7', name: 'Internal Walls and Partitions', suggestedUnit: 'm2' },
+  { code: '2.7.1', name: 'Walls and Partitions', suggestedUnit: 'm2' },
+  { code: '2.7.2', name: 'Balustrades and Handrails', suggestedUnit: 'm' },
+  { code: '2.7.3', name: 'Moveable Room Dividers', suggestedUnit: 'm2' },
+  { code: '2.7.4', name: 'Cubicles', suggestedUnit: 'nr' },
+  { code: '2.8', name: 'Internal Doors', suggestedUnit: 'nr' },
+  { code: '2.8.1', name: 'Internal Doors', suggestedUnit: 'nr' },
+
+  // 3 Internal finishes
+  { code: '3', name: 'Internal Finishes', suggestedUnit: 'm2' },
+  { code: '3.1', name: 'Wall Finishes', suggestedUnit: 'm2' },
+  { code: '3.1.1', name: 'Finishes to Walls', suggestedUnit: 'm2' },
+  { code: '3.2', name: 'Floor Finishes', suggestedUnit: 'm2' },
+  { code: '3.2.1', name: 'Finishes to Floors', suggestedUnit: 'm2' },
+  { code: '3.2.2', name: 'Raised Access Floors', suggestedUnit: 'm2' },
+  { code: '3.3', name: 'Ceiling Finishes', suggestedUnit: 'm2' },
+  { code: '3.3.1', name: 'Finishes to Ceilings', suggestedUnit: 'm2' },
+  { code: '3.3.2', name: 'False Ceilings', suggestedUnit: 'm2' },
+  { code: '3.3.3', name: 'Demountable Suspended Ceilings', suggestedUnit: 'm2' },
+
+  // 4 Fittings, furnishings and equipment
+  { code: '4', name: 'Fittings, Furnishings and Equipment', suggestedUnit: 'm2' },
+  { code: '4.1', name: 'Fittings, Furnishings and Equipment', suggestedUnit: 'm2' },
+  { code: '4.1.1', name: 'General Fittings, Furnishings and Equipment', suggestedUnit: 'ls' },
+  { code: '4.1.2', name: 'Domestic Kitchen Fittings and Equipment', suggestedUnit: 'nr' },
+  { code: '4.1.3', name: 'Special Purpose Fittings, Furnishings and Equipment', suggestedUnit: 'ls' },
+  { code: '4.1.4', name: 'Signs/Notices', suggestedUnit: 'ls' },
+  { code: '4.1.5', name: 'Works of Art', suggestedUnit: 'ls' },
+
+  // 5 Services
+  { code: '5', name: 'Services', suggestedUnit: 'm2' },
+  { code: '5.1', name: 'Sanitary Installations', suggestedUnit: 'nr' },
+  { code: '5.2', name: 'Services Equipment', suggestedUnit: 'ls' },
+  { code: '5.3', name: 'Disposal Installations', suggestedUnit: 'm2' },
+  { code: '5.4', name: 'Water Installations', suggestedUnit: 'm2' },
+  { code: '5.5', name: 'Heat Source', suggestedUnit: 'nr' },
+  { code: '5.6', name: 'Space Heating and Air Conditioning', suggestedUnit: 'm2' },
+  { code: '5.7', name: 'Ventilation', suggestedUnit: 'm2' },
+  { code: '5.8', name: 'Electrical Installations', suggestedUnit: 'm2' },
+  { code: '5.9', name: 'Fuel Installations', suggestedUnit: 'ls' },
+  { code: '5.10', name: 'Lift and Conveyor Installations', suggestedUnit: 'nr' },
+  { code: '5.11', name: 'Fire and Lightning Protection', suggestedUnit: 'm2' },
+  { code: '5.12', name: 'Communication, Security and Control Systems', suggestedUnit: 'm2' },
+  { code: '5.13', name: 'Specialist Installations', suggestedUnit: 'ls' },
+  { code: '5.14', name: "Builder's Work in Connection with Services", suggestedUnit: 'ls' },
+
+  // 6 Prefabricated buildings and building units
+  { code: '6', name: 'Prefabricated Buildings and Building Units', suggestedUnit: 'nr' },
+  { code: '6.1', name: 'Prefabricated Buildings and Building Units', suggestedUnit: 'nr' },
+
+  // 7 Work to existing buildings
+  { code: '7', name: 'Work to Existing Buildings', suggestedUnit: 'ls' },
+  { code: '7.1', name: 'Minor Demolition Works and Alteration Works', suggestedUnit: 'ls' },
+  { code: '7.2', name: 'Repairs to Existing Services', suggestedUnit: 'ls' },
+  { code: '7.3', name: 'Damp-proof Courses/Fungus and Beetle Eradication', suggestedUnit: 'm2' },
+  { code: '7.4', name: 'Facade Retention', suggestedUnit: 'm2' },
+  { code: '7.5', name: 'Cleaning Existing Surfaces', suggestedUnit: 'm2' },
+  { code: '7.6', name: 'Renovation Works', suggestedUnit: 'ls' },
+
+  // 8 External works
+  { code: '8', name: 'External Works', suggestedUnit: 'm2' },
+  { code: '8.1', name: 'Site Preparation Works', suggestedUnit: 'm2' },
+  { code: '8.2', name: 'Roads, Paths, Pavings and Surfacings', suggestedUnit: 'm2' },
+  { code: '8.3', name: 'Soft Landscaping, Planting and Irrigation Systems', suggestedUnit: 'm2' },
+  { code: '8.4', name: 'Fencing, Railings and Walls', suggestedUnit: 'm' },
+  { code: '8.5', name: 'External Fixtures', suggestedUnit: 'ls' },
+  { code: '8.6', name: 'External Drainage', suggestedUnit: 'm' },
+  { code: '8.7', name: 'External Services', suggestedUnit: 'ls' },
+  { code: '8.8', name: 'Minor Building Works and Ancillary Buildings', suggestedUnit: 'm2' },
+];
@@ -0,0 +1,285 @@
+/**
+ * Seed data written to a fresh data store on first run
+ *
+ * Based on the mock data the frontend was first built against. Work and
+ * model totals are calculated rather than typed in, the same way the API
+ * calculates them; Block A carries a typical set of add-ons on top of its
+ * works cost.
+ *
+ * The rate library starts with a few common resources and composite rates;
+ * like work totals, each rate is priced from its resources. The tender
+ * price index table covers 2023 to 2027, forecast from 2026-Q4 on.
+ *
+ * Users are not part of the seed documents: passwords have to be hashed
+ * asynchronously, so userService.bootstrap() creates seedUsers at startup
+ * whenever the store has no users.
+ */
+
+import type { Documents } from '../repositories/documentStore.js';
+import type { CostModel } from '../../shared/schemas/models.js';
+import type { TenderPriceIndexEntry } from '../../shared/schemas/priceIndex.js';
+import type { CompositeRate, CompositeRateInput, Resource } from '../../shared/schemas/rates.js';
+import type { Revision } from '../../shared/schemas/revisions.js';
+import type { Role } from '../../shared/schemas/users.js';
+import type { MeasuredWork } from '../../shared/schemas/works.js';
+import { projectTotal } from '../utils/addOns.js';
+import { calculateCost, sumMeasuredWorks } from '../utils/calculations.js';
+import { priceComponents } from '../utils/rates.js';
+
+type SeedWork = Omit<MeasuredWork, 'totalCost'>;
+type SeedRate = Pick<CompositeRate, 'id'> & CompositeRateInput;
+
+// One account per role, named after the people on the seeded models
+export const seedUsers: { username: string; displayName: string; role: Role }[] = [
+  { username: 'jsmith', displayName: 'John Smith', role: 'estimator' },
+  { username: 'sjones', displayName: 'Sarah Jones', role: 'reviewer' },
+  { username: 'mbrown', displayName: 'Mike Brown', role: 'admin' },
+];
+
+const seedModels: CostModel[] = [
+  {
+    id: 'model-1',
+    projectName: 'Block A Residential Development',
+    projectRef: 'PRJ-2024-001',
+    client: 'Acme Estates Ltd',
+    gifa: 2500.00,
+    totalCost: 0,
+    status: 'draft',
+    preparedBy: 'John Smith',
+    baseDate: '2024-10-01',
+    constructionStart: '2025-09-01',
+    constructionCompletion: '2027-02-28',
+    addOns: [
+      { category: 'preliminaries', label: 'Preliminaries', method: 'percentage', value: 12.5, base: 'subtotal' },
+      { category: 'overheadsProfit', label: 'Overheads and profit', method: 'percentage', value: 5, base: 'subtotal' },
+      { category: 'designContingency', label: 'Design development risk', method: 'percentage', value: 5, base: 'works' },
+      { category: 'constructionContingency', label: 'Construction risk', method: 'percentage', value: 3, base: 'subtotal' },
+      { category: 'otherAllowance', label: 'Statutory fees', method: 'fixed', value: 15000, base: 'subtotal' },
+    ],
+    risks: [
+      { title: 'Poor ground conditions need piled foundations', owner: 'Structural engineer', probability: 20, min: 40000, likely: 65000, max: 120000 },
+      { title: 'Utility diversions along the site frontage', owner: 'John Smith', probability: 35, min: 8000, likely: 15000, max: 30000 },
+      { title: 'Brick supply delays', owner: 'Contractor', probability: 15, min: 5000, likely: 12000, max: 25000 },
+    ],
+    createdAt: '2024-11-01T10:00:00Z',
+    updatedAt: '2024-11-06T10:00:00Z'
+  },
+  {
+    id: 'model-2',
+    projectName: 'Office Refurbishment - Central London',
+    projectRef: 'PRJ-2024-002',
+    client: 'City Properties Group',
+    gifa: 1800.00,
+    totalCost: 0,
+    status: 'approved',
+    preparedBy: 'Sarah Jones',
+    baseDate: '2024-07-01',
+    constructionStart: '2025-01-06',
+    constructionCompletion: '2025-10-31',
+    createdAt: '2024-10-15T09:30:00Z',
+    updatedAt: '2024-11-05T14:20:00Z'
+  },
+  {
+    id: 'model-3',
+    projectName: 'School Extension Project',
+    projectRef: 'PRJ-2024-003',
+    client: 'Local Education Authority',
+    gifa: 950.00,
+    totalCost: 0,
+    status: 'archived',
+    preparedBy: 'Mike Brown',
+    createdAt: '2024-09-01T11:00:00Z',
+    updatedAt: '2024-10-20T16:45:00Z'
+  }
+];
+
+const seedWorks: SeedWork[] = [
+  // Model 1 works
+  {
+    id: 'work-1',
+    costModelId: 'model-1',
+    elementCode: '1.1.1',
+    elementName: 'Standard Foundations',
+    description: 'Concrete strip foundations',
+    quantity: 150.00,
+    unit: 'm3',
+    unitRate: 450.00,
+    quantityRange: { min: 140.00, max: 180.00 },
+    createdAt: '2024-11-01T10:30:00Z',
+    updatedAt: '2024-11-01T10:30:00Z'
+  },
+  {
+    id: 'work-2',
+    costModelId: 'model-1',
+    elementCode: '2.1.4',
+    elementName: 'Concrete Frames',
+    description: 'Reinforced concrete frame',
+    quantity: 2500.00,
+    unit: 'm2',
+    unitRate: 185.00,
+    unitRateRange: { min: 170.00, max: 215.00 },
+    createdAt: '2024-11-01T10:40:00Z',
+    updatedAt: '2024-11-01T10:40:00Z'
+  },
+  {
+    id: 'work-3',
+    costModelId: 'model-1',
+    elementCode: '2.5.1',
+    elementName: 'External Enclosing Walls Above Ground Floor Level',
+    description: 'Brick and block cavity wall',
+    quantity: 1850.00,
+    unit: 'm2',
+    unitRate: 165.50,
+    quantityRange: { min: 1800.00, max: 1950.00 },
+    unitRateRange: { min: 155.00, max: 190.00 },
+    createdAt: '2024-11-01T10:50:00Z',
+    updatedAt: '2024-11-01T10:50:00Z'
+  },
+  // Model 2 works
+  {
+    id: 'work-4',
+    costModelId: 'model-2',
+    elementCode: '3.1.1',
+    elementName: 'Finishes to Walls',
+    description: 'Plasterboard lining and decoration',
+    quantity: 3200.00,
+    unit: 'm2',
+    unitRate: 48.75,
+    createdAt: '2024-10-15T10:00:00Z',
+    updatedAt: '2024-10-15T10:00:00Z'
+  },
+  {
+    id: 'work-5',
+    costModelId: 'model-2',
+    elementCode: '5.6',
+    elementName: 'Space Heating and Air Conditioning',
+    description: 'VRF system replacement',
+    quantity: 1,
+    unit: 'ls',
+    unitRate: 420000.00,
+    createdAt: '2024-10-15T10:10:00Z',
+    updatedAt: '2024-10-15T10:10:00Z'
+  },
+  // Model 3 works
+  {
+    id: 'work-6',
+    costModelId: 'model-3',
+    elementCode: '1.1.3',
+    elementName: 'Lowest Floor Construction',
+    description: 'Ground bearing slab',
+    quantity: 950.00,
+    unit: 'm2',
+    unitRate: 120.00,
+    createdAt: '2024-09-01T11:30:00Z',
+    updatedAt: '2024-09-01T11:30:00Z'
+  }
+];
+
+const LIBRARY_DATE = '2024-09-01T09:00:00Z';
+
+const seedResources: Omit<Resource, 'createdAt' | 'updatedAt'>[] = [
+  { id: 'resource-1', code: 'L01', name: 'General operative', type: 'labour', unit: 'hr', price: 22.50 },
+  { id: 'resource-2', code: 'L02', name: 'Bricklayer', type: 'labour', unit: 'hr', price: 32.00 },
+  { id: 'resource-3', code: 'P01', name: '21t tracked excavator with driver', type: 'plant', unit: 'hr', price: 65.00 },
+  { id: 'resource-4', code: 'M01', name: 'Ready-mixed concrete C32/40', type: 'material', unit: 'm3', price: 118.00 },
+  { id: 'resource-5', code: 'M02', name: 'Facing bricks', type: 'material', unit: '1000', price: 650.00 },
+  { id: 'resource-6', code: 'M03', name: 'Mortar 1:1:6', type: 'material', unit: 'm3', price: 95.00 },
+];
+
+// Quarterly values, oldest first
+const TENDER_PRICE_INDEX: [quarter: string, value: number][] = [
+  ['2023-Q1', 362.0], ['2023-Q2', 365.5], ['2023-Q3', 366.8], ['2023-Q4', 367.4],
+  ['2024-Q1', 368.9], ['2024-Q2', 371.2], ['2024-Q3', 373.6], ['2024-Q4', 375.1],
+  ['2025-Q1', 377.8], ['2025-Q2', 380.4], ['2025-Q3', 383.0], ['2025-Q4', 385.9],
+  ['2026-Q1', 389.1], ['2026-Q2', 392.0], ['2026-Q3', 395.2], ['2026-Q4', 398.6],
+  ['2027-Q1', 402.1], ['2027-Q2', 405.7], ['2027-Q3', 409.4], ['2027-Q4', 413.0],
+];
+const FIRST_FORECAST = '2026-Q4';
+
+const seedRates: SeedRate[] = [
+  {
+    id: 'rate-1',
+    code: 'EXC-01',
+    description: 'Excavate to reduce levels, by machine',
+    unit: 'm3',
+    components: [
+      { resourceId: 'resource-3', output: 12, wastage: 0 },
+      { resourceId: 'resource-1', quantity: 0.1, wastage: 0 },
+    ],
+  },
+  {
+    id: 'rate-2',
+    code: 'CON-01',
+    description: 'Concrete C32/40 in ground bearing slab',
+    unit: 'm3',
+    components: [
+      { resourceId: 'resource-4', quantity: 1, wastage: 5 },
+      { resourceId: 'resource-1', quantity: 1.5, wastage: 0 },
+    ],
+  },
+  {
+    id: 'rate-3',
+    code: 'BRK-01',
+    description: 'Half brick facing wall in stretcher bond',
+    unit: 'm2',
+    components: [
+      { resourceId: 'resource-5', quantity: 0.06, wastage: 5 },
+      { resourceId: 'resource-6', quantity: 0.022, wastage: 10 },
+      { resourceId: 'resource-2', output: 1.5, wastage: 0 },
+      { resourceId: 'resource-1', quantity: 0.75, wastage: 0 },
+    ],
+  },
+];
+
+export function seedDocuments(): Documents {
+  const works: MeasuredWork[] = seedWorks.map((work) => ({
+    ...work,
+    totalCost: calculateCost(work.quantity, work.unitRate),
+  }));
+
+  const models = seedModels.map((model) => ({
+    ...model,
+    totalCost: projectTotal(sumMeasuredWorks(works.filter((work) => work.costModelId === model.id)), model.addOns),
+  }));
+
+  // Each seeded model starts with its current state as revision 1
+  const revisions: Revision[] = models.map((model) => ({
+    id: `revision-${model.id}-1`,
+    costModelId: model.id,
+    number: 1,
+    label: 'Initial estimate',
+    createdAt: model.updatedAt,
+    model,
+    works: works.filter((work) => work.costModelId === model.id),
+  }));
+
+  const prices = new Map(seedResources.map((resource) => [resource.id, resource.price]));
+  const rates: CompositeRate[] = seedRates.map((rate) => ({
+    ...rate,
+    ...priceComponents(rate.components, prices),
+    createdAt: LIBRARY_DATE,
+    updatedAt: LIBRARY_DATE,
+  }));
+
+  const tenderPriceIndex: TenderPriceIndexEntry[] = TENDER_PRICE_INDEX.map(([quarter, value]) => ({
+    id: `tpi-${quarter}`,
+    quarter,
+    value,
+    forecast: quarter >= FIRST_FORECAST,
+    createdAt: LIBRARY_DATE,
+    updatedAt: LIBRARY_DATE,
+  }));
+
+  return {
+    models,
+    works,
+    revisions,
+    users: [],
+    sessions: [],
+    audit: [],
+    templates: [],
+    resources: seedResources.map((resource) => ({ ...resource, createdAt: LIBRARY_DATE, updatedAt: LIBRARY_DATE })),
+    rates,
+    tenderPriceIndex,
+  };
+}
@@ -0,0 +1,81 @@
+/**
+ * HTTP error types
+ *
+ * Route handlers and services throw these; the error handler in server.ts
+ * turns them into JSON responses of the shape { error, message, details? }.
+ */
+
+export interface ErrorDetail {
+  path: string;
+  message: string;
+}
+
+export class HttpError extends Error {
+  readonly status: number;
+  readonly error: string;
+  readonly details?: ErrorDetail[];
+
+  constructor(status: number, error: string, message: string, details?: ErrorDetail[]) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+    this.error = error;
+    this.details = details;
+  }
+}
+
+export class ValidationError extends HttpError {
+  constructor(message: string, details?: ErrorDetail[]) {
+    super(400, 'Validation Error', message, details);
+    this.name = 'ValidationError';
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message: string) {
+    super(404, 'Not Found', message);
+    this.name = 'NotFoundError';
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string, details?: ErrorDetail[]) {
+    super(409, 'Conflict', message, details);
+    this.name = 'ConflictError';
+  }
+}
+
+/**
+ * A write based on an out-of-date copy; the response carries the current
+ * copy so the client can show it and let the user redo their change
+ */
+export class StaleWriteError extends ConflictError {
+  readonly current: unknown;
+
+  constructor(message: string, current: unknown) {
+    super(message);
+    this.name = 'StaleWriteError';
+    this.current = current;
+  }
+}
+
+export class PreconditionRequiredError extends HttpError {
+  constructor(message: string) {
+    super(428, 'Precondition Required', message);
+    this.name = 'PreconditionRequiredError';
+  }
+}
+
+export class UnauthorizedError extends HttpError {
+  constructor(message = 'Sign in to continue') {
+    super(401, 'Unauthorized', message);
+    this.name = 'UnauthorizedError';
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message: string) {
+    super(403, 'Forbidden', message);
+    this.name = 'ForbiddenError';
+  }
+}
@@ -0,0 +1,70 @@
+/**
+ * Authentication and authorisation middleware
+ *
+ * authenticate(auth)      401 unless the request carries a valid session,
+ *                         either as "Authorization: Bearer <token>" or the
+ *                         session cookie set at sign-in; sets req.user
+ * requirePermission(p)    403 unless req.user's role grants p
+ */
+
+import type { NextFunction, Request, RequestHandler, Response } from 'express';
+import { UnauthorizedError } from '../errors.js';
+import type { PublicUser } from '../../shared/schemas/users.js';
+import type { AuthService } from '../services/authService.js';
+import { assertCan, type Permission } from '../services/permissions.js';
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: PublicUser;
+    }
+  }
+}
+
+export const SESSION_COOKIE = 'session';
+
+/**
+ * Session token from the Authorization header, falling back to the cookie
+ */
+export function sessionToken(req: Request): string | undefined {
+  const header = req.get('authorization');
+  if (header?.toLowerCase().startsWith('bearer ')) {
+    return header.slice(7).trim() || undefined;
+  }
+  for (const pair of req.get('cookie')?.split(';') ?? []) {
+    const [name, ...value] = pair.trim().split('=');
+    if (name === SESSION_COOKIE) {
+      return decodeURIComponent(value.join('=')) || undefined;
+    }
+  }
+  return undefined;
+}
+
+export function authenticate(auth: AuthService): RequestHandler {
+  return async (req: Request, _res: Response, next: NextFunction) => {
+    const token = sessionToken(req);
+    const user = token && (await auth.authenticate(token));
+    if (!user) {
+      throw new UnauthorizedError(token ? 'Your session has expired or was signed out; sign in again' : undefined);
+    }
+    req.user = user;
+    next();
+  };
+}
+
+export function requirePermission(permission: Permission): RequestHandler {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    assertCan(currentUser(req), permission);
+    next();
+  };
+}
+
+/**
+ * The signed-in user, for handlers mounted behind authenticate()
+ */
+export function currentUser(req: Request): PublicUser {
+  if (!req.user) {
+    throw new UnauthorizedError();
+  }
+  return req.user;
+}
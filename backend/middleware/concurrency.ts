@@ -0,0 +1,35 @@
+/**
+ * Optimistic concurrency over HTTP
+ *
+ * A cost model's or measured work's version is its updatedAt, sent as the
+ * ETag of every response that returns one. Writes to an existing model or
+ * work must send it back in If-Match; services/concurrency.ts refuses the
+ * write with a 409 if the stored copy has changed since.
+ */
+
+import type { Request, Response } from 'express';
+import { PreconditionRequiredError } from '../errors.js';
+
+export function etag(entity: { updatedAt: string }): string {
+  return `"${entity.updatedAt}"`;
+}
+
+/**
+ * Send an entity with its version as the ETag
+ */
+export function sendVersioned(res: Response, entity: { updatedAt: string }, status = 200): void {
+  res.status(status).set('ETag', etag(entity)).json(entity);
+}
+
+/**
+ * The version a write was based on, from the If-Match header
+ */
+export function ifMatch(req: Request): string {
+  const header = req.get('If-Match')?.trim();
+  if (!header || header === '*') {
+    throw new PreconditionRequiredError(
+      'Send the updatedAt of the copy you changed in an If-Match header, so changes made by others are not overwritten'
+    );
+  }
+  return header.replace(/^W\//, '').replace(/^"(.*)"$/, '$1');
+}
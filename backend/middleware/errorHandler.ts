@@ -0,0 +1,38 @@
+/**
+ * Error handler - renders thrown errors as JSON
+ *
+ * HttpError subclasses map to their own status (a stale write also returns
+ * the current copy of what it tried to change); malformed JSON bodies
+ * become a 400; anything else is logged and reported as a 500.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import { HttpError, StaleWriteError } from '../errors.js';
+
+export function errorHandler(err: unknown, req: Request, res: Response, _next: NextFunction) {
+  if (err instanceof HttpError) {
+    res.status(err.status).json({
+      error: err.error,
+      message: err.message,
+      ...(err.details && { details: err.details }),
+      ...(err instanceof StaleWriteError && { current: err.current }),
+    });
+    return;
+  }
+
+  // body-parser marks JSON syntax errors with type 'entity.parse.failed';
+  // anything can be thrown, including null, so check it is an object first
+  if (typeof err === 'object' && err !== null && (err as { type?: string }).type === 'entity.parse.failed') {
+    res.status(400).json({
+      error: 'Bad Request',
+      message: 'Request body is not valid JSON',
+    });
+    return;
+  }
+
+  console.error(`${new Date().toISOString()} - ${req.method} ${req.path} failed:`, err);
+  res.status(500).json({
+    error: 'Internal Server Error',
+    message: 'Something went wrong handling this request',
+  });
+}
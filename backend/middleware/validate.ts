@@ -0,0 +1,38 @@
+/**
+ * Request validation middleware
+ *
+ * Parses req.body with a zod schema and replaces it with the parsed value,
+ * so handlers always see trimmed, defaulted, well-typed input. Failures are
+ * raised as ValidationError and rendered by the error handler.
+ */
+
+import type { NextFunction, Request, Response } from 'express';
+import type { z } from 'zod';
+import { ValidationError, type ErrorDetail } from '../errors.js';
+
+export function toErrorDetails(error: z.ZodError, rootPath = '(body)'): ErrorDetail[] {
+  return error.issues.map((issue) => ({
+    path: issue.path.join('.') || rootPath,
+    message: issue.message,
+  }));
+}
+
+export function parseOrThrow<S extends z.ZodType>(
+  schema: S,
+  value: unknown,
+  message: string,
+  rootPath?: string
+): z.output<S> {
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    throw new ValidationError(message, toErrorDetails(result.error, rootPath));
+  }
+  return result.data;
+}
+
+export function validateBody(schema: z.ZodType) {
+  return (req: Request, _res: Response, next: NextFunction) => {
+    req.body = parseOrThrow(schema, req.body ?? {}, 'Request body is invalid');
+    next();
+  };
+}
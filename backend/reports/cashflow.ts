@@ -0,0 +1,57 @@
+/**
+ * Cashflow forecast renderer
+ *
+ * renderCashflowCsv - the monthly and cumulative payments, then (by
+ * element) each row's spend month by month, ready to paste into a
+ * client's spend profile
+ */
+
+import type { Cashflow } from '../../shared/schemas/cashflow.js';
+import { toCsv } from '../utils/csv.js';
+
+const plain = (amount: number) => amount.toFixed(2);
+
+const DISTRIBUTIONS: Record<Cashflow['distribution'], string> = {
+  linear: 'Linear',
+  sCurve: 'S-curve',
+  custom: 'Custom weights',
+};
+
+export function renderCashflowCsv(cashflow: Cashflow): string {
+  const rows: unknown[][] = [
+    ['Project', cashflow.projectName],
+    ['Project Ref', cashflow.projectRef ?? ''],
+    ['Construction', `${cashflow.constructionStart} to ${cashflow.constructionCompletion}`],
+    ['Distribution', DISTRIBUTIONS[cashflow.distribution]],
+    ['Retention (%)', plain(cashflow.retention)],
+    ['Defects Period (months)', cashflow.defectsPeriod],
+    ['Total', plain(cashflow.total)],
+    [],
+    ['Month', 'Gross', 'Cumulative Gross', '% Complete', 'Retention Held', 'Retention Released', 'Net Payment', 'Cumulative Net'],
+  ];
+
+  for (const month of cashflow.months) {
+    rows.push([
+      month.month,
+      plain(month.gross),
+      plain(month.cumulativeGross),
+      plain(month.percentComplete),
+      plain(month.retentionHeld),
+      plain(month.retentionReleased),
+      plain(month.net),
+      plain(month.cumulativeNet),
+    ]);
+  }
+
+  if (cashflow.by === 'element') {
+    const programme = cashflow.months.slice(0, cashflow.weights.length);
+    rows.push([]);
+    rows.push(['Item', 'Total', ...programme.map((month) => month.month)]);
+    for (const row of cashflow.rows) {
+      rows.push([row.label, plain(row.amount), ...row.months.map(plain)]);
+    }
+    rows.push(['Total', plain(cashflow.total), ...programme.map((month) => plain(month.gross))]);
+  }
+
+  return toCsv(rows);
+}
@@ -0,0 +1,252 @@
+/**
+ * Cost plan report renderers
+ *
+ * renderCostPlanCsv  - spreadsheet-friendly: plain numbers, one line per work
+ * renderCostPlanHtml - self-contained print-ready page with the project header
+ */
+
+import type { CostPlanLine } from '../../shared/schemas/addOns.js';
+import type { Inflation } from '../../shared/schemas/priceIndex.js';
+import type { CostPlanReport } from '../../shared/schemas/reports.js';
+import { csvText, toCsv } from '../utils/csv.js';
+
+const money = (amount: number) =>
+  amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const plain = (amount: number | null | undefined) => (amount === null || amount === undefined ? '' : amount.toFixed(2));
+
+const formatDate = (iso?: string) =>
+  iso ? new Date(iso).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }) : '';
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+// e.g. "12.5% of subtotal"
+function basis({ method, value, base }: CostPlanLine): string {
+  if (method === 'fixed') return 'fixed sum';
+  return `${value}% of ${base === 'works' ? 'works cost' : 'subtotal'}`;
+}
+
+// e.g. "2024-Q4 375.10 to 2026-Q2 392.00"
+function indices({ baseIndex, midPointIndex }: Inflation): string {
+  const point = ({ quarter, value, forecast }: Inflation['baseIndex']) =>
+    `${quarter} ${value === null ? '(no index)' : value.toFixed(2)}${forecast ? ' forecast' : ''}`;
+  return `${point(baseIndex)} to ${point(midPointIndex)}`;
+}
+
+function headerFields(report: CostPlanReport, formatArea: (area: number) => string = money): [string, string][] {
+  const { model } = report;
+  return [
+    ['Project', model.projectName],
+    ['Project Ref', model.projectRef ?? ''],
+    ['Client', model.client ?? ''],
+    ['Prepared By', model.preparedBy ?? ''],
+    ['Approved By', model.approvedBy ? `${model.approvedBy} (${formatDate(model.approvedAt)})` : ''],
+    ['GIFA (m²)', model.gifa ? formatArea(model.gifa) : ''],
+    ['Base Date', formatDate(model.baseDate)],
+    [
+      'Construction',
+      model.constructionStart && model.constructionCompletion
+        ? `${formatDate(model.constructionStart)} to ${formatDate(model.constructionCompletion)}`
+        : '',
+    ],
+    ['Status', model.status.toUpperCase()],
+    ['Date', formatDate(report.generatedAt)],
+  ];
+}
+
+export function renderCostPlanCsv(report: CostPlanReport): string {
+  const rows: unknown[][] = headerFields(report, plain).map(([label, value]) => [label, csvText(value)]);
+  rows.push([]);
+  rows.push(['Element Code', 'Element', 'Description', 'Quantity', 'Unit', 'Unit Rate', 'Total', 'Cost/m² GIFA', '% of Total']);
+
+  for (const element of report.elements) {
+    rows.push([csvText(element.elementCode), csvText(element.elementName)]);
+    for (const work of element.works) {
+      rows.push(['', '', csvText(work.description), work.quantity.toFixed(2), work.unit, plain(work.unitRate), plain(work.totalCost)]);
+    }
+    rows.push([
+      '',
+      '',
+      `Subtotal ${element.elementCode}`,
+      '',
+      '',
+      '',
+      plain(element.subtotal),
+      plain(element.costPerM2),
+      element.percentOfTotal.toFixed(2),
+    ]);
+  }
+
+  rows.push([]);
+  rows.push(['', '', 'Works Cost Estimate', '', '', '', plain(report.grandTotal), plain(report.costPerM2), report.elements.length > 0 ? '100.00' : '']);
+
+  const { summary } = report;
+  for (const stage of summary.stages) {
+    rows.push(['', stage.label]);
+    for (const line of stage.lines) {
+      rows.push(['', '', csvText(`${line.label} (${basis(line)})`), '', '', '', plain(line.amount)]);
+    }
+    rows.push(['', '', 'Subtotal', '', '', '', plain(stage.subtotal)]);
+  }
+  rows.push([]);
+  rows.push(['', '', 'Total Project Cost', '', '', '', plain(summary.totalCost), plain(summary.costPerM2)]);
+  if (summary.inflation) {
+    const { inflation } = summary;
+    rows.push(['', '', `Inflation to ${inflation.midPoint} (${indices(inflation)})`, '', '', '', plain(inflation.amount)]);
+    if (inflation.formula) {
+      rows.push(['', '', csvText(inflation.formula)]);
+    }
+    rows.push(['', '', 'Outturn Cost', '', '', '', plain(summary.outturnCost)]);
+  }
+
+  return toCsv(rows);
+}
+
+export function renderCostPlanHtml(report: CostPlanReport): string {
+  const header = headerFields(report)
+    .filter(([, value]) => value !== '')
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join('\n');
+
+  const body = report.elements
+    .map((element) => {
+      const works = element.works
+        .map(
+          (work) => `<tr>
+        <td></td>
+        <td>${escapeHtml(work.description)}</td>
+        <td class="num">${work.quantity.toFixed(2)}</td>
+        <td>${escapeHtml(work.unit)}</td>
+        <td class="num">${money(work.unitRate)}</td>
+        <td class="num">${money(work.totalCost)}</td>
+      </tr>`
+        )
+        .join('\n');
+
+      return `<tbody class="element">
+      <tr class="element-heading"><td>${escapeHtml(element.elementCode)}</td><td colspan="5">${escapeHtml(element.elementName)}</td></tr>
+      ${works}
+      <tr class="subtotal">
+        <td></td>
+        <td>Subtotal ${escapeHtml(element.elementCode)}${element.costPerM2 !== null ? ` — £${money(element.costPerM2)}/m²` : ''} (${element.percentOfTotal.toFixed(1)}%)</td>
+        <td colspan="3"></td>
+        <td class="num">${money(element.subtotal)}</td>
+      </tr>
+    </tbody>`;
+    })
+    .join('\n');
+
+  const { summary } = report;
+  const addOns = summary.stages
+    .map((stage) => {
+      const lines = stage.lines
+        .map(
+          (line) => `<tr>
+        <td></td>
+        <td>${escapeHtml(line.label)} (${escapeHtml(basis(line))})</td>
+        <td colspan="3"></td>
+        <td class="num">${money(line.amount)}</td>
+      </tr>`
+        )
+        .join('\n');
+
+      return `<tbody class="element">
+      <tr class="element-heading"><td></td><td colspan="5">${escapeHtml(stage.label)}</td></tr>
+      ${lines}
+      <tr class="subtotal">
+        <td></td>
+        <td>Subtotal</td>
+        <td colspan="3"></td>
+        <td class="num">${money(stage.subtotal)}</td>
+      </tr>
+    </tbody>`;
+    })
+    .join('\n');
+
+  const inflation = summary.inflation
+    ? `<tbody>
+      <tr>
+        <td></td>
+        <td>Inflation to construction mid-point, ${escapeHtml(formatDate(summary.inflation.midPoint))} (${escapeHtml(indices(summary.inflation))})${
+          summary.inflation.formula ? `<br /><small>${escapeHtml(summary.inflation.formula)}</small>` : ''
+        }</td>
+        <td colspan="3"></td>
+        <td class="num">${summary.inflation.amount === null ? '—' : money(summary.inflation.amount)}</td>
+      </tr>
+      <tr class="grand-total">
+        <td></td>
+        <td>Outturn Cost</td>
+        <td colspan="3"></td>
+        <td class="num">${money(summary.outturnCost)}</td>
+      </tr>
+    </tbody>`
+    : '';
+
+  const title = `Cost Plan — ${report.model.projectName}`;
+
+  return `<!doctype html>
+<html lang="en-GB">
+<head>
+  <meta charset="UTF-8" />
+  <title>${escapeHtml(title)}</title>
+  <style>
+    body { font-family: Arial, Helvetica, sans-serif; color: #222; margin: 2rem; font-size: 12px; }
+    h1 { font-size: 20px; margin-bottom: 0.5rem; }
+    table { border-collapse: collapse; width: 100%; }
+    .project th { text-align: left; padding: 2px 12px 2px 0; width: 140px; }
+    .project { width: auto; margin-bottom: 1.5rem; }
+    .plan th, .plan td { padding: 4px 6px; border-bottom: 1px solid #ddd; }
+    .plan thead th { background: #f0f0f0; text-align: left; border-bottom: 2px solid #999; }
+    .num { text-align: right; white-space: nowrap; }
+    .element-heading td { font-weight: bold; padding-top: 10px; }
+    .subtotal td { font-style: italic; border-bottom: 1px solid #999; }
+    .grand-total td { font-weight: bold; font-size: 14px; border-top: 2px solid #222; }
+    .print-button { margin-bottom: 1rem; }
+    @media print {
+      .print-button { display: none; }
+      body { margin: 0; }
+      tbody.element { page-break-inside: avoid; }
+    }
+  </style>
+</head>
+<body>
+  <button class="print-button" onclick="window.print()">Print</button>
+  <h1>${escapeHtml(title)}</h1>
+  <table class="project">
+    ${header}
+  </table>
+  <table class="plan">
+    <thead>
+      <tr><th>Code</th><th>Description</th><th class="num">Quantity</th><th>Unit</th><th class="num">Rate (£)</th><th class="num">Total (£)</th></tr>
+    </thead>
+    ${body}
+    <tbody>
+      <tr class="grand-total">
+        <td></td>
+        <td>Works Cost Estimate${report.costPerM2 !== null ? ` — £${money(report.costPerM2)}/m² GIFA` : ''}</td>
+        <td colspan="3"></td>
+        <td class="num">${money(report.grandTotal)}</td>
+      </tr>
+    </tbody>
+    ${addOns}
+    <tbody>
+      <tr class="grand-total">
+        <td></td>
+        <td>Total Project Cost${summary.costPerM2 !== null ? ` — £${money(summary.costPerM2)}/m² GIFA` : ''}</td>
+        <td colspan="3"></td>
+        <td class="num">${money(summary.totalCost)}</td>
+      </tr>
+    </tbody>
+    ${inflation}
+  </table>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,178 @@
+/**
+ * DocumentStore - in-memory collections with pluggable persistence
+ *
+ * Holds every collection as a plain array and hands out a Repository per
+ * collection. Writes are serialised through a queue. Each transaction keeps
+ * a list of the changes it made and how to undo them: a failed transaction
+ * undoes its own changes, and a committed one hands only those changes to
+ * the subclass to persist, so the cost of a write follows the size of the
+ * change rather than the size of the store.
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import type { Collections, DataStore, Repository } from './types.js';
+
+export type Documents = {
+  [K in keyof Collections]: Collections[K][];
+};
+
+// One change to one document, in the order a transaction made them
+export type Change = {
+  [K in keyof Collections]:
+    | { collection: K; op: 'put'; item: Collections[K] }
+    | { collection: K; op: 'delete'; id: string };
+}[keyof Collections];
+
+export function emptyDocuments(): Documents {
+  return {
+    models: [],
+    works: [],
+    revisions: [],
+    users: [],
+    sessions: [],
+    audit: [],
+    templates: [],
+    resources: [],
+    rates: [],
+    tenderPriceIndex: [],
+  };
+}
+
+export abstract class DocumentStore implements DataStore {
+  protected data: Documents;
+
+  // Tail of the write queue; every transaction waits for the previous one
+  private queue: Promise<unknown> = Promise.resolve();
+
+  // Set while a transaction is running so nested calls join it
+  private readonly context = new AsyncLocalStorage<boolean>();
+
+  // Callbacks waiting for the running transaction to commit; transactions
+  // run one at a time, so there is only ever one list
+  private committed: (() => void)[] = [];
+
+  // What the running transaction has changed, and how to put each back
+  private changes: Change[] = [];
+  private undo: (() => void)[] = [];
+
+  readonly models = this.repository('models');
+  readonly works = this.repository('works');
+  readonly revisions = this.repository('revisions');
+  readonly users = this.repository('users');
+  readonly sessions = this.repository('sessions');
+  readonly audit = this.repository('audit');
+  readonly templates = this.repository('templates');
+  readonly resources = this.repository('resources');
+  readonly rates = this.repository('rates');
+  readonly tenderPriceIndex = this.repository('tenderPriceIndex');
+
+  protected constructor(data: Partial<Documents>) {
+    this.data = { ...emptyDocuments(), ...data };
+  }
+
+  /**
+   * Save a committed transaction's changes, in the order they were made
+   */
+  protected abstract persist(changes: Change[]): Promise<void>;
+
+  transaction<R>(fn: () => Promise<R>): Promise<R> {
+    if (this.context.getStore()) {
+      return fn();
+    }
+
+    const run = async () => {
+      try {
+        const result = await this.context.run(true, fn);
+        if (this.changes.length > 0) {
+          await this.persist(this.changes);
+        }
+        for (const callback of this.committed.splice(0)) {
+          callback();
+        }
+        return result;
+      } catch (err) {
+        for (const step of this.undo.reverse()) {
+          step();
+        }
+        this.committed = [];
+        throw err;
+      } finally {
+        this.changes = [];
+        this.undo = [];
+      }
+    };
+
+    const result = this.queue.then(run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  afterCommit(callback: () => void): void {
+    if (this.context.getStore()) {
+      this.committed.push(callback);
+    } else {
+      callback();
+    }
+  }
+
+  // Note a change made inside the running transaction
+  private changed(change: Change, undo: () => void): void {
+    this.changes.push(change);
+    this.undo.push(undo);
+  }
+
+  private repository<K extends keyof Collections>(name: K): Repository<Collections[K]> {
+    type T = Collections[K];
+    const items = () => this.data[name] as T[];
+    const put = (item: T) => ({ collection: name, op: 'put', item }) as Change;
+
+    return {
+      findAll: async () => structuredClone(items()),
+
+      findById: async (id) => {
+        const found = items().find((item) => item.id === id);
+        return found && structuredClone(found);
+      },
+
+      create: (item) =>
+        this.transaction(async () => {
+          if (items().some((existing) => existing.id === item.id)) {
+            throw new Error(`${name}: duplicate id ${item.id}`);
+          }
+          const stored = structuredClone(item);
+          items().push(stored);
+          // Later changes are undone first, so the new item is still last
+          this.changed(put(stored), () => items().pop());
+          return item;
+        }),
+
+      update: (item) =>
+        this.transaction(async () => {
+          const index = items().findIndex((existing) => existing.id === item.id);
+          if (index === -1) {
+            throw new Error(`${name}: no item with id ${item.id}`);
+          }
+          const previous = items()[index];
+          const stored = structuredClone(item);
+          items()[index] = stored;
+          this.changed(put(stored), () => {
+            items()[index] = previous;
+          });
+          return item;
+        }),
+
+      delete: (id) =>
+        this.transaction(async () => {
+          const index = items().findIndex((existing) => existing.id === id);
+          if (index === -1) {
+            return false;
+          }
+          const [removed] = items().splice(index, 1);
+          this.changed({ collection: name, op: 'delete', id } as Change, () => {
+            items().splice(index, 0, removed);
+          });
+          return true;
+        }),
+    };
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Data store factory
+ *
+ * DATA_STORE selects the backend: 'file' (default) or 'memory'.
+ * DATA_FILE overrides where the file store keeps its data (its change log
+ * sits beside it, with .log added to the name).
+ */
+
+import path from 'node:path';
+import { seedDocuments } from '../data/seed.js';
+import { JsonFileStore } from './jsonFileStore.js';
+import { MemoryStore } from './memoryStore.js';
+import type { DataStore } from './types.js';
+
+export const DEFAULT_DATA_FILE = path.resolve(process.cwd(), 'backend/data/cost-models.json');
+
+export async function createDataStore(): Promise<DataStore> {
+  const driver = process.env.DATA_STORE || 'file';
+
+  switch (driver) {
+    case 'file':
+      return JsonFileStore.open(process.env.DATA_FILE || DEFAULT_DATA_FILE, seedDocuments);
+    case 'memory':
+      return new MemoryStore(seedDocuments());
+    default:
+      throw new Error(`Unknown DATA_STORE "${driver}" (expected "file" or "memory")`);
+  }
+}
+
+export type { DataStore, Repository } from './types.js';
@@ -0,0 +1,73 @@
+import assert from 'node:assert/strict';
+import { appendFile, mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import type { TenderPriceIndexEntry } from '../../shared/schemas/priceIndex.js';
+import { JsonFileStore } from './jsonFileStore.js';
+
+const entry = (id: string, value: number): TenderPriceIndexEntry => ({
+  id,
+  quarter: id,
+  value,
+  forecast: false,
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+});
+
+describe('JsonFileStore', () => {
+  let dir = '';
+  let file = '';
+
+  before(async () => {
+    dir = await mkdtemp(path.join(tmpdir(), 'store-'));
+    file = path.join(dir, 'data.json');
+  });
+
+  after(async () => {
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  it('logs each transaction rather than rewriting the data file', async () => {
+    const store = await JsonFileStore.open(file, () => ({ tenderPriceIndex: [entry('2024-Q1', 100)] }));
+    const written = await readFile(file, 'utf8');
+    await store.tenderPriceIndex.create(entry('2024-Q2', 101));
+    await store.tenderPriceIndex.update(entry('2024-Q1', 99.5));
+    await store.tenderPriceIndex.delete('2024-Q2');
+
+    assert.equal(await readFile(file, 'utf8'), written);
+    const log = (await readFile(`${file}.log`, 'utf8')).trim().split('\n');
+    assert.equal(log.length, 3);
+  });
+
+  it('replays the log when it opens, then folds it into the data file', async () => {
+    const store = await JsonFileStore.open(file, () => ({}));
+    assert.deepEqual(await store.tenderPriceIndex.findAll(), [entry('2024-Q1', 99.5)]);
+    assert.equal(await readFile(`${file}.log`, 'utf8'), '');
+    assert.match(await readFile(file, 'utf8'), /99\.5/);
+  });
+
+  it('undoes every change made by a failed transaction', async () => {
+    const store = await JsonFileStore.open(file, () => ({}));
+    await assert.rejects(
+      store.transaction(async () => {
+        await store.tenderPriceIndex.create(entry('2024-Q3', 102));
+        await store.tenderPriceIndex.update(entry('2024-Q1', 1));
+        await store.tenderPriceIndex.delete('2024-Q3');
+        await store.tenderPriceIndex.delete('2024-Q1');
+        throw new Error('Something went wrong');
+      })
+    );
+    assert.deepEqual(await store.tenderPriceIndex.findAll(), [entry('2024-Q1', 99.5)]);
+    assert.equal(await readFile(`${file}.log`, 'utf8'), '');
+  });
+
+  it('skips a last log line cut short by a crash', async () => {
+    const store = await JsonFileStore.open(file, () => ({}));
+    await store.tenderPriceIndex.create(entry('2024-Q4', 103));
+    await appendFile(`${file}.log`, '[{"collection":"tenderPriceIndex","op":"pu');
+
+    const reopened = await JsonFileStore.open(file, () => ({}));
+    assert.deepEqual(await reopened.tenderPriceIndex.findAll(), [entry('2024-Q1', 99.5), entry('2024-Q4', 103)]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * JsonFileStore - persists every collection to a single JSON file
+ *
+ * Each committed transaction appends its changes as one line to a log
+ * beside the data file (<file>.log), so a save writes only what changed.
+ * Every COMPACT_AFTER transactions, and whenever the store opens with a
+ * log to replay, the log is folded into the data file and emptied. The
+ * data file is written to a temporary file first and renamed into place,
+ * so a crash mid-write never leaves a truncated data file behind; a log
+ * line cut short by a crash is from a transaction that never finished,
+ * and is skipped.
+ */
+
+import { appendFile, mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { DocumentStore, emptyDocuments, type Change, type Documents } from './documentStore.js';
+
+// Transactions logged before the data file is rewritten
+const COMPACT_AFTER = 500;
+
+async function readIfExists(filePath: string): Promise<string | undefined> {
+  try {
+    return await readFile(filePath, 'utf8');
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw err;
+    }
+    return undefined;
+  }
+}
+
+// Apply logged transactions on top of the data file. Replaying a change the
+// data file already has is harmless: a put replaces by id and a delete of a
+// missing id does nothing.
+function replay(data: Documents, log: string): number {
+  const lines = log.split('\n').filter((line) => line.trim() !== '');
+  let replayed = 0;
+  for (const [index, line] of lines.entries()) {
+    let changes: Change[];
+    try {
+      changes = JSON.parse(line) as Change[];
+    } catch (err) {
+      if (index === lines.length - 1) break;
+      throw err;
+    }
+    for (const change of changes) {
+      const items = data[change.collection] as { id: string }[];
+      const id = change.op === 'put' ? change.item.id : change.id;
+      const at = items.findIndex((item) => item.id === id);
+      if (change.op === 'delete') {
+        if (at !== -1) items.splice(at, 1);
+      } else if (at === -1) {
+        items.push(change.item);
+      } else {
+        items[at] = change.item;
+      }
+    }
+    replayed++;
+  }
+  return replayed;
+}
+
+export class JsonFileStore extends DocumentStore {
+  private readonly filePath: string;
+  private readonly logPath: string;
+
+  // Transactions in the log since the data file was last written
+  private logged = 0;
+
+  private constructor(filePath: string, data: Partial<Documents>) {
+    super(data);
+    this.filePath = filePath;
+    this.logPath = `${filePath}.log`;
+  }
+
+  /**
+   * Load the store from disk, creating the file from seed data on first run
+   */
+  static async open(filePath: string, seed: () => Partial<Documents>): Promise<JsonFileStore> {
+    const contents = await readIfExists(filePath);
+    const stored = contents === undefined ? seed() : (JSON.parse(contents) as Partial<Documents>);
+    const data = { ...emptyDocuments(), ...stored };
+    const replayed = replay(data, (await readIfExists(`${filePath}.log`)) ?? '');
+    const store = new JsonFileStore(filePath, data);
+    if (contents === undefined || replayed > 0) {
+      await store.compact();
+    }
+    return store;
+  }
+
+  protected async persist(changes: Change[]): Promise<void> {
+    await appendFile(this.logPath, JSON.stringify(changes) + '\n', 'utf8');
+    if (++this.logged >= COMPACT_AFTER) {
+      await this.compact();
+    }
+  }
+
+  // Write every collection to the data file, then empty the log
+  private async compact(): Promise<void> {
+    await mkdir(path.dirname(this.filePath), { recursive: true });
+    const tempPath = `${this.filePath}.tmp`;
+    await writeFile(tempPath, JSON.stringify(this.data, null, 2), 'utf8');
+    await rename(tempPath, this.filePath);
+    await writeFile(this.logPath, '', 'utf8');
+    this.logged = 0;
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * MemoryStore - keeps collections in memory only
+ *
+ * Useful for local experiments and throwaway environments; all data is lost
+ * when the server stops.
+ */
+
+import { DocumentStore, type Documents } from './documentStore.js';
+
+export class MemoryStore extends DocumentStore {
+  constructor(data: Partial<Documents> = {}) {
+    super(data);
+  }
+
+  protected async persist(): Promise<void> {
+    // Nothing to write - the documents already live in memory
+  }
+}
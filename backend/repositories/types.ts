@@ -0,0 +1,60 @@
+/**
+ * Repository contracts
+ *
+ * Routes and services only talk to these interfaces, so the storage backend
+ * (JSON file, in-memory, or a database later) can be swapped in
+ * repositories/index.ts without touching anything else.
+ */
+
+import type { AuditEntry } from '../../shared/schemas/audit.js';
+import type { CostModel } from '../../shared/schemas/models.js';
+import type { TenderPriceIndexEntry } from '../../shared/schemas/priceIndex.js';
+import type { CompositeRate, Resource } from '../../shared/schemas/rates.js';
+import type { StoredRevision } from '../../shared/schemas/revisions.js';
+import type { CostModelTemplate } from '../../shared/schemas/templates.js';
+import type { Session, User } from '../../shared/schemas/users.js';
+import type { MeasuredWork } from '../../shared/schemas/works.js';
+
+export interface Entity {
+  id: string;
+}
+
+export interface Repository<T extends Entity> {
+  findAll(): Promise<T[]>;
+  findById(id: string): Promise<T | undefined>;
+  create(item: T): Promise<T>;
+  update(item: T): Promise<T>;
+  delete(id: string): Promise<boolean>;
+}
+
+/**
+ * Every collection the API persists, keyed by collection name
+ */
+export interface Collections {
+  models: CostModel;
+  works: MeasuredWork;
+  revisions: StoredRevision;
+  users: User;
+  sessions: Session;
+  audit: AuditEntry;
+  templates: CostModelTemplate;
+  resources: Resource;
+  rates: CompositeRate;
+  tenderPriceIndex: TenderPriceIndexEntry;
+}
+
+export type DataStore = {
+  [K in keyof Collections]: Repository<Collections[K]>;
+} & {
+  /**
+   * Run several repository calls as one unit: either all of their changes
+   * are kept and persisted together, or none are.
+   */
+  transaction<R>(fn: () => Promise<R>): Promise<R>;
+  /**
+   * Run a callback once the current transaction has committed, e.g. to
+   * tell other users about a change; it never runs if the transaction
+   * fails. Outside a transaction it runs straight away.
+   */
+  afterCommit(callback: () => void): void;
+};
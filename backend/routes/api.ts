@@ -0,0 +1,93 @@
+/**
+ * API router - mounted at /api
+ *
+ * Builds the services on top of the data store and mounts one router per
+ * resource. Only /auth and /openapi.json are public; every other route
+ * needs a session.
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.js';
+import type { DataStore } from '../repositories/index.js';
+import { createAuditService } from '../services/auditService.js';
+import { createAuthService } from '../services/authService.js';
+import { createBenchmarkService } from '../services/benchmarkService.js';
+import { createCashflowService } from '../services/cashflowService.js';
+import { createComparisonService } from '../services/comparisonService.js';
+import { createElementService } from '../services/elementService.js';
+import { createEventService } from '../services/eventService.js';
+import { createImportService } from '../services/importService.js';
+import { createModelService } from '../services/modelService.js';
+import { createPriceIndexService } from '../services/priceIndexService.js';
+import { createRateService } from '../services/rateService.js';
+import { createReportService } from '../services/reportService.js';
+import { createRevisionService } from '../services/revisionService.js';
+import { createSimulationService } from '../services/simulationService.js';
+import { createTemplateService } from '../services/templateService.js';
+import { createUserService } from '../services/userService.js';
+import { createWorkService } from '../services/workService.js';
+import { createAuditRouter } from './audit.js';
+import { createAuthRouter } from './auth.js';
+import { createBenchmarksRouter } from './benchmarks.js';
+import { createCashflowRouter } from './cashflow.js';
+import { createComparisonsRouter } from './comparisons.js';
+import { createElementsRouter } from './elements.js';
+import { createEventsRouter } from './events.js';
+import { createModelsRouter } from './models.js';
+import { createOpenApiRouter } from './openapi.js';
+import { createPriceIndexRouter } from './priceIndex.js';
+import { createRatesRouter } from './rates.js';
+import { createReportsRouter } from './reports.js';
+import { createResourcesRouter } from './resources.js';
+import { createRevisionsRouter } from './revisions.js';
+import { createSimulationRouter } from './simulation.js';
+import { createTemplatesRouter } from './templates.js';
+import { createUsersRouter } from './users.js';
+import { createWorksRouter } from './works.js';
+
+export function createApiRouter(store: DataStore): Router {
+  const router = Router();
+
+  const users = createUserService(store);
+  const auth = createAuthService(store, users);
+  const elements = createElementService();
+  const events = createEventService();
+  const audit = createAuditService(store, events);
+  const revisions = createRevisionService(store);
+  const models = createModelService(store, revisions, audit);
+  const works = createWorkService(store, models, elements, revisions, audit);
+  const imports = createImportService(models, works, elements);
+  const templates = createTemplateService(store, models, works);
+  const rates = createRateService(store, models, works);
+  const priceIndex = createPriceIndexService(store);
+  const reports = createReportService(models, works);
+  const cashflows = createCashflowService(models, works);
+  const simulations = createSimulationService(models, works);
+  const benchmarks = createBenchmarkService(models, works, elements);
+  const comparisons = createComparisonService(models, works, revisions);
+
+  // Everything after the auth routes and the API description needs a
+  // signed-in user
+  router.use('/auth', createAuthRouter(auth));
+  router.use('/openapi.json', createOpenApiRouter());
+  router.use(authenticate(auth));
+
+  router.use('/users', createUsersRouter(users));
+  router.use('/elements', createElementsRouter(elements));
+  router.use('/benchmarks', createBenchmarksRouter(benchmarks));
+  router.use('/compare', createComparisonsRouter(comparisons));
+  router.use('/resources', createResourcesRouter(rates));
+  router.use('/rates', createRatesRouter(rates));
+  router.use('/tender-price-index', createPriceIndexRouter(priceIndex));
+  router.use('/models/:id/works', createWorksRouter(works, imports));
+  router.use('/models/:id/revisions', createRevisionsRouter(revisions, models));
+  router.use('/models/:id/audit', createAuditRouter(audit));
+  router.use('/models/:id/events', createEventsRouter(events, models));
+  router.use('/models/:id/report', createReportsRouter(reports));
+  router.use('/models/:id/cashflow', createCashflowRouter(cashflows));
+  router.use('/models/:id/simulation', createSimulationRouter(simulations));
+  router.use('/models', createModelsRouter(models, templates));
+  router.use('/templates', createTemplatesRouter(templates));
+
+  return router;
+}
@@ -0,0 +1,26 @@
+/**
+ * Audit routes - mounted at /api/models/:id/audit
+ *
+ * GET    /    the model's audit trail, newest first
+ *             (?user=&field=&entity=model|work&from=&to=)
+ *
+ * user matches a username or display name; from and to take a date or a
+ * full timestamp, and a date "to" includes that whole day. The trail of a
+ * deleted model can still be read.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { parseOrThrow } from '../middleware/validate.js';
+import { auditQuerySchema } from '../../shared/schemas/audit.js';
+import type { AuditService } from '../services/auditService.js';
+
+export function createAuditRouter(audit: AuditService): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get('/', async (req: Request<{ id: string }>, res: Response) => {
+    const query = parseOrThrow(auditQuerySchema, req.query, 'Query parameters are invalid');
+    res.json(await audit.list(req.params.id, query));
+  });
+
+  return router;
+}
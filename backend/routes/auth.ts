@@ -0,0 +1,45 @@
+/**
+ * Authentication routes - mounted at /api/auth
+ *
+ * POST /login    sign in with { username, password }; sets the session
+ *                cookie and returns { token, expiresAt, user }
+ * POST /logout   end the current session
+ * GET  /me       the signed-in user
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { authenticate, currentUser, SESSION_COOKIE, sessionToken } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { loginSchema } from '../../shared/schemas/users.js';
+import type { AuthService } from '../services/authService.js';
+
+export function createAuthRouter(auth: AuthService): Router {
+  const router = Router();
+
+  router.post('/login', validateBody(loginSchema), async (req: Request, res: Response) => {
+    const signIn = await auth.login(req.body);
+    res.cookie(SESSION_COOKIE, signIn.token, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: process.env.NODE_ENV === 'production',
+      expires: new Date(signIn.expiresAt),
+      path: '/',
+    });
+    res.json(signIn);
+  });
+
+  router.post('/logout', async (req: Request, res: Response) => {
+    const token = sessionToken(req);
+    if (token) {
+      await auth.logout(token);
+    }
+    res.clearCookie(SESSION_COOKIE, { path: '/' });
+    res.status(204).end();
+  });
+
+  router.get('/me', authenticate(auth), (req: Request, res: Response) => {
+    res.json(currentUser(req));
+  });
+
+  return router;
+}
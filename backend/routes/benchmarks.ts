@@ -0,0 +1,23 @@
+/**
+ * Benchmarking routes - mounted at /api/benchmarks
+ *
+ * GET /    £/m² GIFA per model and per element with median and quartiles;
+ *          filter the comparison set with ?status= and ?client=, roll works
+ *          up with ?level=group|element, and position ?modelId= against it
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { parseOrThrow } from '../middleware/validate.js';
+import { benchmarkQuerySchema } from '../../shared/schemas/benchmarks.js';
+import type { BenchmarkService } from '../services/benchmarkService.js';
+
+export function createBenchmarksRouter(benchmarks: BenchmarkService): Router {
+  const router = Router();
+
+  router.get('/', async (req: Request, res: Response) => {
+    const query = parseOrThrow(benchmarkQuerySchema, req.query, 'Query parameters are invalid');
+    res.json(await benchmarks.compare(query));
+  });
+
+  return router;
+}
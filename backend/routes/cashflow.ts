@@ -0,0 +1,35 @@
+/**
+ * Cashflow forecast routes - mounted at /api/models/:id/cashflow
+ *
+ * GET /?distribution=linear|sCurve|custom&weights=&by=total|element
+ *      &retention=&defectsPeriod=&format=json|csv
+ *      the model's outturn cost spread across its construction programme
+ *      month by month, with cumulative totals and any retention; as CSV
+ *      it downloads as a spend profile
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { parseOrThrow } from '../middleware/validate.js';
+import { renderCashflowCsv } from '../reports/cashflow.js';
+import { cashflowQuerySchema } from '../../shared/schemas/cashflow.js';
+import type { CashflowService } from '../services/cashflowService.js';
+
+type CashflowParams = { id: string };
+
+export function createCashflowRouter(cashflows: CashflowService): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get('/', async (req: Request<CashflowParams>, res: Response) => {
+    const query = parseOrThrow(cashflowQuerySchema, req.query, 'Query parameters are invalid');
+    const cashflow = await cashflows.forecast(req.params.id, query);
+
+    if (query.format === 'csv') {
+      const fileName = `${(cashflow.projectRef || cashflow.costModelId).replace(/[^\w.-]+/g, '_')}-cashflow`;
+      res.type('text/csv').attachment(`${fileName}.csv`).send(renderCashflowCsv(cashflow));
+      return;
+    }
+    res.json(cashflow);
+  });
+
+  return router;
+}
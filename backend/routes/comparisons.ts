@@ -0,0 +1,25 @@
+/**
+ * Comparison routes - mounted at /api/compare
+ *
+ * GET /?fromModel=&fromRevision=&toModel=&toRevision=
+ *      two models, or two revisions, with works aligned by element code:
+ *      per-element quantities, rates, totals and variance, and a bridge
+ *      from the "from" total to the "to" total. Leave a revision out to
+ *      use the model as it is now.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { parseOrThrow } from '../middleware/validate.js';
+import { comparisonQuerySchema } from '../../shared/schemas/comparisons.js';
+import type { ComparisonService } from '../services/comparisonService.js';
+
+export function createComparisonsRouter(comparisons: ComparisonService): Router {
+  const router = Router();
+
+  router.get('/', async (req: Request, res: Response) => {
+    const query = parseOrThrow(comparisonQuerySchema, req.query, 'Query parameters are invalid');
+    res.json(await comparisons.compare(query));
+  });
+
+  return router;
+}
@@ -0,0 +1,31 @@
+/**
+ * NRM element routes - mounted at /api/elements
+ *
+ * GET /          flat list; filter with ?q=, ?level= and ?parentCode=
+ * GET /tree      the full group → element → sub-element hierarchy
+ * GET /:code     one element with its ancestors and direct children
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { parseOrThrow } from '../middleware/validate.js';
+import { elementQuerySchema } from '../../shared/schemas/elements.js';
+import type { ElementService } from '../services/elementService.js';
+
+export function createElementsRouter(elements: ElementService): Router {
+  const router = Router();
+
+  router.get('/', (req: Request, res: Response) => {
+    const query = parseOrThrow(elementQuerySchema, req.query, 'Query parameters are invalid');
+    res.json(elements.search(query));
+  });
+
+  router.get('/tree', (_req: Request, res: Response) => {
+    res.json(elements.tree());
+  });
+
+  router.get('/:code', (req: Request, res: Response) => {
+    res.json(elements.get(req.params.code));
+  });
+
+  return router;
+}
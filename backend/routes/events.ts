@@ -0,0 +1,45 @@
+/**
+ * Live update routes - mounted at /api/models/:id/events
+ *
+ * GET    /    Server-Sent Events stream for one cost model:
+ *             "presence" whenever someone starts or stops viewing it, and
+ *             "change" after every committed change to it or its works
+ *
+ * Browsers connect with EventSource, which sends the session cookie and
+ * reconnects by itself. A comment line is sent every 25 seconds so proxies
+ * don't close an idle stream.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { currentUser } from '../middleware/auth.js';
+import type { ModelEvent } from '../../shared/schemas/events.js';
+import type { EventService } from '../services/eventService.js';
+import type { ModelService } from '../services/modelService.js';
+
+const HEARTBEAT_MS = 25_000;
+
+export function createEventsRouter(events: EventService, models: ModelService): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get('/', async (req: Request<{ id: string }>, res: Response) => {
+    const model = await models.get(req.params.id);
+
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write('retry: 5000\n\n');
+
+    const send = (event: ModelEvent) => res.write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    const unsubscribe = events.subscribe(model.id, currentUser(req), send);
+    const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), HEARTBEAT_MS);
+
+    req.on('close', () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+  });
+
+  return router;
+}
@@ -0,0 +1,90 @@
+/**
+ * Cost model routes - mounted at /api/models
+ *
+ * GET    /                  search, filter, sort and page cost models
+ *                           (?q=&status=&preparedBy=&sort=&order=&limit=&offset=)
+ * GET    /:id               fetch one cost model
+ * GET    /:id/summary       how the model's total builds up from its works
+ *                           cost through its add-ons
+ * POST   /                  create a cost model
+ * PUT    /:id               replace a cost model's editable fields
+ * PATCH  /:id               update some of a cost model's fields
+ * POST   /:id/transitions   approve, archive or reopen a cost model
+ * POST   /:id/duplicate     copy a cost model and its works as a new draft
+ * POST   /:id/template      save a cost model and its works as a template
+ * DELETE /:id               delete a cost model
+ *
+ * Writes need a role with the matching permission (services/permissions.ts);
+ * preparedBy and approvedBy are stamped from the signed-in user, who is
+ * also recorded as the actor in the audit log. PUT, PATCH, transitions and
+ * DELETE must send the model's updatedAt (its ETag) in If-Match; a model
+ * changed since - including by an edit to its works - gets a 409 with its
+ * current copy.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { currentUser, requirePermission } from '../middleware/auth.js';
+import { ifMatch, sendVersioned } from '../middleware/concurrency.js';
+import { parseOrThrow, validateBody } from '../middleware/validate.js';
+import {
+  costModelInputSchema,
+  costModelPatchSchema,
+  costModelQuerySchema,
+  transitionInputSchema,
+  type TransitionAction,
+} from '../../shared/schemas/models.js';
+import { duplicateInputSchema, templateInputSchema } from '../../shared/schemas/templates.js';
+import type { ModelService } from '../services/modelService.js';
+import { assertCan, transitionPermissions } from '../services/permissions.js';
+import type { TemplateService } from '../services/templateService.js';
+
+export function createModelsRouter(models: ModelService, templates: TemplateService): Router {
+  const router = Router();
+  const canEdit = requirePermission('editModels');
+
+  router.get('/', async (req: Request, res: Response) => {
+    const query = parseOrThrow(costModelQuerySchema, req.query, 'Query parameters are invalid');
+    res.json(await models.search(query));
+  });
+
+  router.get('/:id', async (req: Request, res: Response) => {
+    sendVersioned(res, await models.get(req.params.id));
+  });
+
+  router.get('/:id/summary', async (req: Request, res: Response) => {
+    res.json(await models.summary(req.params.id));
+  });
+
+  router.post('/', canEdit, validateBody(costModelInputSchema), async (req: Request, res: Response) => {
+    sendVersioned(res, await models.create(req.body, currentUser(req)), 201);
+  });
+
+  router.put('/:id', canEdit, validateBody(costModelInputSchema), async (req: Request, res: Response) => {
+    sendVersioned(res, await models.replace(req.params.id, req.body, currentUser(req), ifMatch(req)));
+  });
+
+  router.patch('/:id', canEdit, validateBody(costModelPatchSchema), async (req: Request, res: Response) => {
+    sendVersioned(res, await models.patch(req.params.id, req.body, currentUser(req), ifMatch(req)));
+  });
+
+  router.post('/:id/transitions', validateBody(transitionInputSchema), async (req: Request, res: Response) => {
+    const user = currentUser(req);
+    assertCan(user, transitionPermissions[req.body.action as TransitionAction]);
+    sendVersioned(res, await models.transition(req.params.id, req.body.action, user, ifMatch(req)));
+  });
+
+  router.post('/:id/duplicate', canEdit, validateBody(duplicateInputSchema), async (req: Request, res: Response) => {
+    res.status(201).json(await templates.duplicate(req.params.id, req.body, currentUser(req)));
+  });
+
+  router.post('/:id/template', canEdit, validateBody(templateInputSchema), async (req: Request, res: Response) => {
+    res.status(201).json(await templates.save(req.params.id, req.body, currentUser(req)));
+  });
+
+  router.delete('/:id', requirePermission('deleteModels'), async (req: Request, res: Response) => {
+    await models.remove(req.params.id, currentUser(req), ifMatch(req));
+    res.status(204).end();
+  });
+
+  return router;
+}
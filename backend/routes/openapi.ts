@@ -0,0 +1,129 @@
+/**
+ * OpenAPI route - mounted at /api/openapi.json
+ *
+ * GET /    OpenAPI 3.1 description of the whole API, generated from the
+ *          contract in shared/api.ts
+ *
+ * Public, so tools can read it before signing in. Request bodies and
+ * queries are described as clients send them, responses as the server
+ * returns them.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { z } from 'zod';
+import { SESSION_COOKIE } from '../middleware/auth.js';
+import { apiErrorSchema, endpoints, type Endpoint } from '../../shared/api.js';
+
+type JsonSchema = Record<string, unknown>;
+
+// Named schemas (recursive ones, e.g. the element tree), shared by every
+// operation under components.schemas
+const components: Record<string, JsonSchema> = {};
+
+function jsonSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+  // Preprocessed and coerced query values can't be described exactly; they
+  // are left open rather than failing the whole document
+  const { $schema: _, $defs, ...rest } = z.toJSONSchema(schema, { io, unrepresentable: 'any' });
+  Object.assign(components, $defs);
+  return rest;
+}
+
+function json(schema: z.ZodType, io: 'input' | 'output') {
+  return { 'application/json': { schema: jsonSchema(schema, io) } };
+}
+
+function parameters(path: string, { query, ifMatch }: Endpoint) {
+  const inPath = [...path.matchAll(/\{(\w+)\}/g)].map(([, name]) => ({
+    name,
+    in: 'path',
+    required: true,
+    schema: { type: 'string' },
+  }));
+  const queryProperties = query ? jsonSchema(query, 'input') : {};
+  const required = new Set((queryProperties.required as string[] | undefined) ?? []);
+  const inQuery = Object.entries((queryProperties.properties as Record<string, JsonSchema> | undefined) ?? {}).map(
+    ([name, schema]) => ({ name, in: 'query', required: required.has(name), schema })
+  );
+  const headers = ifMatch
+    ? [
+        {
+          name: 'If-Match',
+          in: 'header',
+          required: true,
+          description: 'The updatedAt of the copy being changed, in quotes (its ETag)',
+          schema: { type: 'string' },
+        },
+      ]
+    : [];
+  return [...inPath, ...inQuery, ...headers];
+}
+
+function responses(endpoint: Endpoint) {
+  const { response, status, etag, produces = [] } = endpoint;
+  const errors = {
+    default: { description: 'Error', content: json(apiErrorSchema, 'output') },
+  };
+  if (!response) {
+    return { 204: { description: 'No content' }, ...errors };
+  }
+  // An event stream carries the response schema one event at a time;
+  // other alternatives (CSV, HTML) are plain documents
+  const content = produces.includes('text/event-stream')
+    ? { 'text/event-stream': { schema: jsonSchema(response, 'output') } }
+    : {
+        ...json(response, 'output'),
+        ...Object.fromEntries(produces.map((type) => [type, { schema: { type: 'string' } }])),
+      };
+  const headers = {
+    ETag: { description: "The returned entity's updatedAt, to send back in If-Match", schema: { type: 'string' } },
+  };
+  return {
+    [status ?? 200]: { description: status === 201 ? 'Created' : 'OK', content, ...(etag && { headers }) },
+    ...errors,
+  };
+}
+
+function buildDocument(): object {
+  const paths: Record<string, Record<string, unknown>> = {};
+  for (const [route, endpoint] of Object.entries(endpoints) as [string, Endpoint][]) {
+    const [method, path] = route.split(' ');
+    paths[path] ??= {};
+    paths[path][method.toLowerCase()] = {
+      summary: endpoint.summary,
+      tags: [endpoint.tag],
+      ...(endpoint.public && { security: [] }),
+      parameters: parameters(path, endpoint),
+      ...(endpoint.body && { requestBody: { required: true, content: json(endpoint.body, 'input') } }),
+      responses: responses(endpoint),
+    };
+  }
+  // Each operation's $defs were moved to components, so refs point there
+  const document = {
+    openapi: '3.1.0',
+    info: { title: 'Cost Insight Dashboard API', version: '1.0.0' },
+    servers: [{ url: '/api' }],
+    components: {
+      schemas: components,
+      securitySchemes: {
+        bearer: { type: 'http', scheme: 'bearer' },
+        cookie: { type: 'apiKey', in: 'cookie', name: SESSION_COOKIE },
+      },
+    },
+    security: [{ bearer: [] }, { cookie: [] }],
+    paths,
+  };
+  return JSON.parse(JSON.stringify(document).replaceAll('"#/$defs/', '"#/components/schemas/'));
+}
+
+export function createOpenApiRouter(): Router {
+  const router = Router();
+  // The contract is fixed at startup, so the document is built once
+  let document: object | undefined;
+
+  router.get('/', (_req: Request, res: Response) => {
+    document ??= buildDocument();
+    res.json(document);
+  });
+
+  return router;
+}
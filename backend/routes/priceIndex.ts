@@ -0,0 +1,41 @@
+/**
+ * Tender price index routes - mounted at /api/tender-price-index
+ *
+ * GET    /            list the index table, oldest quarter first
+ * PUT    /:quarter    set a quarter's value (e.g. PUT /2025-Q1), adding the
+ *                     quarter if it is new
+ * DELETE /:quarter    remove a quarter
+ *
+ * Anyone signed in can read the table; changing it needs the
+ * manageIndices permission.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { requirePermission } from '../middleware/auth.js';
+import { parseOrThrow, validateBody } from '../middleware/validate.js';
+import { quarterSchema, tenderPriceIndexInputSchema } from '../../shared/schemas/priceIndex.js';
+import type { PriceIndexService } from '../services/priceIndexService.js';
+
+function quarterParam(req: Request): string {
+  return parseOrThrow(quarterSchema, req.params.quarter, 'Quarter is invalid', 'quarter');
+}
+
+export function createPriceIndexRouter(index: PriceIndexService): Router {
+  const router = Router();
+  const canManage = requirePermission('manageIndices');
+
+  router.get('/', async (_req: Request, res: Response) => {
+    res.json(await index.list());
+  });
+
+  router.put('/:quarter', canManage, validateBody(tenderPriceIndexInputSchema), async (req: Request, res: Response) => {
+    res.json(await index.put(quarterParam(req), req.body));
+  });
+
+  router.delete('/:quarter', canManage, async (req: Request, res: Response) => {
+    await index.remove(quarterParam(req));
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,53 @@
+/**
+ * Composite rate routes - mounted at /api/rates
+ *
+ * GET    /              list the rate library's composite rates
+ * GET    /:id           fetch one rate with its priced components
+ * POST   /              add a rate built from library resources
+ * POST   /:id/preview   what a PUT with the same body would do to model
+ *                       totals, without saving
+ * PUT    /:id           replace a rate's components; linked works in draft
+ *                       models are repriced
+ * DELETE /:id           delete a rate no work or template links to
+ *
+ * Component costs and the rate are calculated by the server. Writes
+ * (including the preview) need the manageRates permission.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { currentUser, requirePermission } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { compositeRateInputSchema } from '../../shared/schemas/rates.js';
+import type { RateService } from '../services/rateService.js';
+
+export function createRatesRouter(rates: RateService): Router {
+  const router = Router();
+  const canManage = requirePermission('manageRates');
+
+  router.get('/', async (_req: Request, res: Response) => {
+    res.json(await rates.listRates());
+  });
+
+  router.get('/:id', async (req: Request, res: Response) => {
+    res.json(await rates.getRate(req.params.id));
+  });
+
+  router.post('/', canManage, validateBody(compositeRateInputSchema), async (req: Request, res: Response) => {
+    res.status(201).json(await rates.createRate(req.body));
+  });
+
+  router.post('/:id/preview', canManage, validateBody(compositeRateInputSchema), async (req: Request, res: Response) => {
+    res.json(await rates.rateImpact(req.params.id, req.body));
+  });
+
+  router.put('/:id', canManage, validateBody(compositeRateInputSchema), async (req: Request, res: Response) => {
+    res.json(await rates.replaceRate(req.params.id, req.body, currentUser(req)));
+  });
+
+  router.delete('/:id', canManage, async (req: Request, res: Response) => {
+    await rates.removeRate(req.params.id);
+    res.status(204).end();
+  });
+
+  return router;
+}
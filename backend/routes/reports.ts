@@ -0,0 +1,41 @@
+/**
+ * Cost plan report routes - mounted at /api/models/:id/report
+ *
+ * GET /?format=json   elemental summary as JSON (default)
+ * GET /?format=csv    the same summary as a CSV download
+ * GET /?format=html   print-ready HTML page with the project header
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { parseOrThrow } from '../middleware/validate.js';
+import { renderCostPlanCsv, renderCostPlanHtml } from '../reports/costPlan.js';
+import { reportQuerySchema } from '../../shared/schemas/reports.js';
+import type { ReportService } from '../services/reportService.js';
+
+type ReportParams = { id: string };
+
+export function createReportsRouter(reports: ReportService): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get('/', async (req: Request<ReportParams>, res: Response) => {
+    const { format } = parseOrThrow(reportQuerySchema, req.query, 'Query parameters are invalid');
+    const report = await reports.costPlan(req.params.id);
+    const fileName = `${(report.model.projectRef || report.model.id).replace(/[^\w.-]+/g, '_')}-cost-plan`;
+
+    switch (format) {
+      case 'csv':
+        res
+          .type('text/csv')
+          .attachment(`${fileName}.csv`)
+          .send(renderCostPlanCsv(report));
+        break;
+      case 'html':
+        res.type('html').send(renderCostPlanHtml(report));
+        break;
+      default:
+        res.json(report);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,52 @@
+/**
+ * Resource routes - mounted at /api/resources
+ *
+ * GET    /              list the rate library's labour, plant and materials
+ * GET    /:id           fetch one resource
+ * POST   /              add a resource
+ * POST   /:id/preview   what a PATCH with the same body would do to the
+ *                       composite rates and model totals, without saving
+ * PATCH  /:id           update a resource; a new price reprices every rate
+ *                       built from it and every linked work in a draft model
+ * DELETE /:id           delete a resource no composite rate uses
+ *
+ * Writes (including the preview) need the manageRates permission.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { currentUser, requirePermission } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { resourceInputSchema, resourcePatchSchema } from '../../shared/schemas/rates.js';
+import type { RateService } from '../services/rateService.js';
+
+export function createResourcesRouter(rates: RateService): Router {
+  const router = Router();
+  const canManage = requirePermission('manageRates');
+
+  router.get('/', async (_req: Request, res: Response) => {
+    res.json(await rates.listResources());
+  });
+
+  router.get('/:id', async (req: Request, res: Response) => {
+    res.json(await rates.getResource(req.params.id));
+  });
+
+  router.post('/', canManage, validateBody(resourceInputSchema), async (req: Request, res: Response) => {
+    res.status(201).json(await rates.createResource(req.body));
+  });
+
+  router.post('/:id/preview', canManage, validateBody(resourcePatchSchema), async (req: Request, res: Response) => {
+    res.json(await rates.resourceImpact(req.params.id, req.body));
+  });
+
+  router.patch('/:id', canManage, validateBody(resourcePatchSchema), async (req: Request, res: Response) => {
+    res.json(await rates.patchResource(req.params.id, req.body, currentUser(req)));
+  });
+
+  router.delete('/:id', canManage, async (req: Request, res: Response) => {
+    await rates.removeResource(req.params.id);
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -0,0 +1,53 @@
+/**
+ * Revision routes - mounted at /api/models/:id/revisions
+ *
+ * GET    /                     list revisions (without snapshots)
+ * POST   /                     save the current state as a labelled revision
+ * GET    /diff?from=1&to=4     compare two revisions, grouped by element code
+ * GET    /:number              fetch a revision's full snapshot
+ * PATCH  /:number              change a revision's label
+ *
+ * Revisions are also recorded automatically on every save of the model or
+ * its measured works. Saving and relabelling need the editModels permission.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { requirePermission } from '../middleware/auth.js';
+import { parseOrThrow, validateBody } from '../middleware/validate.js';
+import { revisionDiffQuerySchema, revisionLabelSchema, revisionNumberSchema } from '../../shared/schemas/revisions.js';
+import type { ModelService } from '../services/modelService.js';
+import type { RevisionService } from '../services/revisionService.js';
+
+type RevisionParams = { id: string; number: string };
+
+export function createRevisionsRouter(revisions: RevisionService, models: ModelService): Router {
+  const router = Router({ mergeParams: true });
+  const canEdit = requirePermission('editModels');
+
+  const revisionNumber = (req: Request<RevisionParams>) =>
+    parseOrThrow(revisionNumberSchema, req.params.number, 'Revision number must be a positive integer', 'number');
+
+  router.get('/', async (req: Request<RevisionParams>, res: Response) => {
+    await models.get(req.params.id);
+    res.json(await revisions.list(req.params.id));
+  });
+
+  router.post('/', canEdit, validateBody(revisionLabelSchema), async (req: Request<RevisionParams>, res: Response) => {
+    res.status(201).json(await revisions.save(req.params.id, req.body.label));
+  });
+
+  router.get('/diff', async (req: Request<RevisionParams>, res: Response) => {
+    const { from, to } = parseOrThrow(revisionDiffQuerySchema, req.query, 'Query parameters are invalid');
+    res.json(await revisions.diff(req.params.id, from, to));
+  });
+
+  router.get('/:number', async (req: Request<RevisionParams>, res: Response) => {
+    res.json(await revisions.get(req.params.id, revisionNumber(req)));
+  });
+
+  router.patch('/:number', canEdit, validateBody(revisionLabelSchema), async (req: Request<RevisionParams>, res: Response) => {
+    res.json(await revisions.relabel(req.params.id, revisionNumber(req), req.body.label));
+  });
+
+  return router;
+}
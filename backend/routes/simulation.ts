@@ -0,0 +1,28 @@
+/**
+ * Cost simulation routes - mounted at /api/models/:id/simulation
+ *
+ * GET /?iterations=&seed=
+ *      Monte Carlo simulation of the model's total from its works' ranges
+ *      and its risk register: P10/P50/P80/P90 totals with the contingency
+ *      each implies, a histogram and a tornado of the biggest contributors.
+ *      The same seed and iterations always give the same result. A model
+ *      with many ranged works and risks allows fewer iterations.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { parseOrThrow } from '../middleware/validate.js';
+import { simulationQuerySchema } from '../../shared/schemas/risks.js';
+import type { SimulationService } from '../services/simulationService.js';
+
+type SimulationParams = { id: string };
+
+export function createSimulationRouter(simulations: SimulationService): Router {
+  const router = Router({ mergeParams: true });
+
+  router.get('/', async (req: Request<SimulationParams>, res: Response) => {
+    const query = parseOrThrow(simulationQuerySchema, req.query, 'Query parameters are invalid');
+    res.json(await simulations.simulate(req.params.id, query));
+  });
+
+  return router;
+}
@@ -0,0 +1,47 @@
+/**
+ * Template routes - mounted at /api/templates
+ *
+ * GET    /             list templates (without their work lines)
+ * GET    /:id          fetch a template with its work lines
+ * POST   /:id/models   create a draft model from a template, optionally
+ *                      rescaling quantities to the new model's GIFA
+ * DELETE /:id          delete a template
+ *
+ * Templates are saved from a model with POST /api/models/:id/template.
+ * Creating a model needs the editModels permission; deleting a template
+ * needs deleteModels.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { currentUser, requirePermission } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { templateModelInputSchema } from '../../shared/schemas/templates.js';
+import type { TemplateService } from '../services/templateService.js';
+
+export function createTemplatesRouter(templates: TemplateService): Router {
+  const router = Router();
+
+  router.get('/', async (_req: Request, res: Response) => {
+    res.json(await templates.list());
+  });
+
+  router.get('/:id', async (req: Request, res: Response) => {
+    res.json(await templates.get(req.params.id));
+  });
+
+  router.post(
+    '/:id/models',
+    requirePermission('editModels'),
+    validateBody(templateModelInputSchema),
+    async (req: Request, res: Response) => {
+      res.status(201).json(await templates.createModel(req.params.id, req.body, currentUser(req)));
+    }
+  );
+
+  router.delete('/:id', requirePermission('deleteModels'), async (req: Request, res: Response) => {
+    await templates.remove(req.params.id);
+    res.status(204).end();
+  });
+
+  return router;
+}
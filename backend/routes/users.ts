@@ -0,0 +1,39 @@
+/**
+ * User routes - mounted at /api/users (admins only)
+ *
+ * GET    /       list users
+ * GET    /:id    fetch one user
+ * POST   /       create a user with an initial password
+ * PATCH  /:id    change a user's name, role or password; the last admin
+ *                can't be given another role
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { requirePermission } from '../middleware/auth.js';
+import { validateBody } from '../middleware/validate.js';
+import { userInputSchema, userPatchSchema } from '../../shared/schemas/users.js';
+import type { UserService } from '../services/userService.js';
+
+export function createUsersRouter(users: UserService): Router {
+  const router = Router();
+
+  router.use(requirePermission('manageUsers'));
+
+  router.get('/', async (_req: Request, res: Response) => {
+    res.json(await users.list());
+  });
+
+  router.get('/:id', async (req: Request, res: Response) => {
+    res.json(await users.get(req.params.id));
+  });
+
+  router.post('/', validateBody(userInputSchema), async (req: Request, res: Response) => {
+    res.status(201).json(await users.create(req.body));
+  });
+
+  router.patch('/:id', validateBody(userPatchSchema), async (req: Request, res: Response) => {
+    res.json(await users.patch(req.params.id, req.body));
+  });
+
+  return router;
+}
@@ -0,0 +1,70 @@
+/**
+ * Measured work routes - mounted at /api/models/:id/works
+ *
+ * GET    /           list the model's measured works
+ * GET    /:workId    fetch one measured work
+ * POST   /           add a measured work
+ * PUT    /:workId    replace a measured work
+ * PATCH  /:workId    update some of a measured work's fields
+ * DELETE /:workId    delete a measured work
+ * POST   /import/preview   parse a CSV bill of quantities without saving
+ * POST   /import           import every row of a CSV, or none if any is invalid
+ *
+ * totalCost is calculated by the server on every write, and the parent
+ * model's totalCost is rolled up from its works. Writes (including the
+ * import preview) need the editModels permission. PUT, PATCH and DELETE
+ * must send the work's updatedAt (its ETag) in If-Match; a work changed
+ * since gets a 409 with its current copy.
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { currentUser, requirePermission } from '../middleware/auth.js';
+import { ifMatch, sendVersioned } from '../middleware/concurrency.js';
+import { validateBody } from '../middleware/validate.js';
+import { worksImportSchema } from '../../shared/schemas/imports.js';
+import { measuredWorkInputSchema, measuredWorkPatchSchema } from '../../shared/schemas/works.js';
+import type { ImportService } from '../services/importService.js';
+import type { WorkService } from '../services/workService.js';
+
+type WorkParams = { id: string; workId: string };
+
+export function createWorksRouter(works: WorkService, imports: ImportService): Router {
+  // mergeParams exposes :id from the parent /models/:id/works mount
+  const router = Router({ mergeParams: true });
+  const canEdit = requirePermission('editModels');
+
+  router.get('/', async (req: Request<WorkParams>, res: Response) => {
+    res.json(await works.list(req.params.id));
+  });
+
+  router.post('/import/preview', canEdit, validateBody(worksImportSchema), async (req: Request<WorkParams>, res: Response) => {
+    res.json(await imports.preview(req.params.id, req.body));
+  });
+
+  router.post('/import', canEdit, validateBody(worksImportSchema), async (req: Request<WorkParams>, res: Response) => {
+    res.status(201).json(await imports.commit(req.params.id, req.body, currentUser(req)));
+  });
+
+  router.get('/:workId', async (req: Request<WorkParams>, res: Response) => {
+    sendVersioned(res, await works.get(req.params.id, req.params.workId));
+  });
+
+  router.post('/', canEdit, validateBody(measuredWorkInputSchema), async (req: Request<WorkParams>, res: Response) => {
+    sendVersioned(res, await works.create(req.params.id, req.body, currentUser(req)), 201);
+  });
+
+  router.put('/:workId', canEdit, validateBody(measuredWorkInputSchema), async (req: Request<WorkParams>, res: Response) => {
+    sendVersioned(res, await works.replace(req.params.id, req.params.workId, req.body, currentUser(req), ifMatch(req)));
+  });
+
+  router.patch('/:workId', canEdit, validateBody(measuredWorkPatchSchema), async (req: Request<WorkParams>, res: Response) => {
+    sendVersioned(res, await works.patch(req.params.id, req.params.workId, req.body, currentUser(req), ifMatch(req)));
+  });
+
+  router.delete('/:workId', canEdit, async (req: Request<WorkParams>, res: Response) => {
+    await works.remove(req.params.id, req.params.workId, currentUser(req), ifMatch(req));
+    res.status(204).end();
+  });
+
+  return router;
+}
@@ -1,7 +1,10 @@
 // backend/server.ts:10-110
 import express, { Request, Response, NextFunction } from 'express';
 import cors from 'cors';
-// import apiRoutes from './routes/api.js';
+import { errorHandler } from './middleware/errorHandler.js';
+import { createDataStore } from './repositories/index.js';
+import { createApiRouter } from './routes/api.js';
+import { createUserService } from './services/userService.js';
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -9,12 +12,14 @@ const PORT = process.env.PORT || 3001;
 // Enable CORS for frontend origin (Vite dev server)
 app.use(cors({
   origin: 'http://localhost:5173',
-  methods: ['GET', 'POST', 'PUT', 'DELETE'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE'],
+  // Clients read a model's or work's version from the ETag
+  exposedHeaders: ['ETag'],
   credentials: true
 }));
 
-// Parse JSON request bodies
-app.use(express.json());
+// Parse JSON request bodies (raised limit for CSV bill of quantities imports)
+app.use(express.json({ limit: '5mb' }));
 
 // Log all incoming requests
 app.use((req: Request, res: Response, next: NextFunction) => {
@@ -26,13 +31,53 @@ app.use((req: Request, res: Response, next: NextFunction) => {
 app.get('/', (req: Request, res: Response) => {
   res.json({
     message: 'Cost Insight Dashboard API',
+    authentication: 'Sign in at /api/auth/login; every other /api route except /api/health and /api/openapi.json needs the session',
+    concurrency: 'Changes to an existing model or work send its updatedAt (ETag) in If-Match; a stale copy gets 409',
     version: '1.0.0',
     endpoints: {
       health: 'GET /api/health',
-      models: 'GET /api/models',
+      openApi: 'GET /api/openapi.json',
+      login: 'POST /api/auth/login',
+      logout: 'POST /api/auth/logout',
+      currentUser: 'GET /api/auth/me',
+      users: 'GET|POST /api/users',
+      userDetail: 'GET|PATCH /api/users/:id',
+      models: 'GET /api/models?q=&status=&preparedBy=&sort=&order=&limit=&offset=',
       modelDetail: 'GET /api/models/:id',
+      costPlanSummary: 'GET /api/models/:id/summary',
       createModel: 'POST /api/models',
-      deleteModel: 'DELETE /api/models/:id'
+      replaceModel: 'PUT /api/models/:id',
+      updateModel: 'PATCH /api/models/:id',
+      deleteModel: 'DELETE /api/models/:id',
+      transitionModel: 'POST /api/models/:id/transitions',
+      duplicateModel: 'POST /api/models/:id/duplicate',
+      saveTemplate: 'POST /api/models/:id/template',
+      templates: 'GET /api/templates',
+      templateDetail: 'GET|DELETE /api/templates/:id',
+      createFromTemplate: 'POST /api/templates/:id/models',
+      works: 'GET|POST /api/models/:id/works',
+      workDetail: 'GET|PUT|PATCH|DELETE /api/models/:id/works/:workId',
+      importWorks: 'POST /api/models/:id/works/import[/preview]',
+      revisions: 'GET|POST /api/models/:id/revisions',
+      revisionDetail: 'GET|PATCH /api/models/:id/revisions/:number',
+      revisionDiff: 'GET /api/models/:id/revisions/diff?from=&to=',
+      audit: 'GET /api/models/:id/audit?user=&field=&entity=&from=&to=',
+      liveEvents: 'GET /api/models/:id/events (Server-Sent Events)',
+      costPlanReport: 'GET /api/models/:id/report?format=json|csv|html',
+      cashflow: 'GET /api/models/:id/cashflow?distribution=&weights=&by=&retention=&defectsPeriod=&format=json|csv',
+      simulation: 'GET /api/models/:id/simulation?iterations=&seed=',
+      benchmarks: 'GET /api/benchmarks?status=&client=&level=&modelId=',
+      compare: 'GET /api/compare?fromModel=&fromRevision=&toModel=&toRevision=',
+      resources: 'GET|POST /api/resources',
+      resourceDetail: 'GET|PATCH|DELETE /api/resources/:id',
+      resourcePreview: 'POST /api/resources/:id/preview',
+      rates: 'GET|POST /api/rates',
+      rateDetail: 'GET|PUT|DELETE /api/rates/:id',
+      ratePreview: 'POST /api/rates/:id/preview',
+      tenderPriceIndex: 'GET /api/tender-price-index, PUT|DELETE /api/tender-price-index/:quarter',
+      elements: 'GET /api/elements?q=',
+      elementTree: 'GET /api/elements/tree',
+      elementDetail: 'GET /api/elements/:code'
     }
   });
 });
@@ -47,25 +92,39 @@ app.get('/api/health', (req: Request, res: Response) => {
   });
 });
 
-// API routes
-// app.use('/api', apiRoutes);
+async function start() {
+  const store = await createDataStore();
+  await createUserService(store).bootstrap();
 
-// 404 handler for undefined routes
-app.use((req: Request, res: Response) => {
-  res.status(404).json({
-    error: 'Not Found',
-    message: `Cannot ${req.method} ${req.path}`
+  // API routes
+  app.use('/api', createApiRouter(store));
+
+  // 404 handler for undefined routes
+  app.use((req: Request, res: Response) => {
+    res.status(404).json({
+      error: 'Not Found',
+      message: `Cannot ${req.method} ${req.path}`
+    });
   });
-});
 
-// Start Server
-app.listen(PORT, () => {
-  console.log('=================================');
-  console.log('Cost Insight Dashboard API');
-  console.log('=================================');
-  console.log(`Server running on port ${PORT}`);
-  console.log(`Health check: http://localhost:${PORT}/api/health`);
-  console.log(`CORS enabled for: http://localhost:5173`);
-  console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
-  console.log('=================================');
-});
\ No newline at end of file
+  // Render thrown errors (validation, not found, unexpected) as JSON
+  app.use(errorHandler);
+
+  // Start Server
+  app.listen(PORT, () => {
+    console.log('=================================');
+    console.log('Cost Insight Dashboard API');
+    console.log('=================================');
+    console.log(`Server running on port ${PORT}`);
+    console.log(`Health check: http://localhost:${PORT}/api/health`);
+    console.log(`CORS enabled for: http://localhost:5173`);
+    console.log(`Data store: ${process.env.DATA_STORE || 'file'}`);
+    console.log(`Environment: ${process.env.NODE_ENV || 'development'}`);
+    console.log('=================================');
+  });
+}
+
+start().catch((err) => {
+  console.error('Failed to start server:', err);
+  process.exit(1);
+});
@@ -0,0 +1,97 @@
+/**
+ * Audit service
+ *
+ * The model and work services call record() inside the same transaction as
+ * every change they make, so an entry exists exactly when the change was
+ * kept. The log is append-only: nothing here updates or deletes an entry,
+ * and deleting a model leaves its history in place. Once the transaction
+ * commits, each entry is also published to the model's live viewers.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { NotFoundError } from '../errors.js';
+import type { DataStore } from '../repositories/index.js';
+import type { AuditAction, AuditEntity, AuditEntry, AuditQuery } from '../../shared/schemas/audit.js';
+import type { CostModel } from '../../shared/schemas/models.js';
+import type { PublicUser } from '../../shared/schemas/users.js';
+import type { MeasuredWork } from '../../shared/schemas/works.js';
+import type { EventService } from './eventService.js';
+import { fieldChanges } from './revisionService.js';
+
+type Audited = CostModel | MeasuredWork;
+
+function describe(entity: AuditEntity, item: Audited): { costModelId: string; entityLabel: string } {
+  return entity === 'model'
+    ? { costModelId: item.id, entityLabel: (item as CostModel).projectName }
+    : { costModelId: (item as MeasuredWork).costModelId, entityLabel: (item as MeasuredWork).description };
+}
+
+// Write timestamp bounds the way entries are stamped (toISOString) so they
+// compare as strings; dates are left as they are
+function normaliseBound(bound: string): string {
+  return bound.length > 10 ? new Date(bound).toISOString() : bound;
+}
+
+export function createAuditService(store: DataStore, events: EventService) {
+  /**
+   * Log one change. before is undefined for a create and after for a delete;
+   * an update that changed nothing but timestamps is not logged.
+   */
+  async function record(
+    entity: AuditEntity,
+    action: AuditAction,
+    user: PublicUser,
+    before: Audited | undefined,
+    after: Audited | undefined
+  ): Promise<AuditEntry | undefined> {
+    const changes = fieldChanges(before ?? {}, after ?? {});
+    if (changes.length === 0) {
+      return undefined;
+    }
+    const item = (after ?? before)!;
+    const entry = await store.audit.create({
+      id: randomUUID(),
+      ...describe(entity, item),
+      entity,
+      entityId: item.id,
+      action,
+      actor: { id: user.id, username: user.username, displayName: user.displayName },
+      timestamp: new Date().toISOString(),
+      changes,
+    });
+    store.afterCommit(() => events.publish(entry.costModelId, { type: 'change', entry }));
+    return entry;
+  }
+
+  /**
+   * A model's entries, newest first, narrowed by the query's filters
+   */
+  async function list(modelId: string, { user, field, entity, ...range }: AuditQuery): Promise<AuditEntry[]> {
+    const entries = (await store.audit.findAll()).filter((entry) => entry.costModelId === modelId);
+    // A deleted model's history can still be read; only a model that never
+    // existed is not found
+    if (entries.length === 0 && !(await store.models.findById(modelId))) {
+      throw new NotFoundError(`Cost model ${modelId} not found`);
+    }
+
+    const from = range.from && normaliseBound(range.from);
+    const to = range.to && normaliseBound(range.to);
+    // The store keeps entries in the order they were written
+    return entries
+      .filter((entry) => {
+        if (user && entry.actor.username !== user && entry.actor.displayName.toLowerCase() !== user) return false;
+        if (field && !entry.changes.some((change) => change.field === field)) return false;
+        if (entity && entry.entity !== entity) return false;
+        // ISO timestamps compare as strings; cutting the timestamp to the
+        // bound's length makes a date-only "to" include that whole day
+        if (from && entry.timestamp < from) return false;
+        if (to && entry.timestamp.slice(0, to.length) > to) return false;
+        return true;
+      })
+      .reverse();
+  }
+
+  return { record, list };
+}
+
+export type AuditService = ReturnType<typeof createAuditService>;
@@ -0,0 +1,72 @@
+/**
+ * Authentication service
+ *
+ * Username/password sign-in issuing opaque session tokens. The token goes
+ * back to the client (as a cookie and in the body); only its SHA-256 is
+ * stored, keyed as the session id. Sessions expire after SESSION_TTL_HOURS
+ * (default 12) and are swept on each sign-in.
+ */
+
+import { createHash, randomBytes } from 'node:crypto';
+import { UnauthorizedError } from '../errors.js';
+import type { DataStore } from '../repositories/index.js';
+import type { LoginInput, PublicUser, SignIn } from '../../shared/schemas/users.js';
+import { verifyPassword } from '../utils/password.js';
+import { toPublicUser, type UserService } from './userService.js';
+
+const SESSION_TTL_MS = Number(process.env.SESSION_TTL_HOURS || 12) * 60 * 60 * 1000;
+
+// Compared against when the username is unknown, so a miss takes as long as a wrong password
+const DUMMY_HASH = 'scrypt$16384$8$1$AAAAAAAAAAAAAAAAAAAAAA==$' + 'A'.repeat(86) + '==';
+
+function sessionId(token: string): string {
+  return createHash('sha256').update(token).digest('hex');
+}
+
+export function createAuthService(store: DataStore, users: UserService) {
+  async function login({ username, password }: LoginInput): Promise<SignIn> {
+    const user = await users.findByUsername(username);
+    const valid = await verifyPassword(password, user?.passwordHash ?? DUMMY_HASH);
+    if (!user || !valid) {
+      throw new UnauthorizedError('Username or password is incorrect');
+    }
+
+    const token = randomBytes(32).toString('base64url');
+    const now = new Date();
+    const expiresAt = new Date(now.getTime() + SESSION_TTL_MS).toISOString();
+
+    await store.transaction(async () => {
+      for (const session of await store.sessions.findAll()) {
+        if (session.expiresAt <= now.toISOString()) {
+          await store.sessions.delete(session.id);
+        }
+      }
+      await store.sessions.create({ id: sessionId(token), userId: user.id, createdAt: now.toISOString(), expiresAt });
+    });
+
+    return { token, expiresAt, user: toPublicUser(user) };
+  }
+
+  /**
+   * The signed-in user for a session token, or undefined if the token is
+   * unknown or expired
+   */
+  async function authenticate(token: string): Promise<PublicUser | undefined> {
+    const session = await store.sessions.findById(sessionId(token));
+    if (!session || session.expiresAt <= new Date().toISOString()) {
+      return undefined;
+    }
+    const user = await store.users.findById(session.userId);
+    return user && toPublicUser(user);
+  }
+
+  async function logout(token: string): Promise<void> {
+    await store.transaction(async () => {
+      await store.sessions.delete(sessionId(token));
+    });
+  }
+
+  return { login, authenticate, logout };
+}
+
+export type AuthService = ReturnType<typeof createAuthService>;
@@ -0,0 +1,169 @@
+/**
+ * Benchmarking service
+ *
+ * Compares £/m² of GIFA across cost models so a new estimate can be
+ * sanity-checked against past projects. The comparison set is every model
+ * matching the filters that has a GIFA; quartiles use linear interpolation
+ * between ranked values (the same method as Excel's QUARTILE.INC).
+ */
+
+import type {
+  BenchmarkElement,
+  BenchmarkModel,
+  BenchmarkPosition,
+  BenchmarkQuery,
+  BenchmarkReport,
+  BenchmarkStats,
+} from '../../shared/schemas/benchmarks.js';
+import type { CostModel } from '../../shared/schemas/models.js';
+import type { MeasuredWork } from '../../shared/schemas/works.js';
+import { sumMeasuredWorks } from '../utils/calculations.js';
+import { divideMoney, multiplyMoney, percentOf, subtractMoney, sumMoney } from '../../shared/utils/money.js';
+import type { ElementService } from './elementService.js';
+import type { ModelService } from './modelService.js';
+import type { WorkService } from './workService.js';
+
+const LEVEL_SEGMENTS = { group: 1, element: 2 } as const;
+
+type MeasuredModel = CostModel & { gifa: number };
+
+function quantile(sorted: number[], p: number): number {
+  const position = (sorted.length - 1) * p;
+  const lower = Math.floor(position);
+  const fraction = position - lower;
+  if (fraction === 0) {
+    return sorted[lower];
+  }
+  return sumMoney([sorted[lower], multiplyMoney(subtractMoney(sorted[lower + 1], sorted[lower]), fraction)]);
+}
+
+function summarise(values: number[]): BenchmarkStats | null {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    lowerQuartile: quantile(sorted, 0.25),
+    median: quantile(sorted, 0.5),
+    upperQuartile: quantile(sorted, 0.75),
+    max: sorted[sorted.length - 1],
+  };
+}
+
+function positionIn(costPerM2: number, stats: BenchmarkStats | null): BenchmarkPosition | null {
+  if (!stats) {
+    return null;
+  }
+  const quartile =
+    costPerM2 <= stats.lowerQuartile ? 1 : costPerM2 <= stats.median ? 2 : costPerM2 <= stats.upperQuartile ? 3 : 4;
+  const varianceFromMedian = subtractMoney(costPerM2, stats.median);
+  return {
+    quartile,
+    varianceFromMedian,
+    percentFromMedian: percentOf(varianceFromMedian, stats.median),
+  };
+}
+
+export function createBenchmarkService(models: ModelService, works: WorkService, elements: ElementService) {
+  function matches(model: CostModel, { status, client }: BenchmarkQuery): boolean {
+    if (status && status.length > 0 && !status.includes(model.status)) return false;
+    if (client && model.client?.toLowerCase() !== client.toLowerCase()) return false;
+    return true;
+  }
+
+  function rollUpCode(code: string, level: BenchmarkQuery['level']): string {
+    return code.split('.').slice(0, LEVEL_SEGMENTS[level]).join('.');
+  }
+
+  async function compare(query: BenchmarkQuery): Promise<BenchmarkReport> {
+    const all = await models.list();
+    const candidates = all.filter((model) => matches(model, query));
+    if (query.modelId && !candidates.some((model) => model.id === query.modelId)) {
+      candidates.push(await models.get(query.modelId));
+    }
+
+    const benchmarked = candidates.filter(
+      (model): model is MeasuredModel => model.gifa !== undefined && model.gifa > 0
+    );
+    const inSet = (model: CostModel) => matches(model, query);
+
+    const worksByModel = new Map<string, MeasuredWork[]>();
+    for (const model of benchmarked) {
+      worksByModel.set(model.id, await works.list(model.id));
+    }
+
+    // Overall £/m², on works cost like the elements
+    const overallRows = benchmarked.map((model) => {
+      const worksCost = sumMeasuredWorks(worksByModel.get(model.id) ?? []);
+      return { model, worksCost, costPerM2: divideMoney(worksCost, model.gifa) };
+    });
+    const overallStats = summarise(overallRows.filter(({ model }) => inSet(model)).map((row) => row.costPerM2));
+    const overallModels: BenchmarkModel[] = overallRows
+      .map(({ model, worksCost, costPerM2 }) => ({
+        modelId: model.id,
+        projectName: model.projectName,
+        projectRef: model.projectRef,
+        client: model.client,
+        status: model.status,
+        gifa: model.gifa,
+        worksCost,
+        costPerM2,
+        inComparisonSet: inSet(model),
+        position: positionIn(costPerM2, overallStats),
+      }))
+      .sort((a, b) => a.costPerM2 - b.costPerM2);
+
+    // Per element, rolled up to the requested NRM level
+    const byElement = new Map<string, { elementName: string; rows: { model: MeasuredModel; subtotal: number }[] }>();
+    for (const model of benchmarked) {
+      const subtotals = new Map<string, MeasuredWork[]>();
+      for (const work of worksByModel.get(model.id) ?? []) {
+        const code = rollUpCode(work.elementCode, query.level);
+        subtotals.set(code, [...(subtotals.get(code) ?? []), work]);
+        if (!byElement.has(code)) {
+          byElement.set(code, { elementName: elements.find(code)?.name ?? work.elementName, rows: [] });
+        }
+      }
+      for (const [code, group] of subtotals) {
+        byElement.get(code)!.rows.push({ model, subtotal: sumMeasuredWorks(group) });
+      }
+    }
+
+    const elementReports: BenchmarkElement[] = [...byElement.entries()]
+      .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+      .map(([elementCode, { elementName, rows }]) => {
+        const entries = rows.map(({ model, subtotal }) => ({
+          model,
+          subtotal,
+          costPerM2: divideMoney(subtotal, model.gifa),
+        }));
+        const stats = summarise(entries.filter(({ model }) => inSet(model)).map((entry) => entry.costPerM2));
+        return {
+          elementCode,
+          elementName,
+          stats,
+          models: entries
+            .map(({ model, subtotal, costPerM2 }) => ({
+              modelId: model.id,
+              subtotal,
+              costPerM2,
+              inComparisonSet: inSet(model),
+              position: positionIn(costPerM2, stats),
+            }))
+            .sort((a, b) => a.costPerM2 - b.costPerM2),
+        };
+      });
+
+    return {
+      filters: { status: query.status, client: query.client, level: query.level },
+      overall: { stats: overallStats, models: overallModels },
+      elements: elementReports,
+    };
+  }
+
+  return { compare };
+}
+
+export type BenchmarkService = ReturnType<typeof createBenchmarkService>;
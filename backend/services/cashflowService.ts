@@ -0,0 +1,83 @@
+/**
+ * Cashflow forecast service
+ *
+ * Spreads a model's outturn cost (its total project cost plus inflation,
+ * from modelService.summary()) across the months of its construction
+ * programme. By element, each element subtotal from groupByElementCode is
+ * spread on its own, followed by each add-on stage and inflation, so the
+ * rows add up to the same total as spreading it whole. The maths is in
+ * utils/cashflow.ts.
+ */
+
+import type { Cashflow, CashflowQuery, CashflowRow } from '../../shared/schemas/cashflow.js';
+import { ValidationError } from '../errors.js';
+import { distributionShares, paymentSchedule, programmeMonths, spreadAmount } from '../utils/cashflow.js';
+import { groupByElementCode, sumMeasuredWorks } from '../utils/calculations.js';
+import { multiplyMoney, sumMoney } from '../../shared/utils/money.js';
+import type { ModelService } from './modelService.js';
+import type { WorkService } from './workService.js';
+
+export function createCashflowService(models: ModelService, works: WorkService) {
+  async function forecast(
+    modelId: string,
+    { distribution, weights, by, retention, defectsPeriod }: CashflowQuery
+  ): Promise<Cashflow> {
+    const model = await models.get(modelId);
+    const { constructionStart, constructionCompletion } = model;
+    if (!constructionStart || !constructionCompletion) {
+      throw new ValidationError('Cost model has no construction programme', [
+        { path: 'constructionStart', message: 'Set the construction start and completion dates first' },
+      ]);
+    }
+
+    const months = programmeMonths(constructionStart, constructionCompletion);
+    if (distribution === 'custom' && weights?.length !== months.length) {
+      throw new ValidationError('Query parameters are invalid', [
+        { path: 'weights', message: `Must have one weight per programme month (${months.length})` },
+      ]);
+    }
+    const shares = distributionShares(distribution, months.length, weights);
+
+    const summary = await models.summary(modelId);
+    const amounts: Omit<CashflowRow, 'months'>[] = [];
+    if (by === 'total') {
+      amounts.push({ key: 'total', label: summary.inflation ? 'Outturn cost' : 'Total project cost', amount: summary.outturnCost });
+    } else {
+      const groups = [...groupByElementCode(await works.list(modelId)).entries()].sort(([a], [b]) =>
+        a.localeCompare(b, undefined, { numeric: true })
+      );
+      for (const [elementCode, group] of groups) {
+        amounts.push({ key: elementCode, label: `${elementCode} ${group[0].elementName}`, amount: sumMeasuredWorks(group) });
+      }
+      for (const stage of summary.stages) {
+        amounts.push({ key: stage.category, label: stage.label, amount: stage.amount });
+      }
+      if (summary.inflation?.amount) {
+        amounts.push({ key: 'inflation', label: 'Inflation', amount: summary.inflation.amount });
+      }
+    }
+
+    const rows = amounts.map((row) => ({ ...row, months: spreadAmount(row.amount, shares) }));
+    const gross = months.map((_, i) => sumMoney(rows.map((row) => row.months[i])));
+
+    return {
+      costModelId: modelId,
+      projectName: model.projectName,
+      projectRef: model.projectRef,
+      distribution,
+      weights: shares.map((share) => multiplyMoney(share, 100)),
+      by,
+      retention,
+      defectsPeriod,
+      constructionStart,
+      constructionCompletion,
+      total: summary.outturnCost,
+      months: paymentSchedule(months, gross, retention, defectsPeriod),
+      rows,
+    };
+  }
+
+  return { forecast };
+}
+
+export type CashflowService = ReturnType<typeof createCashflowService>;
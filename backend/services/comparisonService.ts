@@ -0,0 +1,134 @@
+/**
+ * Comparison service
+ *
+ * Lines two snapshots up element by element. Each side is either a model as
+ * it is now or one of its saved revisions. Element subtotals come from
+ * groupByElementCode, so they match the cost plan report, and the bridge
+ * walks from one works cost to the other through every element that
+ * changed, largest change first.
+ */
+
+import type {
+  BridgeStep,
+  Comparison,
+  ComparisonQuery,
+  ComparisonSide,
+  ElementComparison,
+  ElementSide,
+} from '../../shared/schemas/comparisons.js';
+import type { CostModel } from '../../shared/schemas/models.js';
+import type { MeasuredWork } from '../../shared/schemas/works.js';
+import { groupByElementCode, sumMeasuredWorks } from '../utils/calculations.js';
+import { divideMoney, percentOf, subtractMoney, sumMoney } from '../../shared/utils/money.js';
+import type { ModelService } from './modelService.js';
+import type { RevisionService } from './revisionService.js';
+import type { WorkService } from './workService.js';
+
+interface Snapshot {
+  side: Omit<ComparisonSide, 'worksCost'>;
+  works: MeasuredWork[];
+}
+
+function describe({ projectName, revision }: Snapshot['side']): string {
+  return revision === null ? projectName : `${projectName} rev ${revision}`;
+}
+
+function elementSide(works: MeasuredWork[]): ElementSide {
+  const total = sumMeasuredWorks(works);
+  const units = new Set(works.map((work) => work.unit));
+  if (units.size !== 1) {
+    return { works, unit: null, quantity: null, rate: null, total };
+  }
+  // Quantities are held to 2dp, so they add up exactly like money
+  const quantity = sumMoney(works.map((work) => work.quantity));
+  return { works, unit: works[0].unit, quantity, rate: divideMoney(total, quantity), total };
+}
+
+function variancePercent(variance: number, from: number): number | null {
+  return from === 0 ? null : percentOf(variance, from);
+}
+
+export function compareSnapshots(from: Snapshot, to: Snapshot): Comparison {
+  const fromGroups = groupByElementCode(from.works);
+  const toGroups = groupByElementCode(to.works);
+  const codes = [...new Set([...fromGroups.keys(), ...toGroups.keys()])].sort((a, b) =>
+    a.localeCompare(b, undefined, { numeric: true })
+  );
+
+  const elements = codes.map((elementCode): ElementComparison => {
+    const fromSide = elementSide(fromGroups.get(elementCode) ?? []);
+    const toSide = elementSide(toGroups.get(elementCode) ?? []);
+    const variance = subtractMoney(toSide.total, fromSide.total);
+    return {
+      elementCode,
+      // The newer name wins if the library renamed the element
+      elementName: (toSide.works[0] ?? fromSide.works[0]).elementName,
+      from: fromSide,
+      to: toSide,
+      variance,
+      variancePercent: variancePercent(variance, fromSide.total),
+    };
+  });
+
+  const fromTotal = sumMeasuredWorks(from.works);
+  const toTotal = sumMeasuredWorks(to.works);
+  const bridge: BridgeStep[] = [
+    { label: describe(from.side), kind: 'start', amount: fromTotal, runningTotal: fromTotal },
+  ];
+  const changes = elements
+    .filter((element) => element.variance !== 0)
+    .sort((a, b) => Math.abs(b.variance) - Math.abs(a.variance));
+  for (const element of changes) {
+    bridge.push({
+      label: `${element.elementCode} ${element.elementName}`,
+      elementCode: element.elementCode,
+      kind: 'change',
+      amount: element.variance,
+      runningTotal: sumMoney([bridge.at(-1)!.runningTotal, element.variance]),
+    });
+  }
+  bridge.push({ label: describe(to.side), kind: 'end', amount: toTotal, runningTotal: toTotal });
+
+  const variance = subtractMoney(toTotal, fromTotal);
+  return {
+    from: { ...from.side, worksCost: fromTotal },
+    to: { ...to.side, worksCost: toTotal },
+    variance,
+    variancePercent: variancePercent(variance, fromTotal),
+    elements,
+    bridge,
+  };
+}
+
+export function createComparisonService(models: ModelService, works: WorkService, revisions: RevisionService) {
+  async function snapshot(modelId: string, revisionNumber?: number): Promise<Snapshot> {
+    let model: CostModel;
+    let lines: MeasuredWork[];
+    let label: string | undefined;
+    if (revisionNumber === undefined) {
+      model = await models.get(modelId);
+      lines = await works.list(modelId);
+    } else {
+      const revision = await revisions.get(modelId, revisionNumber);
+      ({ model, works: lines, label } = revision);
+    }
+    return {
+      side: {
+        modelId,
+        projectName: model.projectName,
+        revision: revisionNumber ?? null,
+        ...(label && { revisionLabel: label }),
+        ...(model.gifa && { gifa: model.gifa }),
+      },
+      works: lines,
+    };
+  }
+
+  async function compare({ fromModel, fromRevision, toModel, toRevision }: ComparisonQuery): Promise<Comparison> {
+    return compareSnapshots(await snapshot(fromModel, fromRevision), await snapshot(toModel, toRevision));
+  }
+
+  return { compare };
+}
+
+export type ComparisonService = ReturnType<typeof createComparisonService>;
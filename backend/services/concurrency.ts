@@ -0,0 +1,17 @@
+/**
+ * Optimistic concurrency
+ *
+ * Writes to an existing cost model or measured work carry the updatedAt
+ * of the copy they were based on (see middleware/concurrency.ts). If the
+ * stored copy has been changed since - by another user, or by a change to
+ * the model's works rolling up its total - the write is refused and the
+ * current copy returned instead of silently overwriting it.
+ */
+
+import { StaleWriteError } from '../errors.js';
+
+export function assertVersion<T extends { updatedAt: string }>(current: T, version: string, label: string): void {
+  if (current.updatedAt !== version) {
+    throw new StaleWriteError(`${label} has been changed since you loaded it; check the current copy and try again`, current);
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * NRM element service
+ *
+ * Read-only access to the bundled element library, plus the lookup the
+ * measured work service uses to reject unknown element codes.
+ */
+
+import { nrmCatalogue, type CatalogueEntry } from '../data/nrmElements.js';
+import { NotFoundError, ValidationError } from '../errors.js';
+import type {
+  ElementLevel,
+  ElementQuery,
+  NRM2Element,
+  NRM2ElementDetail,
+  NRM2ElementNode,
+} from '../../shared/schemas/elements.js';
+
+const LEVELS: ElementLevel[] = ['group', 'element', 'subElement'];
+
+function toElement(entry: CatalogueEntry): NRM2Element {
+  const segments = entry.code.split('.');
+  return {
+    ...entry,
+    level: LEVELS[segments.length - 1],
+    ...(segments.length > 1 && { parentCode: segments.slice(0, -1).join('.') }),
+  };
+}
+
+export function createElementService(catalogue: CatalogueEntry[] = nrmCatalogue) {
+  const elements = catalogue.map(toElement);
+  const byCode = new Map(elements.map((element) => [element.code, element]));
+
+  function find(code: string): NRM2Element | undefined {
+    return byCode.get(code.trim());
+  }
+
+  function get(code: string): NRM2ElementDetail {
+    const element = find(code);
+    if (!element) {
+      throw new NotFoundError(`NRM element ${code} not found`);
+    }
+
+    const ancestors: NRM2Element[] = [];
+    for (let parent = element.parentCode; parent; parent = byCode.get(parent)?.parentCode) {
+      ancestors.unshift(byCode.get(parent)!);
+    }
+
+    return {
+      ...element,
+      ancestors,
+      children: elements.filter((e) => e.parentCode === element.code),
+    };
+  }
+
+  /**
+   * Look up an element code for a measured work, rejecting unknown codes
+   */
+  function resolveCode(code: string, path = 'elementCode'): NRM2Element {
+    const element = find(code);
+    if (!element) {
+      throw new ValidationError('Unknown NRM element code', [
+        { path, message: `"${code}" is not in the NRM element library` },
+      ]);
+    }
+    return element;
+  }
+
+  /**
+   * Flat search: q matches a code prefix, or any part of the name or description
+   */
+  function search({ q, level, parentCode }: ElementQuery): NRM2Element[] {
+    const term = q?.toLowerCase();
+    return elements.filter((element) => {
+      if (level && element.level !== level) return false;
+      if (parentCode && element.parentCode !== parentCode) return false;
+      if (!term) return true;
+      return (
+        element.code.startsWith(term) ||
+        element.name.toLowerCase().includes(term) ||
+        (element.description?.toLowerCase().includes(term) ?? false)
+      );
+    });
+  }
+
+  function tree(): NRM2ElementNode[] {
+    const nodes = new Map<string, NRM2ElementNode>(
+      elements.map((element) => [element.code, { ...element, children: [] }])
+    );
+    const roots: NRM2ElementNode[] = [];
+    for (const node of nodes.values()) {
+      const parent = node.parentCode ? nodes.get(node.parentCode) : undefined;
+      (parent ? parent.children : roots).push(node);
+    }
+    return roots;
+  }
+
+  return { find, get, resolveCode, search, tree };
+}
+
+export type ElementService = ReturnType<typeof createElementService>;
@@ -0,0 +1,62 @@
+/**
+ * Live update service
+ *
+ * Keeps track of who is viewing each cost model and passes model events to
+ * them. Changes are published by the audit service once the transaction
+ * that made them has committed, so viewers are never told about a change
+ * that was rolled back. Subscriptions live in this process only.
+ */
+
+import { randomUUID } from 'node:crypto';
+import type { ModelEvent, Viewer } from '../../shared/schemas/events.js';
+import type { PublicUser } from '../../shared/schemas/users.js';
+
+type Listener = (event: ModelEvent) => void;
+
+interface Subscription {
+  viewer: Viewer;
+  listener: Listener;
+}
+
+export function createEventService() {
+  // Subscriptions by model id, then by connection id
+  const subscriptions = new Map<string, Map<string, Subscription>>();
+
+  function publish(modelId: string, event: ModelEvent): void {
+    for (const { listener } of subscriptions.get(modelId)?.values() ?? []) {
+      listener(event);
+    }
+  }
+
+  function viewers(modelId: string): Viewer[] {
+    const unique = new Map<string, Viewer>();
+    for (const { viewer } of subscriptions.get(modelId)?.values() ?? []) {
+      unique.set(viewer.id, viewer);
+    }
+    return [...unique.values()].sort((a, b) => a.displayName.localeCompare(b.displayName));
+  }
+
+  /**
+   * Start passing a model's events to a viewer; everyone viewing it is told
+   * who is there now. Returns the function that ends the subscription.
+   */
+  function subscribe(modelId: string, user: PublicUser, listener: Listener): () => void {
+    const id = randomUUID();
+    const forModel = subscriptions.get(modelId) ?? new Map<string, Subscription>();
+    subscriptions.set(modelId, forModel);
+    forModel.set(id, { viewer: { id: user.id, username: user.username, displayName: user.displayName }, listener });
+    publish(modelId, { type: 'presence', viewers: viewers(modelId) });
+
+    return () => {
+      forModel.delete(id);
+      if (forModel.size === 0) {
+        subscriptions.delete(modelId);
+      }
+      publish(modelId, { type: 'presence', viewers: viewers(modelId) });
+    };
+  }
+
+  return { publish, subscribe, viewers };
+}
+
+export type EventService = ReturnType<typeof createEventService>;
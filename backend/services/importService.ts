@@ -0,0 +1,209 @@
+/**
+ * CSV bill of quantities import
+ *
+ * preview() parses and validates every row without saving anything, so the
+ * estimator can fix the file first. commit() runs the same checks and only
+ * imports when every row is valid - all rows are created in one
+ * transaction, so a failure part-way leaves the model untouched.
+ */
+
+import { ValidationError } from '../errors.js';
+import type {
+  ColumnMapping,
+  ImportPreview,
+  ImportRow,
+  ImportRowError,
+  WorksImportInput,
+} from '../../shared/schemas/imports.js';
+import type { PublicUser } from '../../shared/schemas/users.js';
+import { unitSchema, type MeasuredWork, type MeasuredWorkInput, type Unit } from '../../shared/schemas/works.js';
+import { calculateCost } from '../utils/calculations.js';
+import { parseCsv } from '../utils/csv.js';
+import { sumMoney } from '../../shared/utils/money.js';
+import type { ElementService } from './elementService.js';
+import type { ModelService } from './modelService.js';
+import type { WorkService } from './workService.js';
+
+// Header names recognised when no mapping is given (compared lower-case)
+const HEADER_ALIASES: Record<keyof ColumnMapping, string[]> = {
+  elementCode: ['element code', 'code', 'nrm code', 'element'],
+  description: ['description', 'item description', 'desc', 'item'],
+  quantity: ['quantity', 'qty', 'quant'],
+  unit: ['unit', 'units', 'uom'],
+  unitRate: ['unit rate', 'rate', 'unit price', 'price'],
+  notes: ['notes', 'note', 'comments', 'remarks'],
+};
+
+// Common spreadsheet spellings of the supported units
+const UNIT_ALIASES: Record<string, Unit> = {
+  'm²': 'm2', sqm: 'm2',
+  'm³': 'm3', cum: 'm3',
+  lm: 'm',
+  no: 'nr', each: 'nr', ea: 'nr', item: 'nr',
+  tonne: 't', tonnes: 't',
+  sum: 'ls', lump: 'ls', 'lump sum': 'ls',
+};
+
+// Same precision as DecimalInput (step 0.01): digits with up to 2 decimal places
+const DECIMAL_PATTERN = /^(\d+(\.\d{0,2})?|\.\d{1,2})$/;
+
+function parseDecimal(raw: string, field: string, errors: ImportRowError[]): number {
+  const cleaned = raw.replace(/[£,\s]/g, '');
+  if (cleaned === '') {
+    errors.push({ field, message: 'is required' });
+  } else if (cleaned.startsWith('-')) {
+    errors.push({ field, message: `"${raw}" cannot be negative` });
+  } else if (!/^[\d.]+$/.test(cleaned) || Number.isNaN(Number(cleaned))) {
+    errors.push({ field, message: `"${raw}" is not a number` });
+  } else if (!DECIMAL_PATTERN.test(cleaned)) {
+    errors.push({ field, message: `"${raw}" has more than 2 decimal places` });
+  } else {
+    return Number(cleaned);
+  }
+  return 0;
+}
+
+function parseUnit(raw: string, errors: ImportRowError[]): Unit {
+  const normalised = raw.trim().toLowerCase().replace(/\.$/, '');
+  const unit = UNIT_ALIASES[normalised] ?? normalised;
+  const result = unitSchema.safeParse(unit);
+  if (!result.success) {
+    errors.push({ field: 'unit', message: `"${raw}" is not one of ${unitSchema.options.join(', ')}` });
+    return 'nr';
+  }
+  return result.data;
+}
+
+function detectMapping(headers: string[]): ColumnMapping {
+  const lower = headers.map((header) => header.trim().toLowerCase());
+  const found: Partial<ColumnMapping> = {};
+  const missing: string[] = [];
+
+  for (const [field, aliases] of Object.entries(HEADER_ALIASES) as [keyof ColumnMapping, string[]][]) {
+    const index = lower.findIndex((header) => aliases.includes(header));
+    if (index !== -1) {
+      found[field] = headers[index];
+    } else if (field !== 'notes') {
+      missing.push(field);
+    }
+  }
+
+  if (missing.length > 0) {
+    throw new ValidationError('Could not match CSV columns; send a column mapping', missing.map((field) => ({
+      path: `mapping.${field}`,
+      message: `No column header looks like ${field}`,
+    })));
+  }
+  return found as ColumnMapping;
+}
+
+function resolveColumns(mapping: ColumnMapping, headers: string[], width: number): Record<string, number> {
+  const lower = headers.map((header) => header.trim().toLowerCase());
+  const columns: Record<string, number> = {};
+  const problems: { path: string; message: string }[] = [];
+
+  for (const [field, ref] of Object.entries(mapping)) {
+    if (ref === undefined) continue;
+    const index = typeof ref === 'number' ? ref : lower.indexOf(ref.toLowerCase());
+    if (index < 0 || index >= width) {
+      problems.push({ path: `mapping.${field}`, message: `Column ${JSON.stringify(ref)} is not in the CSV` });
+    }
+    columns[field] = index;
+  }
+
+  if (problems.length > 0) {
+    throw new ValidationError('Column mapping does not match the CSV', problems);
+  }
+  return columns;
+}
+
+export function createImportService(models: ModelService, works: WorkService, elements: ElementService) {
+  function parseRows({ csv, delimiter, hasHeader, mapping }: WorksImportInput): ImportPreview {
+    const table = parseCsv(csv, delimiter);
+    if (table.length === 0) {
+      throw new ValidationError('CSV contains no rows');
+    }
+
+    // A loop rather than Math.max(...), which overflows the stack on large files
+    const width = table.reduce((widest, { cells }) => Math.max(widest, cells.length), 0);
+    const headers = hasHeader ? table[0].cells.map((cell) => cell.trim()) : [];
+    if (!mapping && !hasHeader) {
+      throw new ValidationError('A column mapping is required when the CSV has no header row');
+    }
+    const resolvedMapping = mapping ?? detectMapping(headers);
+    const columns = resolveColumns(resolvedMapping, headers, width);
+    const dataRows = hasHeader ? table.slice(1) : table;
+
+    const rows: ImportRow[] = dataRows.map(({ line, cells }) => {
+      const cell = (field: string) => (columns[field] === undefined ? '' : (cells[columns[field]] ?? '').trim());
+      const errors: ImportRowError[] = [];
+
+      const elementCode = cell('elementCode');
+      const element = elementCode ? elements.find(elementCode) : undefined;
+      if (!elementCode) {
+        errors.push({ field: 'elementCode', message: 'is required' });
+      } else if (!element) {
+        errors.push({ field: 'elementCode', message: `"${elementCode}" is not in the NRM element library` });
+      }
+
+      const description = cell('description');
+      const quantity = parseDecimal(cell('quantity'), 'quantity', errors);
+      const unit = parseUnit(cell('unit'), errors);
+      const unitRate = parseDecimal(cell('unitRate'), 'unitRate', errors);
+      const notes = cell('notes');
+
+      const work: MeasuredWorkInput = {
+        elementCode,
+        elementName: element?.name,
+        description,
+        quantity,
+        unit,
+        unitRate,
+        ...(notes && { notes }),
+      };
+
+      return {
+        line,
+        cells,
+        work: errors.length === 0 ? work : null,
+        totalCost: errors.length === 0 ? calculateCost(quantity, unitRate) : 0,
+        errors,
+      };
+    });
+
+    const valid = rows.filter((row) => row.errors.length === 0);
+    return {
+      headers,
+      mapping: resolvedMapping,
+      rows,
+      validCount: valid.length,
+      errorCount: rows.length - valid.length,
+      totalCost: sumMoney(valid.map((row) => row.totalCost)),
+    };
+  }
+
+  async function preview(modelId: string, input: WorksImportInput): Promise<ImportPreview> {
+    await models.get(modelId);
+    return parseRows(input);
+  }
+
+  async function commit(modelId: string, input: WorksImportInput, user: PublicUser): Promise<MeasuredWork[]> {
+    await models.getEditable(modelId);
+    const result = parseRows(input);
+
+    if (result.errorCount > 0) {
+      throw new ValidationError(
+        `${result.errorCount} of ${result.rows.length} rows are invalid; nothing was imported`,
+        result.rows.flatMap((row) =>
+          row.errors.map((error) => ({ path: `line ${row.line}.${error.field}`, message: error.message }))
+        )
+      );
+    }
+
+    return works.createMany(modelId, result.rows.map((row) => row.work!), user);
+  }
+
+  return { preview, commit };
+}
+
+export type ImportService = ReturnType<typeof createImportService>;
@@ -0,0 +1,231 @@
+/**
+ * Cost model service
+ *
+ * Business rules for cost models live here rather than in the route
+ * handlers, so every entry point applies them the same way. Changes to an
+ * existing model take the version (updatedAt) they were based on and are
+ * refused if the model has changed since. totalCost is kept up to date with
+ * the model's add-ons here and with its works in workService.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { ConflictError, NotFoundError, ValidationError } from '../errors.js';
+import type { DataStore } from '../repositories/index.js';
+import type { CostPlanSummary } from '../../shared/schemas/addOns.js';
+import type {
+  CostModel,
+  CostModelInput,
+  CostModelPage,
+  CostModelPatch,
+  CostModelQuery,
+  TransitionAction,
+} from '../../shared/schemas/models.js';
+import type { PublicUser } from '../../shared/schemas/users.js';
+import { divideMoney, sumMoney } from '../../shared/utils/money.js';
+import { buildUpCostPlan, projectTotal } from '../utils/addOns.js';
+import { inflationAllowance } from '../utils/inflation.js';
+import { sumMeasuredWorks } from '../utils/calculations.js';
+import type { AuditService } from './auditService.js';
+import { assertVersion } from './concurrency.js';
+import type { RevisionService } from './revisionService.js';
+import { applyTransition, assertEditable } from './workflow.js';
+
+function compareField(a: CostModel, b: CostModel, field: CostModelQuery['sort']): number {
+  const x = a[field];
+  const y = b[field];
+  if (typeof x === 'number' && typeof y === 'number') {
+    return x - y;
+  }
+  return String(x ?? '').localeCompare(String(y ?? ''), undefined, { numeric: true, sensitivity: 'base' });
+}
+
+export function createModelService(store: DataStore, revisions: RevisionService, audit: AuditService) {
+  async function get(id: string): Promise<CostModel> {
+    const model = await store.models.findById(id);
+    if (!model) {
+      throw new NotFoundError(`Cost model ${id} not found`);
+    }
+    return model;
+  }
+
+  // Fetch a model that is about to be changed; only drafts are editable
+  async function getEditable(id: string): Promise<CostModel> {
+    const model = await get(id);
+    assertEditable(model);
+    return model;
+  }
+
+  async function worksCost(id: string): Promise<number> {
+    const works = await store.works.findAll();
+    return sumMeasuredWorks(works.filter((work) => work.costModelId === id));
+  }
+
+  /**
+   * How the model's total builds up from its works cost through its
+   * add-ons, and inflation to the construction mid-point when the model has
+   * a base date and programme
+   */
+  async function summary(id: string): Promise<CostPlanSummary> {
+    const model = await get(id);
+    const works = await worksCost(id);
+    const { stages, totalCost } = buildUpCostPlan(works, model.addOns);
+    const { baseDate, constructionStart, constructionCompletion } = model;
+    const inflation =
+      baseDate && constructionStart && constructionCompletion
+        ? inflationAllowance(
+            totalCost,
+            baseDate,
+            constructionStart,
+            constructionCompletion,
+            await store.tenderPriceIndex.findAll()
+          )
+        : null;
+    return {
+      costModelId: id,
+      worksCost: works,
+      stages,
+      totalCost,
+      costPerM2: model.gifa ? divideMoney(totalCost, model.gifa) : null,
+      inflation,
+      outturnCost: sumMoney([totalCost, inflation?.amount ?? 0]),
+    };
+  }
+
+  // Construction can't finish before it starts
+  function assertProgramme({ constructionStart, constructionCompletion }: CostModel | CostModelInput): void {
+    if (constructionStart && constructionCompletion && constructionCompletion < constructionStart) {
+      throw new ValidationError('Construction programme is invalid', [
+        { path: 'constructionCompletion', message: 'Must not be before constructionStart' },
+      ]);
+    }
+  }
+
+  async function list(): Promise<CostModel[]> {
+    return store.models.findAll();
+  }
+
+  /**
+   * One page of models matching a text search and filters, in the requested order
+   */
+  async function search({ q, status, preparedBy, sort, order, limit, offset }: CostModelQuery): Promise<CostModelPage> {
+    const term = q?.toLowerCase();
+    const matches = (await store.models.findAll()).filter((model) => {
+      if (status && status.length > 0 && !status.includes(model.status)) return false;
+      if (preparedBy && !model.preparedBy?.toLowerCase().includes(preparedBy.toLowerCase())) return false;
+      if (!term) return true;
+      return [model.projectName, model.projectRef, model.client].some((value) => value?.toLowerCase().includes(term));
+    });
+
+    const direction = order === 'desc' ? -1 : 1;
+    matches.sort((a, b) => {
+      // Missing values sort last whichever the direction; ties break on id
+      // so pages are stable between requests
+      const missing = Number(a[sort] === undefined) - Number(b[sort] === undefined);
+      return missing || direction * compareField(a, b, sort) || a.id.localeCompare(b.id);
+    });
+
+    return {
+      items: matches.slice(offset, offset + limit),
+      total: matches.length,
+      limit,
+      offset,
+    };
+  }
+
+  async function create(input: CostModelInput, user: PublicUser): Promise<CostModel> {
+    assertProgramme(input);
+    return store.transaction(async () => {
+      const now = new Date().toISOString();
+      const model = await store.models.create({
+        ...input,
+        id: randomUUID(),
+        // A new model has no works, so only fixed sums count
+        totalCost: projectTotal(0, input.addOns),
+        status: 'draft',
+        preparedBy: user.displayName,
+        createdAt: now,
+        updatedAt: now,
+      });
+      await audit.record('model', 'create', user, undefined, model);
+      await revisions.record(model.id);
+      return model;
+    });
+  }
+
+  async function replace(id: string, input: CostModelInput, user: PublicUser, version: string): Promise<CostModel> {
+    assertProgramme(input);
+    return store.transaction(async () => {
+      const existing = await getEditable(id);
+      assertVersion(existing, version, `Cost model ${existing.projectName}`);
+      const model = await store.models.update({
+        ...input,
+        id,
+        totalCost: projectTotal(await worksCost(id), input.addOns),
+        status: existing.status,
+        ...(existing.preparedBy && { preparedBy: existing.preparedBy }),
+        createdAt: existing.createdAt,
+        updatedAt: new Date().toISOString(),
+      });
+      await audit.record('model', 'update', user, existing, model);
+      await revisions.record(id);
+      return model;
+    });
+  }
+
+  async function patch(id: string, changes: CostModelPatch, user: PublicUser, version: string): Promise<CostModel> {
+    return store.transaction(async () => {
+      const existing = await getEditable(id);
+      assertVersion(existing, version, `Cost model ${existing.projectName}`);
+      const merged = { ...existing, ...changes };
+      assertProgramme(merged);
+      const model = await store.models.update({
+        ...merged,
+        totalCost: projectTotal(await worksCost(id), merged.addOns),
+        updatedAt: new Date().toISOString(),
+      });
+      await audit.record('model', 'update', user, existing, model);
+      await revisions.record(id);
+      return model;
+    });
+  }
+
+  async function transition(
+    id: string,
+    action: TransitionAction,
+    user: PublicUser,
+    version: string
+  ): Promise<CostModel> {
+    return store.transaction(async () => {
+      const existing = await get(id);
+      assertVersion(existing, version, `Cost model ${existing.projectName}`);
+      const model = await store.models.update(applyTransition(existing, action, user.displayName));
+      await audit.record('model', 'status', user, existing, model);
+      await revisions.record(id);
+      return model;
+    });
+  }
+
+  // Deleting a model also deletes its measured works and revisions, but not
+  // its audit trail. Approved models must be reopened or archived first.
+  async function remove(id: string, user: PublicUser, version: string): Promise<void> {
+    await store.transaction(async () => {
+      const existing = await get(id);
+      assertVersion(existing, version, `Cost model ${existing.projectName}`);
+      if (existing.status === 'approved') {
+        throw new ConflictError(`Cost model ${id} is approved; reopen or archive it before deleting`);
+      }
+      const works = await store.works.findAll();
+      for (const work of works.filter((w) => w.costModelId === id)) {
+        await store.works.delete(work.id);
+        await audit.record('work', 'delete', user, work, undefined);
+      }
+      await revisions.removeAll(id);
+      await store.models.delete(id);
+      await audit.record('model', 'delete', user, existing, undefined);
+    });
+  }
+
+  return { list, search, get, getEditable, summary, create, replace, patch, transition, remove };
+}
+
+export type ModelService = ReturnType<typeof createModelService>;
@@ -0,0 +1,44 @@
+/**
+ * Role permissions
+ *
+ *   estimator  edits draft models and their works; maintains the rate library
+ *   reviewer   approves drafts, reopens approved models
+ *   admin      edits, archives, reopens and deletes models; maintains the
+ *              rate library and the tender price index; manages users
+ *
+ * Anyone signed in can read everything.
+ */
+
+import { ForbiddenError } from '../errors.js';
+import type { TransitionAction } from '../../shared/schemas/models.js';
+import type { PublicUser, Role } from '../../shared/schemas/users.js';
+
+export const permissions = {
+  editModels: ['estimator', 'admin'],
+  approveModels: ['reviewer'],
+  reopenModels: ['reviewer', 'admin'],
+  archiveModels: ['admin'],
+  deleteModels: ['admin'],
+  manageRates: ['estimator', 'admin'],
+  manageIndices: ['admin'],
+  manageUsers: ['admin'],
+} as const satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof permissions;
+
+export const transitionPermissions: Record<TransitionAction, Permission> = {
+  approve: 'approveModels',
+  archive: 'archiveModels',
+  reopen: 'reopenModels',
+};
+
+export function can(user: Pick<PublicUser, 'role'>, permission: Permission): boolean {
+  return (permissions[permission] as readonly Role[]).includes(user.role);
+}
+
+export function assertCan(user: PublicUser, permission: Permission): void {
+  if (!can(user, permission)) {
+    const roles = permissions[permission].join(' or ');
+    throw new ForbiddenError(`This needs the ${roles} role; you are signed in as ${user.role}`);
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * Tender price index service
+ *
+ * The locally maintained index table, one value per quarter. Values are
+ * read when a model's summary is worked out, so a change shows in every
+ * model's inflation allowance straight away; stored model totals are at
+ * base date prices and never change with the index.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { NotFoundError } from '../errors.js';
+import type { DataStore } from '../repositories/index.js';
+import type { TenderPriceIndexEntry, TenderPriceIndexInput } from '../../shared/schemas/priceIndex.js';
+
+export function createPriceIndexService(store: DataStore) {
+  async function find(quarter: string): Promise<TenderPriceIndexEntry | undefined> {
+    return (await store.tenderPriceIndex.findAll()).find((entry) => entry.quarter === quarter);
+  }
+
+  // Oldest quarter first; quarters sort as text
+  async function list(): Promise<TenderPriceIndexEntry[]> {
+    const entries = await store.tenderPriceIndex.findAll();
+    return [...entries].sort((a, b) => a.quarter.localeCompare(b.quarter));
+  }
+
+  /**
+   * Set a quarter's value, adding the quarter if the table doesn't have it
+   */
+  async function put(quarter: string, input: TenderPriceIndexInput): Promise<TenderPriceIndexEntry> {
+    return store.transaction(async () => {
+      const existing = await find(quarter);
+      const now = new Date().toISOString();
+      if (existing) {
+        return store.tenderPriceIndex.update({ ...existing, ...input, updatedAt: now });
+      }
+      return store.tenderPriceIndex.create({ ...input, id: randomUUID(), quarter, createdAt: now, updatedAt: now });
+    });
+  }
+
+  async function remove(quarter: string): Promise<void> {
+    await store.transaction(async () => {
+      const existing = await find(quarter);
+      if (!existing) {
+        throw new NotFoundError(`No tender price index for ${quarter}`);
+      }
+      await store.tenderPriceIndex.delete(existing.id);
+    });
+  }
+
+  return { list, put, remove };
+}
+
+export type PriceIndexService = ReturnType<typeof createPriceIndexService>;
@@ -0,0 +1,307 @@
+/**
+ * Rate library service
+ *
+ * Resources and the composite rates built from them. Each composite rate
+ * is priced here from its resources (utils/rates.ts), and measured works
+ * can link to one instead of carrying a typed-in unit rate.
+ *
+ * Changing a resource price or a composite rate reprices every rate that
+ * depends on it and every linked work in a draft model, and rolls up each
+ * of those models, all in one transaction; the works are audited as
+ * changed by the user who made the library change. Approved and archived
+ * models keep the rates they were approved at. resourceImpact() and
+ * rateImpact() work out the same change without making it, so the effect
+ * can be checked first.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { ConflictError, NotFoundError, ValidationError } from '../errors.js';
+import type { DataStore } from '../repositories/index.js';
+import type {
+  CompositeRate,
+  CompositeRateInput,
+  RateImpact,
+  Resource,
+  ResourceInput,
+  ResourcePatch,
+} from '../../shared/schemas/rates.js';
+import type { PublicUser } from '../../shared/schemas/users.js';
+import { projectTotal } from '../utils/addOns.js';
+import { calculateCost, sumMeasuredWorks } from '../utils/calculations.js';
+import { sumMoney, subtractMoney } from '../../shared/utils/money.js';
+import { priceComponents } from '../utils/rates.js';
+import type { ModelService } from './modelService.js';
+import type { WorkService } from './workService.js';
+
+// A library change: a resource with its new fields, or an existing
+// composite rate with its new input
+type LibraryChange = { resource: Resource } | { rate: CompositeRate; input: CompositeRateInput };
+
+interface Plan {
+  rates: CompositeRate[];
+  impact: RateImpact;
+}
+
+function byCode<T extends { code: string }>(a: T, b: T): number {
+  return a.code.localeCompare(b.code, undefined, { numeric: true });
+}
+
+export function createRateService(store: DataStore, models: ModelService, works: WorkService) {
+  async function getResource(id: string): Promise<Resource> {
+    const resource = await store.resources.findById(id);
+    if (!resource) {
+      throw new NotFoundError(`Resource ${id} not found`);
+    }
+    return resource;
+  }
+
+  async function getRate(id: string): Promise<CompositeRate> {
+    const rate = await store.rates.findById(id);
+    if (!rate) {
+      throw new NotFoundError(`Rate ${id} not found`);
+    }
+    return rate;
+  }
+
+  async function listResources(): Promise<Resource[]> {
+    return (await store.resources.findAll()).sort(byCode);
+  }
+
+  async function listRates(): Promise<CompositeRate[]> {
+    return (await store.rates.findAll()).sort(byCode);
+  }
+
+  function assertCodeFree(items: { id: string; code: string }[], code: string, id?: string): void {
+    if (items.some((item) => item.code.toLowerCase() === code.toLowerCase() && item.id !== id)) {
+      throw new ConflictError(`Code ${code} is already in use`, [{ path: 'code', message: 'Already in use' }]);
+    }
+  }
+
+  async function resourcePrices(): Promise<Map<string, number>> {
+    return new Map((await store.resources.findAll()).map((resource) => [resource.id, resource.price]));
+  }
+
+  // Price a composite rate's components, rejecting unknown resources
+  function price(input: CompositeRateInput, prices: Map<string, number>) {
+    const missing = input.components.flatMap((component, index) =>
+      prices.has(component.resourceId)
+        ? []
+        : [{ path: `components.${index}.resourceId`, message: `No resource ${component.resourceId}` }]
+    );
+    if (missing.length > 0) {
+      throw new ValidationError('Rate uses resources that are not in the library', missing);
+    }
+    return priceComponents(input.components, prices);
+  }
+
+  /**
+   * Work out a library change: the composite rates it reprices, then the
+   * linked works and model totals that follow
+   */
+  async function plan(change: LibraryChange): Promise<Plan> {
+    const prices = await resourcePrices();
+    const existingRates = await store.rates.findAll();
+    const now = new Date().toISOString();
+
+    const rates: CompositeRate[] = [];
+    if ('resource' in change) {
+      prices.set(change.resource.id, change.resource.price);
+      for (const rate of existingRates) {
+        if (rate.components.some((component) => component.resourceId === change.resource.id)) {
+          rates.push({ ...rate, ...priceComponents(rate.components, prices), updatedAt: now });
+        }
+      }
+    } else {
+      rates.push({ ...change.rate, ...change.input, ...price(change.input, prices), updatedAt: now });
+    }
+
+    const before = new Map(existingRates.map((rate) => [rate.id, rate.rate]));
+    const repriced = new Map(
+      rates.filter((rate) => rate.rate !== before.get(rate.id)).map((rate) => [rate.id, rate.rate])
+    );
+    const works = await store.works.findAll();
+    const linked = works.filter(
+      (work) => work.rateId !== undefined && repriced.has(work.rateId) && repriced.get(work.rateId) !== work.unitRate
+    );
+
+    const impactModels: RateImpact['models'] = [];
+    for (const modelId of new Set(linked.map((work) => work.costModelId))) {
+      const model = await models.get(modelId);
+      const modelWorks = linked.filter((work) => work.costModelId === modelId);
+      const worksVariance = sumMoney(
+        modelWorks.map((work) =>
+          subtractMoney(calculateCost(work.quantity, repriced.get(work.rateId!)!), work.totalCost)
+        )
+      );
+      // Percentage add-ons move with the works cost
+      const worksCost = sumMeasuredWorks(works.filter((work) => work.costModelId === modelId));
+      const to = projectTotal(sumMoney([worksCost, worksVariance]), model.addOns);
+      impactModels.push({
+        modelId,
+        projectName: model.projectName,
+        status: model.status,
+        works: modelWorks.length,
+        from: model.totalCost,
+        to,
+        variance: subtractMoney(to, model.totalCost),
+        updated: model.status === 'draft',
+      });
+    }
+    impactModels.sort((a, b) => a.projectName.localeCompare(b.projectName));
+
+    return {
+      rates,
+      impact: {
+        rates: rates
+          .filter((rate) => repriced.has(rate.id))
+          .sort(byCode)
+          .map(({ id, code, description, unit, rate }) => ({
+            id,
+            code,
+            description,
+            unit,
+            from: before.get(id) ?? rate,
+            to: rate,
+          })),
+        models: impactModels,
+        variance: sumMoney(impactModels.filter((model) => model.updated).map((model) => model.variance)),
+      },
+    };
+  }
+
+  // Save the repriced rates, then bring each affected draft model up to date
+  async function apply({ rates, impact }: Plan, user: PublicUser): Promise<void> {
+    for (const rate of rates) {
+      await store.rates.update(rate);
+    }
+    for (const model of impact.models.filter((model) => model.updated)) {
+      await works.reprice(model.modelId, user);
+    }
+  }
+
+  async function createResource(input: ResourceInput): Promise<Resource> {
+    return store.transaction(async () => {
+      assertCodeFree(await store.resources.findAll(), input.code);
+      const now = new Date().toISOString();
+      return store.resources.create({ ...input, id: randomUUID(), createdAt: now, updatedAt: now });
+    });
+  }
+
+  async function patchedResource(id: string, changes: ResourcePatch): Promise<Resource> {
+    const existing = await getResource(id);
+    if (changes.code !== undefined) {
+      assertCodeFree(await store.resources.findAll(), changes.code, id);
+    }
+    return { ...existing, ...changes, updatedAt: new Date().toISOString() };
+  }
+
+  /**
+   * What PATCH /api/resources/:id with these changes would do
+   */
+  async function resourceImpact(id: string, changes: ResourcePatch): Promise<RateImpact> {
+    return (await plan({ resource: await patchedResource(id, changes) })).impact;
+  }
+
+  async function patchResource(id: string, changes: ResourcePatch, user: PublicUser): Promise<Resource> {
+    return store.transaction(async () => {
+      const resource = await store.resources.update(await patchedResource(id, changes));
+      if (changes.price !== undefined) {
+        await apply(await plan({ resource }), user);
+      }
+      return resource;
+    });
+  }
+
+  async function removeResource(id: string): Promise<void> {
+    await store.transaction(async () => {
+      const resource = await getResource(id);
+      const users = (await store.rates.findAll()).filter((rate) =>
+        rate.components.some((component) => component.resourceId === id)
+      );
+      if (users.length > 0) {
+        throw new ConflictError(
+          `Resource ${resource.code} is used by ${users.map((rate) => rate.code).join(', ')}; remove it from those rates first`
+        );
+      }
+      await store.resources.delete(id);
+    });
+  }
+
+  async function createRate(input: CompositeRateInput): Promise<CompositeRate> {
+    return store.transaction(async () => {
+      assertCodeFree(await store.rates.findAll(), input.code);
+      const now = new Date().toISOString();
+      return store.rates.create({
+        ...input,
+        ...price(input, await resourcePrices()),
+        id: randomUUID(),
+        createdAt: now,
+        updatedAt: now,
+      });
+    });
+  }
+
+  // Checks before replacing a rate: the code is free, and linked works
+  // still match its unit
+  async function replacement(id: string, input: CompositeRateInput): Promise<LibraryChange> {
+    const existing = await getRate(id);
+    assertCodeFree(await store.rates.findAll(), input.code, id);
+    if (input.unit !== existing.unit) {
+      const linked = (await store.works.findAll()).filter((work) => work.rateId === id);
+      if (linked.length > 0) {
+        throw new ConflictError(`${linked.length} measured works use ${existing.code}, so its unit can't change`, [
+          { path: 'unit', message: `Linked works are measured in ${existing.unit}` },
+        ]);
+      }
+    }
+    return { rate: existing, input };
+  }
+
+  /**
+   * What PUT /api/rates/:id with this input would do
+   */
+  async function rateImpact(id: string, input: CompositeRateInput): Promise<RateImpact> {
+    return (await plan(await replacement(id, input))).impact;
+  }
+
+  async function replaceRate(id: string, input: CompositeRateInput, user: PublicUser): Promise<CompositeRate> {
+    return store.transaction(async () => {
+      const changes = await plan(await replacement(id, input));
+      await apply(changes, user);
+      return getRate(id);
+    });
+  }
+
+  async function removeRate(id: string): Promise<void> {
+    await store.transaction(async () => {
+      const rate = await getRate(id);
+      const linked = (await store.works.findAll()).filter((work) => work.rateId === id).length;
+      const templates = (await store.templates.findAll()).filter((template) =>
+        template.works.some((work) => work.rateId === id)
+      ).length;
+      if (linked + templates > 0) {
+        throw new ConflictError(
+          `Rate ${rate.code} is linked to ${linked} measured works and ${templates} templates; unlink them first`
+        );
+      }
+      await store.rates.delete(id);
+    });
+  }
+
+  return {
+    listResources,
+    getResource,
+    createResource,
+    resourceImpact,
+    patchResource,
+    removeResource,
+    listRates,
+    getRate,
+    createRate,
+    rateImpact,
+    replaceRate,
+    removeRate,
+  };
+}
+
+export type RateService = ReturnType<typeof createRateService>;
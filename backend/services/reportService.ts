@@ -0,0 +1,65 @@
+/**
+ * Cost plan report service
+ *
+ * Builds the elemental summary behind the CSV and HTML exports in
+ * reports/costPlan.ts. Element subtotals come from groupByElementCode, and
+ * the grand total is the sum of those subtotals, so the report always adds
+ * up on paper. The add-ons that follow come from modelService.summary().
+ */
+
+import type { CostPlanReport, ReportElement } from '../../shared/schemas/reports.js';
+import { groupByElementCode, sumMeasuredWorks } from '../utils/calculations.js';
+import { divideMoney, percentOf, sumMoney } from '../../shared/utils/money.js';
+import type { ModelService } from './modelService.js';
+import type { WorkService } from './workService.js';
+
+export function createReportService(models: ModelService, works: WorkService) {
+  async function costPlan(modelId: string): Promise<CostPlanReport> {
+    const model = await models.get(modelId);
+    const modelWorks = await works.list(modelId);
+    const gifa = model.gifa && model.gifa > 0 ? model.gifa : null;
+
+    const groups = [...groupByElementCode(modelWorks).entries()].sort(([a], [b]) =>
+      a.localeCompare(b, undefined, { numeric: true })
+    );
+    const grandTotal = sumMoney(groups.map(([, group]) => sumMeasuredWorks(group)));
+
+    const elements: ReportElement[] = groups.map(([elementCode, group]) => {
+      const subtotal = sumMeasuredWorks(group);
+      return {
+        elementCode,
+        elementName: group[0].elementName,
+        works: group,
+        subtotal,
+        costPerM2: gifa ? divideMoney(subtotal, gifa) : null,
+        percentOfTotal: percentOf(subtotal, grandTotal),
+      };
+    });
+
+    return {
+      model: {
+        id: model.id,
+        projectName: model.projectName,
+        projectRef: model.projectRef,
+        client: model.client,
+        gifa: model.gifa,
+        status: model.status,
+        preparedBy: model.preparedBy,
+        approvedBy: model.approvedBy,
+        approvedAt: model.approvedAt,
+        baseDate: model.baseDate,
+        constructionStart: model.constructionStart,
+        constructionCompletion: model.constructionCompletion,
+      },
+      generatedAt: new Date().toISOString(),
+      elements,
+      grandTotal,
+      costPerM2: gifa ? divideMoney(grandTotal, gifa) : null,
+      summary: await models.summary(modelId),
+    };
+  }
+
+  return { costPlan };
+}
+
+export type ReportService = ReturnType<typeof createReportService>;
@@ -0,0 +1,112 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import type { PublicUser } from '../../shared/schemas/users.js';
+import type { MeasuredWork, MeasuredWorkInput } from '../../shared/schemas/works.js';
+import { MemoryStore } from '../repositories/memoryStore.js';
+import { createAuditService } from './auditService.js';
+import { createElementService } from './elementService.js';
+import { createEventService } from './eventService.js';
+import { createModelService } from './modelService.js';
+import { createRevisionService } from './revisionService.js';
+import { createWorkService } from './workService.js';
+
+const SAVES = 45;
+
+const user: PublicUser = {
+  id: 'user-test',
+  username: 'tester',
+  displayName: 'Test Estimator',
+  role: 'estimator',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+const byId = (works: MeasuredWork[]) => [...works].sort((a, b) => a.id.localeCompare(b.id));
+
+describe('revisions over many saves', () => {
+  const store = new MemoryStore();
+  const elements = createElementService();
+  const audit = createAuditService(store, createEventService());
+  const revisions = createRevisionService(store);
+  const models = createModelService(store, revisions, audit);
+  const works = createWorkService(store, models, elements, revisions, audit);
+
+  let modelId = '';
+  // The works after each revision, by revision number
+  const expected = new Map<number, MeasuredWork[]>();
+
+  const saved = async () => {
+    const [latest] = (await revisions.list(modelId)).slice(-1);
+    expected.set(latest.number, byId(await works.list(modelId)));
+  };
+
+  before(async () => {
+    modelId = (await models.create({ projectName: 'Revisions', gifa: 1000 }, user)).id;
+    await saved();
+    await works.createMany(
+      modelId,
+      ['1.1.1', '2.1.1', '2.5.1'].map((elementCode, i) => ({
+        elementCode,
+        description: `Line ${i}`,
+        quantity: 10,
+        unit: 'm2',
+        unitRate: 100,
+      })),
+      user
+    );
+    await saved();
+
+    for (let i = 0; i < SAVES; i++) {
+      const current = await works.list(modelId);
+      const work = current[i % current.length];
+      if (i % 10 === 9) {
+        await works.remove(modelId, work.id, user, work.updatedAt);
+      } else if (i % 10 === 4) {
+        const added: MeasuredWorkInput = {
+          elementCode: '5.6',
+          description: `Added ${i}`,
+          quantity: 1,
+          unit: 'nr',
+          unitRate: i,
+        };
+        await works.create(modelId, added, user);
+      } else {
+        await works.patch(modelId, work.id, { quantity: work.quantity + 1 }, user, work.updatedAt);
+      }
+      await saved();
+    }
+  });
+
+  it('keeps only what changed between full snapshots', async () => {
+    const stored = (await store.revisions.findAll()).filter((revision) => revision.costModelId === modelId);
+    assert.equal(stored.length, expected.size);
+    const snapshots = stored.filter((revision) => revision.works).map((revision) => revision.number);
+    assert.deepEqual(snapshots, [1, 21, 41]);
+    for (const revision of stored.filter((r) => !r.works && r.number > 2)) {
+      assert.ok((revision.changedWorks?.length ?? 0) <= 1);
+    }
+  });
+
+  it('rebuilds every revision as it was saved', async () => {
+    for (const [number, works] of expected) {
+      const revision = await revisions.get(modelId, number);
+      assert.deepEqual(byId(revision.works), works, `revision ${number}`);
+    }
+  });
+
+  it('counts the works in each revision', async () => {
+    const summaries = await revisions.list(modelId);
+    assert.deepEqual(
+      summaries.map((summary) => summary.workCount),
+      [...expected.values()].map((works) => works.length)
+    );
+  });
+
+  it('relabels a revision without storing its works again', async () => {
+    await revisions.relabel(modelId, 30, 'Stage 2 issue');
+    const stored = (await store.revisions.findAll()).find((r) => r.costModelId === modelId && r.number === 30);
+    assert.equal(stored?.label, 'Stage 2 issue');
+    assert.equal(stored?.works, undefined);
+    assert.deepEqual(byId((await revisions.get(modelId, 30)).works), expected.get(30));
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * Revision service
+ *
+ * record() is called at the end of every write to a cost model or its
+ * works, inside the same transaction, so each save produces exactly one
+ * numbered snapshot. Revisions can be labelled (e.g. "Stage 2 issue") and
+ * any two can be diffed, with work changes grouped by element code.
+ *
+ * Saving one work shouldn't store a copy of every other, so most revisions
+ * keep only the works that changed since the one before; every
+ * SNAPSHOT_EVERY revisions keeps them all, which bounds how many revisions
+ * have to be replayed to rebuild any one of them.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { NotFoundError } from '../errors.js';
+import type { DataStore } from '../repositories/index.js';
+import type {
+  ElementDiff,
+  FieldChange,
+  Revision,
+  RevisionDiff,
+  RevisionSummary,
+  StoredRevision,
+  WorkChange,
+} from '../../shared/schemas/revisions.js';
+import type { MeasuredWork } from '../../shared/schemas/works.js';
+import { sumMeasuredWorks } from '../utils/calculations.js';
+import { subtractMoney } from '../../shared/utils/money.js';
+
+const SNAPSHOT_EVERY = 20;
+
+// Bookkeeping fields that change on every save and would drown out real changes
+const IGNORED_FIELDS = new Set(['updatedAt', 'createdAt']);
+
+export function fieldChanges<T extends object>(from: T, to: T): FieldChange[] {
+  const fields = new Set([...Object.keys(from), ...Object.keys(to)]);
+  const changes: FieldChange[] = [];
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) continue;
+    const before = (from as Record<string, unknown>)[field];
+    const after = (to as Record<string, unknown>)[field];
+    if (JSON.stringify(before) !== JSON.stringify(after)) {
+      changes.push({ field, from: before, to: after });
+    }
+  }
+  return changes;
+}
+
+function summarise(
+  { model, works: _works, changedWorks: _changed, removedWorkIds: _removed, ...revision }: StoredRevision,
+  workCount: number
+): RevisionSummary {
+  return { ...revision, totalCost: model.totalCost, workCount };
+}
+
+/**
+ * Replay stored revisions oldest first, calling visit with each and the
+ * model's works as it left them. The map is reused, so copy what you keep.
+ */
+function replay(stored: StoredRevision[], visit: (revision: StoredRevision, works: Map<string, MeasuredWork>) => void) {
+  const works = new Map<string, MeasuredWork>();
+  for (const revision of stored) {
+    if (revision.works) {
+      works.clear();
+      revision.works.forEach((work) => works.set(work.id, work));
+    } else {
+      revision.removedWorkIds?.forEach((id) => works.delete(id));
+      revision.changedWorks?.forEach((work) => works.set(work.id, work));
+    }
+    visit(revision, works);
+  }
+}
+
+// Index of the last full snapshot at or before index
+function lastSnapshot(stored: StoredRevision[], index: number): number {
+  let at = index;
+  while (at > 0 && !stored[at].works) at--;
+  return at;
+}
+
+// The works as they were at stored[index]
+function worksAt(stored: StoredRevision[], index: number): MeasuredWork[] {
+  let works: MeasuredWork[] = [];
+  replay(stored.slice(lastSnapshot(stored, index), index + 1), (_revision, current) => {
+    works = [...current.values()];
+  });
+  return works;
+}
+
+function toRevision(
+  { works: _works, changedWorks: _changed, removedWorkIds: _removed, ...revision }: StoredRevision,
+  works: MeasuredWork[]
+): Revision {
+  return { ...revision, works };
+}
+
+export function diffRevisions(from: Revision, to: Revision): RevisionDiff {
+  const fromWorks = new Map(from.works.map((work) => [work.id, work]));
+  const toWorks = new Map(to.works.map((work) => [work.id, work]));
+  const elements = new Map<string, ElementDiff>();
+
+  const element = (work: MeasuredWork): ElementDiff => {
+    let diff = elements.get(work.elementCode);
+    if (!diff) {
+      const inCode = (works: MeasuredWork[]) => works.filter((w) => w.elementCode === work.elementCode);
+      const fromTotal = sumMeasuredWorks(inCode(from.works));
+      const toTotal = sumMeasuredWorks(inCode(to.works));
+      diff = {
+        elementCode: work.elementCode,
+        elementName: work.elementName,
+        added: [],
+        removed: [],
+        changed: [],
+        fromTotal,
+        toTotal,
+        totalCostDelta: subtractMoney(toTotal, fromTotal),
+      };
+      elements.set(work.elementCode, diff);
+    }
+    return diff;
+  };
+
+  for (const work of to.works) {
+    const previous = fromWorks.get(work.id);
+    if (!previous) {
+      element(work).added.push(work);
+      continue;
+    }
+    const changes = fieldChanges(previous, work);
+    if (changes.length > 0) {
+      const change: WorkChange = {
+        workId: work.id,
+        description: work.description,
+        changes,
+        // Quantities are held to 2dp, like money, so this is exact
+        quantityDelta: subtractMoney(work.quantity, previous.quantity),
+        unitRateDelta: subtractMoney(work.unitRate, previous.unitRate),
+        totalCostDelta: subtractMoney(work.totalCost, previous.totalCost),
+      };
+      element(work).changed.push(change);
+      // A work moved to another element also changes the old element's subtotal
+      if (previous.elementCode !== work.elementCode) {
+        element(previous);
+      }
+    }
+  }
+
+  for (const work of from.works) {
+    if (!toWorks.has(work.id)) {
+      element(work).removed.push(work);
+    }
+  }
+
+  return {
+    costModelId: to.costModelId,
+    from: summarise(from, from.works.length),
+    to: summarise(to, to.works.length),
+    modelChanges: fieldChanges(from.model, to.model).filter((change) => change.field !== 'totalCost'),
+    worksCostDelta: subtractMoney(sumMeasuredWorks(to.works), sumMeasuredWorks(from.works)),
+    elements: [...elements.values()].sort((a, b) =>
+      a.elementCode.localeCompare(b.elementCode, undefined, { numeric: true })
+    ),
+  };
+}
+
+export function createRevisionService(store: DataStore) {
+  async function listStored(modelId: string): Promise<StoredRevision[]> {
+    const revisions = await store.revisions.findAll();
+    return revisions
+      .filter((revision) => revision.costModelId === modelId)
+      .sort((a, b) => a.number - b.number);
+  }
+
+  async function getStored(modelId: string, number: number): Promise<[StoredRevision[], number]> {
+    const stored = await listStored(modelId);
+    const index = stored.findIndex((revision) => revision.number === number);
+    if (index === -1) {
+      throw new NotFoundError(`Revision ${number} of cost model ${modelId} not found`);
+    }
+    return [stored, index];
+  }
+
+  /**
+   * Snapshot the model and its works as the next revision
+   */
+  async function record(modelId: string, label?: string): Promise<Revision> {
+    return store.transaction(async () => {
+      const model = await store.models.findById(modelId);
+      if (!model) {
+        throw new NotFoundError(`Cost model ${modelId} not found`);
+      }
+      const works = (await store.works.findAll()).filter((work) => work.costModelId === modelId);
+      const existing = await listStored(modelId);
+      const last = existing.length - 1;
+
+      // A full snapshot for the first revision and every SNAPSHOT_EVERY
+      // after the last one; otherwise only what changed
+      let contents: Pick<StoredRevision, 'works' | 'changedWorks' | 'removedWorkIds'> = { works };
+      if (last >= 0 && last - lastSnapshot(existing, last) + 1 < SNAPSHOT_EVERY) {
+        const previous = new Map(worksAt(existing, last).map((work) => [work.id, work]));
+        const current = new Set(works.map((work) => work.id));
+        contents = {
+          changedWorks: works.filter((work) => JSON.stringify(previous.get(work.id)) !== JSON.stringify(work)),
+          removedWorkIds: [...previous.keys()].filter((id) => !current.has(id)),
+        };
+      }
+
+      const revision = await store.revisions.create({
+        id: randomUUID(),
+        costModelId: modelId,
+        number: (existing.at(-1)?.number ?? 0) + 1,
+        ...(label && { label }),
+        createdAt: new Date().toISOString(),
+        model,
+        ...contents,
+      });
+      return toRevision(revision, works);
+    });
+  }
+
+  // Save the current state as an explicitly labelled revision
+  async function save(modelId: string, label: string): Promise<RevisionSummary> {
+    const revision = await record(modelId, label);
+    return summarise(revision, revision.works.length);
+  }
+
+  async function list(modelId: string): Promise<RevisionSummary[]> {
+    const summaries: RevisionSummary[] = [];
+    replay(await listStored(modelId), (revision, works) => summaries.push(summarise(revision, works.size)));
+    return summaries;
+  }
+
+  async function get(modelId: string, number: number): Promise<Revision> {
+    const [stored, index] = await getStored(modelId, number);
+    return toRevision(stored[index], worksAt(stored, index));
+  }
+
+  async function relabel(modelId: string, number: number, label: string): Promise<RevisionSummary> {
+    return store.transaction(async () => {
+      const [stored, index] = await getStored(modelId, number);
+      const revision = await store.revisions.update({ ...stored[index], label });
+      return summarise(revision, worksAt(stored, index).length);
+    });
+  }
+
+  async function diff(modelId: string, from: number, to: number): Promise<RevisionDiff> {
+    return diffRevisions(await get(modelId, from), await get(modelId, to));
+  }
+
+  async function removeAll(modelId: string): Promise<void> {
+    await store.transaction(async () => {
+      for (const revision of await listStored(modelId)) {
+        await store.revisions.delete(revision.id);
+      }
+    });
+  }
+
+  return { record, save, list, get, relabel, diff, removeAll };
+}
+
+export type RevisionService = ReturnType<typeof createRevisionService>;
@@ -0,0 +1,58 @@
+/**
+ * Cost simulation service
+ *
+ * Runs the Monte Carlo simulation in utils/monteCarlo.ts over a model's
+ * works, add-ons and risk register. The design and construction
+ * contingency add-ons are left out of the simulated totals, since the
+ * ranges and risks are the evidence for them; their current amount is
+ * returned alongside so the two can be compared.
+ *
+ * Every ranged work and risk is drawn once per iteration, so a large model
+ * is limited to fewer iterations to keep each run to about a second.
+ */
+
+import { ValidationError } from '../errors.js';
+import type { AddOnCategory } from '../../shared/schemas/addOns.js';
+import type { Simulation, SimulationQuery } from '../../shared/schemas/risks.js';
+import { simulateCost } from '../utils/monteCarlo.js';
+import { sumMoney } from '../../shared/utils/money.js';
+import type { ModelService } from './modelService.js';
+import type { WorkService } from './workService.js';
+
+const CONTINGENCIES: AddOnCategory[] = ['designContingency', 'constructionContingency'];
+
+// Most draws one run may make: iterations × (ranged works + risks)
+const MAX_DRAWS = 2_000_000;
+
+export function createSimulationService(models: ModelService, works: WorkService) {
+  async function simulate(modelId: string, { iterations, seed }: SimulationQuery): Promise<Simulation> {
+    const model = await models.get(modelId);
+    const summary = await models.summary(modelId);
+    const modelWorks = await works.list(modelId);
+    const risks = model.risks ?? [];
+    const inputs = modelWorks.filter((work) => work.quantityRange || work.unitRateRange).length + risks.length;
+    if (iterations * inputs > MAX_DRAWS) {
+      const most = Math.floor(MAX_DRAWS / inputs);
+      throw new ValidationError('Too many iterations for this model', [
+        { path: 'iterations', message: `At most ${most} for ${inputs} ranged works and risks` },
+      ]);
+    }
+    const addOns = (model.addOns ?? []).filter((addOn) => !CONTINGENCIES.includes(addOn.category));
+    const result = simulateCost(modelWorks, addOns, risks, iterations, seed);
+
+    return {
+      costModelId: modelId,
+      iterations,
+      seed,
+      totalCost: summary.totalCost,
+      currentContingency: sumMoney(
+        summary.stages.filter((stage) => CONTINGENCIES.includes(stage.category)).map((stage) => stage.amount)
+      ),
+      ...result,
+    };
+  }
+
+  return { simulate };
+}
+
+export type SimulationService = ReturnType<typeof createSimulationService>;
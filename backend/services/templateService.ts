@@ -0,0 +1,175 @@
+/**
+ * Template service
+ *
+ * Starting a new scheme from an earlier one: duplicating a model, saving a
+ * model as a reusable template, and creating a model from a template. New
+ * models always start as drafts prepared by the signed-in user, and are
+ * built through the model and work services so they are validated, audited
+ * and revisioned like any other change.
+ *
+ * Creating from a template can rescale quantities to the new GIFA. Only
+ * measured quantities (m2, m3, m, t) are scaled; lump sums and counted
+ * items don't follow floor area, so they are copied as they are and
+ * flagged for review.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { NotFoundError, ValidationError } from '../errors.js';
+import type { DataStore } from '../repositories/index.js';
+import { costModelFieldsSchema, type CostModel, type CostModelInput } from '../../shared/schemas/models.js';
+import type {
+  CostModelTemplate,
+  DuplicateInput,
+  TemplateInput,
+  TemplateModelInput,
+  TemplateModelResult,
+  TemplateSummary,
+} from '../../shared/schemas/templates.js';
+import type { PublicUser } from '../../shared/schemas/users.js';
+import { measuredWorkFieldsSchema, type MeasuredWork, type Unit } from '../../shared/schemas/works.js';
+import { scaleMoney } from '../../shared/utils/money.js';
+import type { ModelService } from './modelService.js';
+import type { MeasuredWorkSeed, WorkService } from './workService.js';
+
+const UNSCALED_UNITS = new Set<Unit>(['ls', 'nr']);
+
+function summarise({ works, ...template }: CostModelTemplate): TemplateSummary {
+  return { ...template, workCount: works.length };
+}
+
+// A work's editable fields, ready to be created under another model
+function toSeed(work: MeasuredWork): MeasuredWorkSeed & { elementName: string } {
+  return { ...measuredWorkFieldsSchema.parse(work), elementName: work.elementName };
+}
+
+export function createTemplateService(store: DataStore, models: ModelService, works: WorkService) {
+  async function get(id: string): Promise<CostModelTemplate> {
+    const template = await store.templates.findById(id);
+    if (!template) {
+      throw new NotFoundError(`Template ${id} not found`);
+    }
+    return template;
+  }
+
+  async function list(): Promise<TemplateSummary[]> {
+    const templates = await store.templates.findAll();
+    return templates.map(summarise).sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  // Create a draft model with the given lines as one change
+  async function build(fields: CostModelInput, seeds: MeasuredWorkSeed[], user: PublicUser): Promise<CostModel> {
+    return store.transaction(async () => {
+      const model = await models.create(fields, user);
+      if (seeds.length > 0) {
+        await works.createMany(model.id, seeds, user);
+      }
+      return models.get(model.id);
+    });
+  }
+
+  /**
+   * Copy a model and all of its works under a new id, as a draft
+   */
+  async function duplicate(modelId: string, { projectName }: DuplicateInput, user: PublicUser): Promise<CostModel> {
+    const source = await models.get(modelId);
+    const lines = await works.list(modelId);
+    return build(
+      { ...costModelFieldsSchema.parse(source), projectName: projectName ?? `${source.projectName} (copy)` },
+      lines.map(toSeed),
+      user
+    );
+  }
+
+  /**
+   * Save a model and its works, as they are now, as a named template
+   */
+  async function save(modelId: string, input: TemplateInput, user: PublicUser): Promise<TemplateSummary> {
+    const source = await models.get(modelId);
+    const lines = await works.list(modelId);
+    const template = await store.transaction(() =>
+      store.templates.create({
+        ...input,
+        id: randomUUID(),
+        sourceModelId: source.id,
+        model: costModelFieldsSchema.parse(source),
+        works: lines.map(toSeed),
+        createdBy: user.displayName,
+        createdAt: new Date().toISOString(),
+      })
+    );
+    return summarise(template);
+  }
+
+  /**
+   * Create a draft model from a template's work lines; the model's own
+   * fields come from the input, except that the template's add-ons and
+   * risk register are used unless the input gives its own. With
+   * scaleQuantities, measured quantities and their ranges are multiplied by
+   * new GIFA ÷ template GIFA and rounded to 2 decimal places.
+   */
+  async function createModel(
+    templateId: string,
+    { scaleQuantities, ...fields }: TemplateModelInput,
+    user: PublicUser
+  ): Promise<TemplateModelResult> {
+    const template = await get(templateId);
+    const fromGifa = template.model.gifa;
+    const toGifa = fields.gifa;
+
+    if (scaleQuantities && (!fromGifa || !toGifa)) {
+      throw new ValidationError('Quantities can only be scaled when both the template and the new model have a GIFA', [
+        { path: 'gifa', message: toGifa ? `Template "${template.name}" has no GIFA` : 'Required to scale quantities' },
+      ]);
+    }
+
+    const factor = scaleQuantities ? toGifa! / fromGifa! : null;
+    let scaledCount = 0;
+    let reviewCount = 0;
+    const seeds = template.works.map((line): MeasuredWorkSeed => {
+      if (factor === null || factor === 1) {
+        return line;
+      }
+      if (UNSCALED_UNITS.has(line.unit)) {
+        reviewCount++;
+        return {
+          ...line,
+          needsReview: `Not scaled from ${fromGifa} to ${toGifa} m² GIFA (${line.unit}); check the quantity`,
+        };
+      }
+      scaledCount++;
+      // The build-up measured the template's building, not this one. The
+      // quantity and its range are scaled the same exact way, so the range
+      // still takes in the quantity.
+      const { buildUp: _buildUp, quantityRange, ...scaled } = line;
+      const scale = (quantity: number) => scaleMoney(quantity, toGifa!, fromGifa!);
+      return {
+        ...scaled,
+        quantity: scale(line.quantity),
+        ...(quantityRange && { quantityRange: { min: scale(quantityRange.min), max: scale(quantityRange.max) } }),
+      };
+    });
+
+    const model = await build(
+      { ...fields, addOns: fields.addOns ?? template.model.addOns, risks: fields.risks ?? template.model.risks },
+      seeds,
+      user
+    );
+    return {
+      model,
+      scaleFactor: factor === null ? null : Number(factor.toFixed(4)),
+      scaledCount,
+      reviewCount,
+    };
+  }
+
+  async function remove(id: string): Promise<void> {
+    await store.transaction(async () => {
+      await get(id);
+      await store.templates.delete(id);
+    });
+  }
+
+  return { list, get, duplicate, save, createModel, remove };
+}
+
+export type TemplateService = ReturnType<typeof createTemplateService>;
@@ -0,0 +1,121 @@
+/**
+ * User service
+ *
+ * Accounts are managed by admins. Usernames are unique (case-insensitive)
+ * and passwords are only ever stored hashed.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { seedUsers } from '../data/seed.js';
+import { ConflictError, NotFoundError } from '../errors.js';
+import type { DataStore } from '../repositories/index.js';
+import type { PublicUser, User, UserInput, UserPatch } from '../../shared/schemas/users.js';
+import { hashPassword } from '../utils/password.js';
+
+export function toPublicUser({ passwordHash: _passwordHash, ...user }: User): PublicUser {
+  return user;
+}
+
+export function createUserService(store: DataStore) {
+  async function findByUsername(username: string): Promise<User | undefined> {
+    const name = username.trim().toLowerCase();
+    return (await store.users.findAll()).find((user) => user.username === name);
+  }
+
+  async function getUser(id: string): Promise<User> {
+    const user = await store.users.findById(id);
+    if (!user) {
+      throw new NotFoundError(`User ${id} not found`);
+    }
+    return user;
+  }
+
+  async function list(): Promise<PublicUser[]> {
+    return (await store.users.findAll()).map(toPublicUser);
+  }
+
+  async function get(id: string): Promise<PublicUser> {
+    return toPublicUser(await getUser(id));
+  }
+
+  async function create({ password, ...input }: UserInput): Promise<PublicUser> {
+    const passwordHash = await hashPassword(password);
+    return store.transaction(async () => {
+      if (await findByUsername(input.username)) {
+        throw new ConflictError(`Username ${input.username} is already taken`, [
+          { path: 'username', message: 'Already taken' },
+        ]);
+      }
+      const now = new Date().toISOString();
+      const user = await store.users.create({
+        ...input,
+        id: randomUUID(),
+        passwordHash,
+        createdAt: now,
+        updatedAt: now,
+      });
+      return toPublicUser(user);
+    });
+  }
+
+  async function patch(id: string, { password, ...changes }: UserPatch): Promise<PublicUser> {
+    const passwordHash = password ? await hashPassword(password) : undefined;
+    return store.transaction(async () => {
+      const existing = await getUser(id);
+      // Someone has to be left who can manage accounts
+      if (existing.role === 'admin' && changes.role && changes.role !== 'admin') {
+        const admins = (await store.users.findAll()).filter((user) => user.role === 'admin');
+        if (admins.length <= 1) {
+          throw new ConflictError(`${existing.username} is the only admin; make someone else an admin first`, [
+            { path: 'role', message: 'The last admin must stay an admin' },
+          ]);
+        }
+      }
+      const user = await store.users.update({
+        ...existing,
+        ...changes,
+        ...(passwordHash && { passwordHash }),
+        updatedAt: new Date().toISOString(),
+      });
+      // A new password signs the account out everywhere, so whoever knew
+      // the old one can't carry on with a session they already had
+      if (passwordHash) {
+        for (const session of await store.sessions.findAll()) {
+          if (session.userId === id) {
+            await store.sessions.delete(session.id);
+          }
+        }
+      }
+      return toPublicUser(user);
+    });
+  }
+
+  /**
+   * Create the seed accounts when the store has no users yet (a fresh store,
+   * or a data file from before accounts existed). They share the password in
+   * SEED_PASSWORD, which should be changed straight away. Only development
+   * falls back to a default password; anywhere else, starting without
+   * SEED_PASSWORD fails rather than create accounts anyone could sign in to.
+   */
+  async function bootstrap(): Promise<void> {
+    if ((await store.users.findAll()).length > 0) {
+      return;
+    }
+    const environment = process.env.NODE_ENV || 'development';
+    if (!process.env.SEED_PASSWORD && environment !== 'development') {
+      throw new Error(`SEED_PASSWORD must be set to create the first accounts in ${environment}`);
+    }
+    const password = process.env.SEED_PASSWORD || 'costinsight';
+    for (const user of seedUsers) {
+      await create({ ...user, password });
+    }
+    console.warn(
+      `No users found - created ${seedUsers.map((u) => `${u.username} (${u.role})`).join(', ')} ` +
+        `with the ${process.env.SEED_PASSWORD ? 'SEED_PASSWORD' : 'default'} password`
+    );
+  }
+
+  return { findByUsername, list, get, create, patch, bootstrap };
+}
+
+export type UserService = ReturnType<typeof createUserService>;
@@ -0,0 +1,110 @@
+import assert from 'node:assert/strict';
+import { before, describe, it } from 'node:test';
+import type { MeasuredWorkInput } from '../../shared/schemas/works.js';
+import type { PublicUser } from '../../shared/schemas/users.js';
+import { renderCostPlanCsv } from '../reports/costPlan.js';
+import { MemoryStore } from '../repositories/memoryStore.js';
+import { projectTotal } from '../utils/addOns.js';
+import { parseCsv } from '../utils/csv.js';
+import { createAuditService } from './auditService.js';
+import { createElementService } from './elementService.js';
+import { createEventService } from './eventService.js';
+import { createModelService } from './modelService.js';
+import { createReportService } from './reportService.js';
+import { createRevisionService } from './revisionService.js';
+import { createWorkService } from './workService.js';
+
+const LINES = 5000;
+const ELEMENTS = ['1.1.1', '2.1.1', '2.5.1', '2.6.1', '5.6'];
+
+const user: PublicUser = {
+  id: 'user-test',
+  username: 'tester',
+  displayName: 'Test Estimator',
+  role: 'estimator',
+  createdAt: '2025-01-01T00:00:00.000Z',
+  updatedAt: '2025-01-01T00:00:00.000Z',
+};
+
+// Quantities and rates chosen so many lines land on a half penny, with the
+// expected line total worked out in integer ten-thousandths of a pound
+function line(i: number): { input: MeasuredWorkInput; pence: bigint } {
+  const quantityHundredths = 50 + ((i * 37) % 100000);
+  const rateHundredths = 1 + ((i * 53) % 25000);
+  const product = BigInt(quantityHundredths) * BigInt(rateHundredths);
+  return {
+    input: {
+      elementCode: ELEMENTS[i % ELEMENTS.length],
+      description: `Line ${i}`,
+      quantity: quantityHundredths / 100,
+      unit: 'm2',
+      unitRate: rateHundredths / 100,
+    },
+    pence: (product + 50n) / 100n,
+  };
+}
+
+describe('model rollup over a large bill', () => {
+  const store = new MemoryStore();
+  const elements = createElementService();
+  const audit = createAuditService(store, createEventService());
+  const revisions = createRevisionService(store);
+  const models = createModelService(store, revisions, audit);
+  const works = createWorkService(store, models, elements, revisions, audit);
+  const reports = createReportService(models, works);
+
+  const lines = Array.from({ length: LINES }, (_, i) => line(i));
+  const expected = Number(lines.reduce((total, { pence }) => total + pence, 0n)) / 100;
+  let modelId = '';
+
+  before(async () => {
+    const model = await models.create(
+      {
+        projectName: 'Large bill',
+        gifa: 12345.67,
+        addOns: [
+          { category: 'preliminaries', label: 'Preliminaries', method: 'percentage', value: 12.5, base: 'subtotal' },
+          { category: 'overheadsProfit', label: 'OH&P', method: 'percentage', value: 5.25, base: 'subtotal' },
+          { category: 'otherAllowance', label: 'Fees', method: 'fixed', value: 15000.01, base: 'subtotal' },
+        ],
+      },
+      user
+    );
+    modelId = model.id;
+    await works.createMany(modelId, lines.map(({ input }) => input), user);
+  });
+
+  it('rounds every line total half-up to the penny', async () => {
+    const created = await works.list(modelId);
+    assert.equal(created.length, LINES);
+    const byDescription = new Map(created.map((work) => [work.description, work.totalCost]));
+    lines.forEach(({ input, pence }) => {
+      assert.equal(byDescription.get(input.description), Number(pence) / 100);
+    });
+  });
+
+  it('sums the works cost exactly', async () => {
+    const summary = await models.summary(modelId);
+    assert.equal(summary.worksCost, expected);
+  });
+
+  it('stores the same total the summary builds up to', async () => {
+    const model = await models.get(modelId);
+    const summary = await models.summary(modelId);
+    assert.equal(model.totalCost, summary.totalCost);
+    assert.equal(model.totalCost, projectTotal(expected, model.addOns));
+  });
+
+  it('reconciles the cost plan element subtotals with the total', async () => {
+    const report = await reports.costPlan(modelId);
+    assert.equal(report.grandTotal, expected);
+    const subtotals = report.elements.reduce((total, element) => total + BigInt(Math.round(element.subtotal * 100)), 0n);
+    assert.equal(Number(subtotals) / 100, expected);
+  });
+
+  it('exports the same total in the CSV', async () => {
+    const csv = renderCostPlanCsv(await reports.costPlan(modelId));
+    const row = parseCsv(csv).find(({ cells }) => cells[2] === 'Works Cost Estimate');
+    assert.equal(row?.cells[6], expected.toFixed(2));
+  });
+});
@@ -0,0 +1,282 @@
+/**
+ * Measured work service
+ *
+ * Every work's totalCost is calculated here from quantity × unitRate, and
+ * every change recalculates the parent model's totalCost from its works and
+ * add-ons, inside the same transaction - so the figures can never disagree.
+ * Element codes are checked against the NRM library and elementName is
+ * always taken from it. A work measured with a dimension build-up takes its
+ * quantity from the build-up, and a work linked to a library rate takes its
+ * unit rate from the rate library. A quantity or unit rate range must take
+ * in the value it is around. Works can only change while their model is a
+ * draft, and changes to an existing work are refused if it has changed
+ * since the version (updatedAt) they were based on. Each change to a work
+ * is written to the audit log; the model total that follows from it is not
+ * logged separately.
+ */
+
+import { randomUUID } from 'node:crypto';
+import { NotFoundError, ValidationError } from '../errors.js';
+import type { DataStore } from '../repositories/index.js';
+import type { CostModel } from '../../shared/schemas/models.js';
+import type { MeasuredWork, MeasuredWorkInput, MeasuredWorkPatch } from '../../shared/schemas/works.js';
+import { projectTotal } from '../utils/addOns.js';
+import { calculateCost, sumMeasuredWorks } from '../utils/calculations.js';
+import { buildUpErrors, buildUpQuantity } from '../utils/dimensions.js';
+import type { PublicUser } from '../../shared/schemas/users.js';
+import type { AuditService } from './auditService.js';
+import { assertVersion } from './concurrency.js';
+import type { ElementService } from './elementService.js';
+import type { ModelService } from './modelService.js';
+import type { RevisionService } from './revisionService.js';
+
+/**
+ * A work to create: what a client may send, plus a review flag that only
+ * the server sets (see templateService)
+ */
+export type MeasuredWorkSeed = MeasuredWorkInput & Pick<MeasuredWork, 'needsReview'>;
+
+function describe(work: MeasuredWork): string {
+  return `Measured work ${[work.elementCode, work.description].filter(Boolean).join(' ')}`;
+}
+
+export function createWorkService(
+  store: DataStore,
+  models: ModelService,
+  elements: ElementService,
+  revisions: RevisionService,
+  audit: AuditService
+) {
+  async function listForModel(modelId: string): Promise<MeasuredWork[]> {
+    const works = await store.works.findAll();
+    return works.filter((work) => work.costModelId === modelId);
+  }
+
+  async function list(modelId: string): Promise<MeasuredWork[]> {
+    await models.get(modelId);
+    return listForModel(modelId);
+  }
+
+  async function get(modelId: string, workId: string): Promise<MeasuredWork> {
+    const work = await store.works.findById(workId);
+    if (!work || work.costModelId !== modelId) {
+      throw new NotFoundError(`Measured work ${workId} not found in cost model ${modelId}`);
+    }
+    return work;
+  }
+
+  // Recalculate the model's totalCost from its works and add-ons, then
+  // snapshot the result as a new revision
+  async function rollUp(modelId: string): Promise<CostModel> {
+    const model = await models.get(modelId);
+    const updated = await store.models.update({
+      ...model,
+      totalCost: projectTotal(sumMeasuredWorks(await listForModel(modelId)), model.addOns),
+      updatedAt: new Date().toISOString(),
+    });
+    await revisions.record(modelId);
+    return updated;
+  }
+
+  // Take the quantity from the build-up when there is one; an empty
+  // build-up is the same as none
+  function measure<T extends Pick<MeasuredWork, 'quantity' | 'unit' | 'buildUp'>>(work: T): T {
+    const { buildUp, ...rest } = work;
+    if (!buildUp?.length) {
+      return rest as T;
+    }
+    const errors = buildUpErrors(buildUp, work.unit);
+    if (errors.length > 0) {
+      throw new ValidationError('Dimension build-up is invalid', errors);
+    }
+    return { ...work, quantity: buildUpQuantity(buildUp, work.unit) };
+  }
+
+  // Take the unit rate from the linked library rate, if there is one
+  async function price<T extends Pick<MeasuredWork, 'unit' | 'unitRate' | 'rateId'>>(work: T): Promise<T> {
+    if (work.rateId === undefined) {
+      return work;
+    }
+    const rate = await store.rates.findById(work.rateId);
+    if (!rate) {
+      throw new ValidationError('Library rate not found', [
+        { path: 'rateId', message: `No rate ${work.rateId} in the rate library` },
+      ]);
+    }
+    if (rate.unit !== work.unit) {
+      throw new ValidationError('Library rate is for a different unit', [
+        { path: 'rateId', message: `${rate.code} is priced per ${rate.unit}, not per ${work.unit}` },
+      ]);
+    }
+    return { ...work, unitRate: rate.rate };
+  }
+
+  // A three-point range has to take in the most likely value it is around
+  function checkRanges<T extends Pick<MeasuredWork, 'quantity' | 'unitRate' | 'quantityRange' | 'unitRateRange'>>(
+    work: T
+  ): T {
+    const errors = (['quantity', 'unitRate'] as const)
+      .filter((field) => {
+        const range = work[`${field}Range`];
+        return range && (work[field] < range.min || work[field] > range.max);
+      })
+      .map((field) => ({ path: `${field}Range`, message: `Must include the ${field} (${work[field]})` }));
+    if (errors.length > 0) {
+      throw new ValidationError('Estimate range is invalid', errors);
+    }
+    return work;
+  }
+
+  async function newWork(modelId: string, seed: MeasuredWorkSeed): Promise<MeasuredWork> {
+    const now = new Date().toISOString();
+    const input = checkRanges(await price(measure(seed)));
+    return {
+      ...input,
+      elementName: elements.resolveCode(input.elementCode).name,
+      id: randomUUID(),
+      costModelId: modelId,
+      totalCost: calculateCost(input.quantity, input.unitRate),
+      createdAt: now,
+      updatedAt: now,
+    };
+  }
+
+  async function create(modelId: string, input: MeasuredWorkInput, user: PublicUser): Promise<MeasuredWork> {
+    return store.transaction(async () => {
+      await models.getEditable(modelId);
+      const work = await store.works.create(await newWork(modelId, input));
+      await audit.record('work', 'create', user, undefined, work);
+      await rollUp(modelId);
+      return work;
+    });
+  }
+
+  // Add several works as one change: one rollup, one revision, all or nothing
+  async function createMany(modelId: string, inputs: MeasuredWorkSeed[], user: PublicUser): Promise<MeasuredWork[]> {
+    return store.transaction(async () => {
+      await models.getEditable(modelId);
+      const created: MeasuredWork[] = [];
+      for (const input of inputs) {
+        const work = await store.works.create(await newWork(modelId, input));
+        await audit.record('work', 'create', user, undefined, work);
+        created.push(work);
+      }
+      await rollUp(modelId);
+      return created;
+    });
+  }
+
+  async function replace(
+    modelId: string,
+    workId: string,
+    input: MeasuredWorkInput,
+    user: PublicUser,
+    version: string
+  ): Promise<MeasuredWork> {
+    return store.transaction(async () => {
+      await models.getEditable(modelId);
+      const existing = await get(modelId, workId);
+      assertVersion(existing, version, describe(existing));
+      const measured = checkRanges(await price(measure(input)));
+      const work = await store.works.update({
+        ...measured,
+        elementName: elements.resolveCode(input.elementCode).name,
+        id: workId,
+        costModelId: modelId,
+        totalCost: calculateCost(measured.quantity, measured.unitRate),
+        createdAt: existing.createdAt,
+        updatedAt: new Date().toISOString(),
+      });
+      await audit.record('work', 'update', user, existing, work);
+      await rollUp(modelId);
+      return work;
+    });
+  }
+
+  async function patch(
+    modelId: string,
+    workId: string,
+    changes: MeasuredWorkPatch,
+    user: PublicUser,
+    version: string
+  ): Promise<MeasuredWork> {
+    return store.transaction(async () => {
+      await models.getEditable(modelId);
+      const existing = await get(modelId, workId);
+      assertVersion(existing, version, describe(existing));
+      // Editing a line counts as reviewing it
+      const { needsReview: _needsReview, ...fields } = { ...existing, ...changes };
+      // A quantity typed over a built-up one replaces the build-up, and a
+      // unit rate typed over a library one unlinks it
+      const merged = checkRanges(
+        await price(
+          measure({
+            ...fields,
+            ...(changes.quantity !== undefined && changes.buildUp === undefined && { buildUp: undefined }),
+            ...(changes.unitRate !== undefined && changes.rateId === undefined && { rateId: undefined }),
+          })
+        )
+      );
+      const work = await store.works.update({
+        ...merged,
+        elementName: elements.resolveCode(merged.elementCode).name,
+        totalCost: calculateCost(merged.quantity, merged.unitRate),
+        updatedAt: new Date().toISOString(),
+      });
+      await audit.record('work', 'update', user, existing, work);
+      await rollUp(modelId);
+      return work;
+    });
+  }
+
+  async function remove(modelId: string, workId: string, user: PublicUser, version: string): Promise<void> {
+    await store.transaction(async () => {
+      await models.getEditable(modelId);
+      const existing = await get(modelId, workId);
+      assertVersion(existing, version, describe(existing));
+      await store.works.delete(workId);
+      await audit.record('work', 'delete', user, existing, undefined);
+      await rollUp(modelId);
+    });
+  }
+
+  /**
+   * Bring a draft model's linked works up to date with the rate library
+   * after a rate changes: each work whose unit rate differs is updated and
+   * audited, then the model rolls up once. Returns the works changed.
+   * A unit rate range the new rate falls outside is widened to take it in,
+   * so the work stays valid and keeps the rest of its estimate range.
+   */
+  async function reprice(modelId: string, user: PublicUser): Promise<MeasuredWork[]> {
+    return store.transaction(async () => {
+      await models.getEditable(modelId);
+      const updated: MeasuredWork[] = [];
+      for (const existing of await listForModel(modelId)) {
+        const rate = existing.rateId && (await store.rates.findById(existing.rateId));
+        if (!rate || rate.rate === existing.unitRate) {
+          continue;
+        }
+        const range = existing.unitRateRange;
+        const work = await store.works.update({
+          ...existing,
+          unitRate: rate.rate,
+          ...(range && {
+            unitRateRange: { min: Math.min(range.min, rate.rate), max: Math.max(range.max, rate.rate) },
+          }),
+          totalCost: calculateCost(existing.quantity, rate.rate),
+          updatedAt: new Date().toISOString(),
+        });
+        await audit.record('work', 'update', user, existing, work);
+        updated.push(work);
+      }
+      if (updated.length > 0) {
+        await rollUp(modelId);
+      }
+      return updated;
+    });
+  }
+
+  return { list, get, create, createMany, replace, patch, remove, reprice };
+}
+
+export type WorkService = ReturnType<typeof createWorkService>;
@@ -0,0 +1,59 @@
+/**
+ * Cost model status workflow
+ *
+ *   draft               ──approve──▶ approved
+ *   draft / approved    ──archive──▶ archived
+ *   approved / archived ──reopen───▶ draft
+ *
+ * Only drafts can be edited. An approved or archived model has to be
+ * reopened (back to draft) before it or its measured works change.
+ */
+
+import { ConflictError } from '../errors.js';
+import type { CostModel, CostModelStatus, TransitionAction } from '../../shared/schemas/models.js';
+
+export const transitions: Record<TransitionAction, { from: CostModelStatus[]; to: CostModelStatus }> = {
+  approve: { from: ['draft'], to: 'approved' },
+  archive: { from: ['draft', 'approved'], to: 'archived' },
+  reopen: { from: ['approved', 'archived'], to: 'draft' },
+};
+
+export function availableActions(status: CostModelStatus): TransitionAction[] {
+  return (Object.keys(transitions) as TransitionAction[]).filter((action) =>
+    transitions[action].from.includes(status)
+  );
+}
+
+/**
+ * Apply a transition, stamping or clearing the approval fields
+ */
+export function applyTransition(model: CostModel, action: TransitionAction, actor?: string): CostModel {
+  const { from, to } = transitions[action];
+  if (!from.includes(model.status)) {
+    throw new ConflictError(`Cannot ${action} a cost model that is ${model.status}`, [
+      { path: 'action', message: `Allowed from ${model.status}: ${availableActions(model.status).join(', ') || 'none'}` },
+    ]);
+  }
+
+  const now = new Date().toISOString();
+  const next: CostModel = { ...model, status: to, updatedAt: now };
+
+  if (action === 'approve') {
+    next.approvedBy = actor;
+    next.approvedAt = now;
+  } else if (action === 'reopen') {
+    delete next.approvedBy;
+    delete next.approvedAt;
+  }
+
+  return next;
+}
+
+/**
+ * Refuse changes to a model (or its works) unless it is a draft
+ */
+export function assertEditable(model: CostModel): void {
+  if (model.status !== 'draft') {
+    throw new ConflictError(`Cost model ${model.id} is ${model.status} and read-only; reopen it to make changes`);
+  }
+}
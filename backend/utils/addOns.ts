@@ -0,0 +1,56 @@
+/**
+ * Cost plan add-ons
+ *
+ * Builds a model's total up from its works cost, one stage at a time (see
+ * shared/schemas/addOns.ts). Each percentage add-on is rounded half-up to
+ * the penny; stage amounts and subtotals are exact sums of those, like
+ * every other total.
+ */
+
+import type { AddOn, AddOnCategory, CostPlanStage } from '../../shared/schemas/addOns.js';
+import { addOnCategorySchema } from '../../shared/schemas/addOns.js';
+import { sumMoney, sumProducts } from '../../shared/utils/money.js';
+
+export const ADD_ON_CATEGORY_LABELS: Record<AddOnCategory, string> = {
+  preliminaries: "Main contractor's preliminaries",
+  overheadsProfit: "Main contractor's overheads and profit",
+  designContingency: 'Design contingency',
+  constructionContingency: 'Construction contingency',
+  otherAllowance: 'Other allowances',
+};
+
+/**
+ * The stages a works cost builds up through, and the total project cost
+ * they end in
+ */
+export function buildUpCostPlan(
+  worksCost: number,
+  addOns: AddOn[] = []
+): { stages: CostPlanStage[]; totalCost: number } {
+  const stages: CostPlanStage[] = [];
+  let subtotal = worksCost;
+
+  for (const category of addOnCategorySchema.options) {
+    const inStage = addOns.filter((addOn) => addOn.category === category);
+    if (inStage.length === 0) continue;
+
+    const stageBase = subtotal;
+    const lines = inStage.map(({ label, method, value, base }) => {
+      const baseAmount = method === 'fixed' ? value : base === 'works' ? worksCost : stageBase;
+      const amount = method === 'fixed' ? value : sumProducts([{ factors: [baseAmount, value, 0.01] }]);
+      return { label, method, value, base, baseAmount, amount };
+    });
+    const amount = sumMoney(lines.map((line) => line.amount));
+    subtotal = sumMoney([subtotal, amount]);
+    stages.push({ category, label: ADD_ON_CATEGORY_LABELS[category], lines, amount, subtotal });
+  }
+
+  return { stages, totalCost: subtotal };
+}
+
+/**
+ * Total project cost: the works cost plus every add-on
+ */
+export function projectTotal(worksCost: number, addOns?: AddOn[]): number {
+  return buildUpCostPlan(worksCost, addOns).totalCost;
+}
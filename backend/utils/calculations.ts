@@ -0,0 +1,36 @@
+/**
+ * Cost calculations
+ *
+ * Server-side copy of frontend/src/Utilities/Calculations.ts - keep the
+ * rounding rules in step so the UI and API always agree on totals. The
+ * arithmetic itself is exact; see utils/money.ts for the rounding policy.
+ */
+
+import type { MeasuredWork } from '../../shared/schemas/works.js';
+import { multiplyMoney, sumMoney } from '../../shared/utils/money.js';
+
+// quantity × unit rate, rounded half-up to the penny
+export function calculateCost(quantity: number, unitPrice: number): number {
+  return multiplyMoney(quantity, unitPrice);
+}
+
+// Exact sum of the (already rounded) line totals
+export function sumMeasuredWorks(works: MeasuredWork[]): number {
+  return sumMoney(works.map((work) => work.totalCost));
+}
+
+export function groupByElementCode(works: MeasuredWork[]): Map<string, MeasuredWork[]> {
+  const groups = new Map<string, MeasuredWork[]>();
+
+  works.forEach(work => {
+    const code = work.elementCode;
+
+    if (!groups.has(code)) {
+      groups.set(code, []);
+    }
+
+    groups.get(code)!.push(work);
+  });
+
+  return groups;
+}
@@ -0,0 +1,120 @@
+/**
+ * Cashflow forecasting
+ *
+ * Spreads amounts across the calendar months of a construction programme.
+ * A distribution gives each month's share of the total; the standard
+ * S-curve takes its shares from the cubic
+ *
+ *   cumulative share at time t = 3t² − 2t³   (t from 0 to 1)
+ *
+ * so spend is slow while the site is set up, peaks mid-programme and tails
+ * off towards completion. Each amount is spread by rounding its cumulative
+ * value to the penny month by month, so the months always add up to the
+ * amount exactly.
+ */
+
+import type { CashflowMonth, Distribution } from '../../shared/schemas/cashflow.js';
+import { fromPence, percentOf, scaleMoney, subtractMoney, sumMoney, toPence } from '../../shared/utils/money.js';
+
+// e.g. 2025-05 plus 9 → 2026-02
+export function addMonths(month: string, count: number): string {
+  const [year, monthNumber] = month.split('-').map(Number);
+  const index = year * 12 + monthNumber - 1 + count;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+}
+
+/**
+ * The calendar months a programme runs through, start and completion
+ * months included
+ */
+export function programmeMonths(start: string, completion: string): string[] {
+  const first = start.slice(0, 7);
+  const last = completion.slice(0, 7);
+  const months = [first];
+  while (months.at(-1)! < last) {
+    months.push(addMonths(months.at(-1)!, 1));
+  }
+  return months;
+}
+
+const sCurve = (t: number) => 3 * t * t - 2 * t * t * t;
+
+/**
+ * Each month's share of the total, as fractions adding up to 1. Custom
+ * weights must have one entry per month.
+ */
+export function distributionShares(distribution: Distribution, count: number, weights: number[] = []): number[] {
+  switch (distribution) {
+    case 'linear':
+      return Array.from({ length: count }, () => 1 / count);
+    case 'sCurve':
+      return Array.from({ length: count }, (_, i) => sCurve((i + 1) / count) - sCurve(i / count));
+    case 'custom': {
+      const sum = weights.reduce((total, weight) => total + weight, 0);
+      return weights.map((weight) => weight / sum);
+    }
+  }
+}
+
+/**
+ * amount spread by shares, to the penny; the result always sums to amount
+ */
+export function spreadAmount(amount: number, shares: number[]): number[] {
+  const pence = Number(toPence(amount));
+  let cumulativeShare = 0;
+  let previous = 0;
+  return shares.map((share, i) => {
+    cumulativeShare += share;
+    const cumulative = i === shares.length - 1 ? pence : Math.round(pence * cumulativeShare);
+    const month = cumulative - previous;
+    previous = cumulative;
+    return fromPence(BigInt(month));
+  });
+}
+
+/**
+ * Monthly and cumulative payments from each programme month's gross
+ * amount. retention percent is held back from every payment; half of what
+ * is held is released in the completion month and the rest defectsPeriod
+ * months later, adding months after the programme where needed.
+ */
+export function paymentSchedule(
+  months: string[],
+  gross: number[],
+  retention: number,
+  defectsPeriod: number
+): CashflowMonth[] {
+  const held = gross.map((amount) => scaleMoney(amount, retention, 100));
+  const totalHeld = sumMoney(held);
+  const releases = new Map<number, number>();
+  if (totalHeld !== 0) {
+    const completion = months.length - 1;
+    const firstHalf = scaleMoney(totalHeld, 1, 2);
+    const release = (index: number, amount: number) => releases.set(index, sumMoney([releases.get(index) ?? 0, amount]));
+    release(completion, firstHalf);
+    release(completion + defectsPeriod, subtractMoney(totalHeld, firstHalf));
+  }
+
+  const length = Math.max(months.length, ...[...releases.keys()].map((i) => i + 1));
+  const total = sumMoney(gross);
+  let cumulativeGross = 0;
+  let cumulativeNet = 0;
+  return Array.from({ length }, (_, i) => {
+    const monthGross = gross[i] ?? 0;
+    const retentionHeld = held[i] ?? 0;
+    const retentionReleased = releases.get(i) ?? 0;
+    const net = sumMoney([subtractMoney(monthGross, retentionHeld), retentionReleased]);
+    cumulativeGross = sumMoney([cumulativeGross, monthGross]);
+    cumulativeNet = sumMoney([cumulativeNet, net]);
+    return {
+      month: months[i] ?? addMonths(months[0], i),
+      gross: monthGross,
+      cumulativeGross,
+      percentComplete: percentOf(cumulativeGross, total),
+      retentionHeld,
+      retentionReleased,
+      net,
+      cumulativeNet,
+    };
+  });
+}
@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { parseCsv, toCsv } from './csv.js';
+
+describe('parseCsv', () => {
+  it('reads quoted fields with delimiters, escaped quotes and line breaks', () => {
+    const rows = parseCsv('code,description\r\n2.1.1,"Frame, ""steel""\nprimed"\r\n2.5.1,Walls\r\n');
+    assert.deepEqual(rows, [
+      { line: 1, cells: ['code', 'description'] },
+      { line: 2, cells: ['2.1.1', 'Frame, "steel"\nprimed'] },
+      { line: 4, cells: ['2.5.1', 'Walls'] },
+    ]);
+  });
+
+  it('keeps a quote inside an unquoted field as written', () => {
+    const rows = parseCsv('2.1.1,6" pipe,10,m,5\n2.5.1,Walls,20,m2,40\n');
+    assert.deepEqual(rows, [
+      { line: 1, cells: ['2.1.1', '6" pipe', '10', 'm', '5'] },
+      { line: 2, cells: ['2.5.1', 'Walls', '20', 'm2', '40'] },
+    ]);
+  });
+
+  it('strips a byte order mark and skips blank lines', () => {
+    const rows = parseCsv('\uFEFFcode;qty\n\n;\n1.1.1;5', ';');
+    assert.deepEqual(rows, [
+      { line: 1, cells: ['code', 'qty'] },
+      { line: 4, cells: ['1.1.1', '5'] },
+    ]);
+  });
+
+  it('reads back what toCsv writes', () => {
+    const cells = [['a', 'b, c', 'd "e"', 'f\r\ng']];
+    assert.deepEqual(parseCsv(toCsv(cells))[0].cells, cells[0]);
+  });
+});
@@ -0,0 +1,82 @@
+/**
+ * Minimal CSV reader/writer (RFC 4180)
+ *
+ * Handles quoted fields, escaped quotes ("") and line breaks inside quotes.
+ * A quote inside an unquoted field is kept as written.
+ * Good enough for spreadsheet exports without pulling in a dependency.
+ */
+
+export interface CsvRow {
+  // 1-based line of the file the row starts on; a quoted field with line
+  // breaks makes a row span several lines
+  line: number;
+  cells: string[];
+}
+
+export function parseCsv(text: string, delimiter = ','): CsvRow[] {
+  const rows: CsvRow[] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let rowLine = 1;
+
+  // Strip a UTF-8 byte order mark, which Excel adds to CSV exports
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        if (char === '\n' || (char === '\r' && input[i + 1] !== '\n')) line++;
+        field += char;
+      }
+    } else if (char === '"' && field === '') {
+      // Only a quote at the start of a field opens a quoted field; one
+      // further in is literal, as in 6" pipe
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push({ line: rowLine, cells: row });
+      row = [];
+      field = '';
+      rowLine = ++line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push({ line: rowLine, cells: row });
+  }
+
+  // Drop blank lines (a trailing newline, or empty spreadsheet rows)
+  return rows.filter(({ cells }) => cells.some((cell) => cell.trim() !== ''));
+}
+
+// Spreadsheets run a cell starting with = + - or @ as a formula; a leading
+// apostrophe makes them show free text, such as a description, as typed
+export function csvText(value: string | null | undefined): string {
+  const text = value ?? '';
+  return /^[=+\-@]/.test(text) ? `'${text}` : text;
+}
+
+function escapeCsvField(value: unknown): string {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(rows: unknown[][]): string {
+  return rows.map((row) => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
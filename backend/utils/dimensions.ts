@@ -0,0 +1,73 @@
+/**
+ * Dimension-sheet build-ups
+ *
+ * A measured quantity can be built up from dimension lines, as on a
+ * traditional take-off: each line is timesing × the dimensions the unit
+ * needs, and deductions are subtracted. The total is exact and rounded to
+ * 2 decimal places once (utils/money.ts sumProducts).
+ *
+ * Keep in step with frontend/src/Utilities/dimensions.ts.
+ */
+
+import type { DimensionLine, Unit } from '../../shared/schemas/works.js';
+import { sumProducts } from '../../shared/utils/money.js';
+
+export type Dimension = 'length' | 'width' | 'depth';
+
+const ALL_DIMENSIONS: Dimension[] = ['length', 'width', 'depth'];
+
+/**
+ * Dimensions each unit is measured with. Numbered items are counted with
+ * timesing alone; lump sums and tonnages aren't built up from dimensions.
+ */
+export const UNIT_DIMENSIONS: Record<Unit, Dimension[] | null> = {
+  m: ['length'],
+  m2: ['length', 'width'],
+  m3: ['length', 'width', 'depth'],
+  nr: [],
+  t: null,
+  ls: null,
+};
+
+export interface BuildUpError {
+  path: string;
+  message: string;
+}
+
+/**
+ * Problems with a build-up for the given unit; empty when it can be used
+ */
+export function buildUpErrors(lines: DimensionLine[], unit: Unit): BuildUpError[] {
+  const used = UNIT_DIMENSIONS[unit];
+  if (used === null) {
+    return [{ path: 'buildUp', message: `Quantities in ${unit} can't be built up from dimensions` }];
+  }
+  const errors: BuildUpError[] = [];
+  lines.forEach((line, index) => {
+    for (const dimension of ALL_DIMENSIONS) {
+      const required = used.includes(dimension);
+      if (required && line[dimension] === undefined) {
+        errors.push({ path: `buildUp.${index}.${dimension}`, message: `Required for ${unit}` });
+      } else if (!required && line[dimension] !== undefined) {
+        errors.push({ path: `buildUp.${index}.${dimension}`, message: `Not used for ${unit}` });
+      }
+    }
+  });
+  if (errors.length === 0 && buildUpQuantity(lines, unit) < 0) {
+    errors.push({ path: 'buildUp', message: 'Deductions are larger than the measured quantity' });
+  }
+  return errors;
+}
+
+/**
+ * Net quantity of a build-up: Σ timesing × dimensions, less deductions
+ */
+export function buildUpQuantity(lines: DimensionLine[], unit: Unit): number {
+  const used = UNIT_DIMENSIONS[unit] ?? [];
+  return sumProducts(
+    lines.map((line) => ({
+      factors: [line.timesing, ...used.map((dimension) => line[dimension] ?? 0)],
+      negative: line.deduction,
+    }))
+  );
+}
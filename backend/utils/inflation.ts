@@ -0,0 +1,70 @@
+/**
+ * Inflation to the mid-point of construction
+ *
+ * A cost priced at a base date is uplifted by the ratio of the tender price
+ * index for the construction mid-point's quarter to the index for the base
+ * date's quarter:
+ *
+ *   inflation = cost × (mid-point index ÷ base index − 1)
+ *
+ * worked out as cost × mid-point index ÷ base index − cost, rounded half-up
+ * to the penny once (see scaleMoney in shared/utils/money.ts).
+ */
+
+import type { IndexPoint, Inflation, TenderPriceIndexEntry } from '../../shared/schemas/priceIndex.js';
+import { percentOf, scaleMoney, subtractMoney } from '../../shared/utils/money.js';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const pounds = (amount: number) =>
+  `£${amount.toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// e.g. 2025-05-14 → 2025-Q2
+export function quarterOf(date: string): string {
+  const [year, month] = date.split('-').map(Number);
+  return `${year}-Q${Math.ceil(month / 3)}`;
+}
+
+/**
+ * The day halfway through a programme, rounded down to a whole day
+ */
+export function midPointOf(start: string, completion: string): string {
+  const from = Date.parse(start);
+  const days = Math.floor((Date.parse(completion) - from) / DAY / 2);
+  return new Date(from + days * DAY).toISOString().slice(0, 10);
+}
+
+function indexAt(date: string, index: TenderPriceIndexEntry[]): IndexPoint {
+  const quarter = quarterOf(date);
+  const entry = index.find((e) => e.quarter === quarter);
+  return { quarter, value: entry?.value ?? null, forecast: entry?.forecast ?? false };
+}
+
+/**
+ * Inflation on a cost priced at baseDate, to the mid-point of a programme
+ */
+export function inflationAllowance(
+  cost: number,
+  baseDate: string,
+  start: string,
+  completion: string,
+  index: TenderPriceIndexEntry[]
+): Inflation {
+  const midPoint = midPointOf(start, completion);
+  const baseIndex = indexAt(baseDate, index);
+  const midPointIndex = indexAt(midPoint, index);
+  const base = { baseDate, midPoint, baseIndex, midPointIndex };
+
+  if (baseIndex.value === null || midPointIndex.value === null) {
+    return { ...base, uplift: null, amount: null, formula: null };
+  }
+
+  const amount = subtractMoney(scaleMoney(cost, midPointIndex.value, baseIndex.value), cost);
+  const ratio = `${midPointIndex.value.toFixed(2)} ÷ ${baseIndex.value.toFixed(2)}`;
+  return {
+    ...base,
+    uplift: percentOf(subtractMoney(midPointIndex.value, baseIndex.value), baseIndex.value),
+    amount,
+    formula: `${pounds(cost)} × (${ratio} − 1) = ${pounds(amount)}`,
+  };
+}
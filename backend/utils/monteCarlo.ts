@@ -0,0 +1,239 @@
+/**
+ * Monte Carlo cost simulation
+ *
+ * Each iteration draws every ranged quantity and unit rate, and every
+ * risk's cost if it happens, from a triangular distribution over its
+ * min, most likely and max. A risk happens in an iteration when a uniform
+ * draw falls under its probability. Draws come from a small seeded
+ * generator (mulberry32), so a seed always gives the same sequence.
+ *
+ * A work's most likely values are the quantity and unit rate it holds; if
+ * a rate has since been repriced outside its range, the range is stretched
+ * to include it rather than refused.
+ *
+ * Sampled amounts are floats; only the results are rounded to the penny.
+ */
+
+import type { AddOn } from '../../shared/schemas/addOns.js';
+import type { HistogramBin, Risk, SimulationPercentile, TornadoBar } from '../../shared/schemas/risks.js';
+import type { MeasuredWork, Range } from '../../shared/schemas/works.js';
+import { projectTotal } from './addOns.js';
+import { sumMeasuredWorks } from './calculations.js';
+import { roundMoney, subtractMoney } from '../../shared/utils/money.js';
+
+export const PERCENTILES = [10, 50, 80, 90];
+const HISTOGRAM_BINS = 20;
+const TORNADO_BARS = 10;
+
+type Random = () => number;
+
+// mulberry32: a 32-bit seeded generator, uniform over [0, 1)
+export function seededRandom(seed: number): Random {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Inverse of the triangular distribution's cumulative probability
+export function triangular(u: number, min: number, likely: number, max: number): number {
+  const span = max - min;
+  if (span <= 0) {
+    return likely;
+  }
+  const split = (likely - min) / span;
+  return u < split
+    ? min + Math.sqrt(u * span * (likely - min))
+    : max - Math.sqrt((1 - u) * span * (max - likely));
+}
+
+// Draw from a range around a most likely value, stretching it to include
+// the value if need be
+function draw(random: Random, likely: number, range?: Range): number {
+  return range ? triangular(random(), Math.min(range.min, likely), likely, Math.max(range.max, likely)) : likely;
+}
+
+// Nearest-rank percentile of sorted values
+function percentileOf(sorted: Float64Array, percentile: number): number {
+  const rank = Math.ceil((percentile / 100) * sorted.length);
+  return sorted[Math.min(Math.max(rank, 1), sorted.length) - 1];
+}
+
+function histogram(sorted: Float64Array): HistogramBin[] {
+  const low = sorted[0];
+  const high = sorted[sorted.length - 1];
+  if (high === low) {
+    return [{ from: roundMoney(low), to: roundMoney(high), count: sorted.length }];
+  }
+  const width = (high - low) / HISTOGRAM_BINS;
+  const counts = new Array<number>(HISTOGRAM_BINS).fill(0);
+  for (const total of sorted) {
+    counts[Math.min(Math.floor((total - low) / width), HISTOGRAM_BINS - 1)]++;
+  }
+  return counts.map((count, i) => ({
+    from: roundMoney(low + i * width),
+    to: roundMoney(i === HISTOGRAM_BINS - 1 ? high : low + (i + 1) * width),
+    count,
+  }));
+}
+
+interface Input {
+  key: string;
+  kind: TornadoBar['kind'];
+  label: string;
+  samples: Float64Array;
+}
+
+// The k-th smallest (0-based) of values, by quickselect; reorders values
+function selectNth(values: Float64Array, k: number): number {
+  let lo = 0;
+  let hi = values.length - 1;
+  while (lo < hi) {
+    const pivot = values[(lo + hi) >>> 1];
+    let i = lo;
+    let j = hi;
+    while (i <= j) {
+      while (values[i] < pivot) i++;
+      while (values[j] > pivot) j--;
+      if (i <= j) {
+        [values[i], values[j]] = [values[j], values[i]];
+        i++;
+        j--;
+      }
+    }
+    if (k <= j) {
+      hi = j;
+    } else if (k >= i) {
+      lo = i;
+    } else {
+      break;
+    }
+  }
+  return values[k];
+}
+
+/**
+ * How far the total moves with each input: the mean total over the
+ * iterations where the input drew its lowest tenth of values, against its
+ * highest tenth. Each tenth is found by selecting its cut-off value rather
+ * than sorting every input's draws; iterations that tie with the cut-off
+ * are taken in iteration order.
+ */
+function tornado(inputs: Input[], totals: Float64Array): TornadoBar[] {
+  const count = totals.length;
+  const tenth = Math.max(1, Math.floor(count / 10));
+  const scratch = new Float64Array(count);
+
+  // Mean total over the tenth of iterations below (or above) the cut-off
+  const meanOfTenth = (samples: Float64Array, cutoff: number, lowest: boolean) => {
+    let sum = 0;
+    let taken = 0;
+    for (let i = 0; i < count; i++) {
+      if (lowest ? samples[i] < cutoff : samples[i] > cutoff) {
+        sum += totals[i];
+        taken++;
+      }
+    }
+    for (let n = 0; n < count && taken < tenth; n++) {
+      const i = lowest ? n : count - 1 - n;
+      if (samples[i] === cutoff) {
+        sum += totals[i];
+        taken++;
+      }
+    }
+    return sum / tenth;
+  };
+
+  return inputs
+    .map(({ key, kind, label, samples }) => {
+      scratch.set(samples);
+      const low = roundMoney(meanOfTenth(samples, selectNth(scratch, tenth - 1), true));
+      const high = roundMoney(meanOfTenth(samples, selectNth(scratch, count - tenth), false));
+      return { key, kind, label, low, high, swing: subtractMoney(high, low) };
+    })
+    .filter((bar) => bar.swing !== 0)
+    .sort((a, b) => b.swing - a.swing)
+    .slice(0, TORNADO_BARS);
+}
+
+export interface SimulationResult {
+  baseCost: number;
+  mean: number;
+  min: number;
+  max: number;
+  percentiles: SimulationPercentile[];
+  histogram: HistogramBin[];
+  tornado: TornadoBar[];
+}
+
+/**
+ * Simulate a model's total without contingency: its works, built up
+ * through addOns (contingencies already left out), plus the risks that
+ * happen
+ */
+export function simulateCost(
+  works: MeasuredWork[],
+  addOns: AddOn[],
+  risks: Risk[],
+  iterations: number,
+  seed: number
+): SimulationResult {
+  const random = seededRandom(seed);
+  const ranged = works.filter((work) => work.quantityRange || work.unitRateRange);
+  const fixedCost = sumMeasuredWorks(works.filter((work) => !work.quantityRange && !work.unitRateRange));
+  const baseCost = projectTotal(sumMeasuredWorks(works), addOns);
+
+  const inputs: Input[] = [
+    ...ranged.map((work) => ({
+      key: work.id,
+      kind: 'work' as const,
+      label: `${work.elementCode} ${work.description}`.trim(),
+      samples: new Float64Array(iterations),
+    })),
+    ...risks.map((risk, index) => ({
+      key: `risk-${index}`,
+      kind: 'risk' as const,
+      label: risk.title,
+      samples: new Float64Array(iterations),
+    })),
+  ];
+  const totals = new Float64Array(iterations);
+
+  for (let i = 0; i < iterations; i++) {
+    let worksCost = fixedCost;
+    ranged.forEach((work, w) => {
+      const cost = draw(random, work.quantity, work.quantityRange) * draw(random, work.unitRate, work.unitRateRange);
+      inputs[w].samples[i] = cost;
+      worksCost += cost;
+    });
+    let riskCost = 0;
+    risks.forEach((risk, r) => {
+      // Always draw both numbers, so one risk's probability doesn't shift
+      // the sequence every later draw sees
+      const happens = random() < risk.probability / 100;
+      const cost = triangular(random(), risk.min, risk.likely, risk.max);
+      inputs[ranged.length + r].samples[i] = happens ? cost : 0;
+      riskCost += happens ? cost : 0;
+    });
+    totals[i] = projectTotal(roundMoney(worksCost), addOns) + riskCost;
+  }
+
+  const bars = tornado(inputs, totals);
+  const sorted = totals.slice().sort();
+  return {
+    baseCost,
+    mean: roundMoney(sorted.reduce((sum, total) => sum + total, 0) / iterations),
+    min: roundMoney(sorted[0]),
+    max: roundMoney(sorted[iterations - 1]),
+    percentiles: PERCENTILES.map((percentile) => {
+      const total = roundMoney(percentileOf(sorted, percentile));
+      return { percentile, total, contingency: subtractMoney(total, baseCost) };
+    }),
+    histogram: histogram(sorted),
+    tornado: bars,
+  };
+}
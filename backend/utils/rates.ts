@@ -0,0 +1,35 @@
+/**
+ * Composite rate pricing
+ *
+ * Each component costs price × quantity (or price ÷ output) plus its
+ * wastage, rounded half-up to the penny; the rate is the exact sum of the
+ * component costs, so a rate always adds up to its breakdown.
+ *
+ * Keep in step with frontend/src/Utilities/rates.ts.
+ */
+
+import type { RateComponent, RateComponentInput } from '../../shared/schemas/rates.js';
+import { divideMoney, sumMoney, sumProducts } from '../../shared/utils/money.js';
+
+export function componentCost({ quantity, output, wastage = 0 }: RateComponentInput, price: number): number {
+  // price × (1 + wastage%), kept exact until the final rounding
+  const terms = (factor: number) => [{ factors: [price, factor] }, { factors: [price, factor, wastage, 0.01] }];
+  if (quantity !== undefined) {
+    return sumProducts(terms(quantity));
+  }
+  return divideMoney(sumProducts(terms(1)), output ?? 1);
+}
+
+/**
+ * Cost each component at the given resource prices (by resource id)
+ */
+export function priceComponents(
+  components: RateComponentInput[],
+  prices: Map<string, number>
+): { components: RateComponent[]; rate: number } {
+  const priced = components.map((component) => ({
+    ...component,
+    cost: componentCost(component, prices.get(component.resourceId) ?? 0),
+  }));
+  return { components: priced, rate: sumMoney(priced.map((component) => component.cost)) };
+}
@@ -1,113 +1,64 @@
-import { useState } from 'react'
-import './App.css'
-// import type { ToastType } from './components/Toast';
+import { Navigate, NavLink, Route, Routes } from 'react-router';
+import './App.css';
+import { useAuth } from './hooks/useAuth';
 import { ModelList } from './pages/ModelList';
-import { models } from './Utilities/mockdata'; 
 import { ModelDetail } from './pages/ModelDetail';
-
-type PageType = 'list' | 'detail';
-
-// interface ToastItem {
-//   id: string;
-//   message: string;
-//   type: ToastType;
-// }
+import { ModelRevisions } from './pages/ModelRevisions';
+import { Benchmarks } from './pages/Benchmarks';
+import { Compare } from './pages/Compare';
+import { Templates } from './pages/Templates';
+import { RateLibrary } from './pages/RateLibrary';
+import { NotFound } from './pages/NotFound';
 
 function App() {
-  // Routing state - which page to show
-  const [currentPage, setCurrentPage] = useState<PageType>('list');
-
-  // Selected model ID for detail page
-  const [selectedModelId, setSelectedModelId] = useState<string | null>(null);
-
-  // Toast notifications state
-  // const [toasts, setToasts] = useState<ToastItem[]>([]) ;
+  const { user, logout } = useAuth();
 
-  // Event handler: Navigate to model detail page
-  const handleSelectModel = (modelId: string) => {
-    console.log('App: Navigating to model', modelId);
-    setSelectedModelId(modelId);
-    setCurrentPage('detail');
-  };
-
-  // Event handler: Navigate back to model list
-  const handleBackToList = () => {
-    console.log('App: Navigating back to list');
-    setCurrentPage('list');
-    setSelectedModelId(null);
-  };
-
-
-return (
+  return (
     <div className="app">
       <header>
         <h1>Cost Insight Dashboard</h1>
-
+        <nav>
+          <NavLink to="/models" end>
+            Models
+          </NavLink>
+          {' · '}
+          <NavLink to="/templates">Templates</NavLink>
+          {' · '}
+          <NavLink to="/rates">Rate Library</NavLink>
+          {' · '}
+          <NavLink to="/compare">Compare</NavLink>
+          {' · '}
+          <NavLink to="/benchmarks">Benchmarks</NavLink>
+        </nav>
+        {user && (
+          <div className="user-menu">
+            {user.displayName} ({user.role}){' '}
+            <button onClick={logout}>Sign out</button>
+          </div>
+        )}
       </header>
 
       <main>
         {/*
-          Conditional Rendering - Simple Routing
+          URL Routing
 
-          Show either ModelList OR ModelDetail based on currentPage state.
-          Components now fetch their own data from the backend API!
+          Each page reads its parameters (e.g. the model id) from the URL.
+          Components fetch their own data from the backend API.
         */}
-        {currentPage === 'list' && (
-          <ModelList models={models} handleViewDetails={handleSelectModel} />
-        )}
-
-        {currentPage === 'detail' && selectedModelId && (
-          <ModelDetail modelId={selectedModelId} onBack={handleBackToList} />
-        )}
+        <Routes>
+          <Route path="/" element={<Navigate to="/models" replace />} />
+          <Route path="/models" element={<ModelList />} />
+          <Route path="/models/:id" element={<ModelDetail />} />
+          <Route path="/models/:id/revisions" element={<ModelRevisions />} />
+          <Route path="/templates" element={<Templates />} />
+          <Route path="/rates" element={<RateLibrary />} />
+          <Route path="/compare" element={<Compare />} />
+          <Route path="/benchmarks" element={<Benchmarks />} />
+          <Route path="*" element={<NotFound />} />
+        </Routes>
       </main>
+    </div>
+  );
+}
 
-
-
-    <footer className="app-footer">
-      <div className="composition-info type-info">
-        <h3>Frontend-Backend Integration</h3>
-        
-        <p>
-          <strong>Current State:</strong>
-
-          • Page: {currentPage}
-
-          • Selected Model ID: <code>{selectedModelId || 'none'}</code>
-
-        </p>
-        <p>
-          <strong>How API integration works:</strong>
-
-          1. <strong>Vite proxy:</strong> Forwards /api requests to backend (localhost:3001)
-
-          2. <strong>Components fetch data:</strong> ModelList and ModelDetail use custom hooks
-
-          3. <strong>Loading states:</strong> Components show loading while fetching
-
-          4. <strong>Error handling:</strong> Graceful error messages with retry
-
-          5. <strong>Real-time updates:</strong> Refresh button re-fetches data
-        </p>
-        <p>
-          <strong>Phase 5 patterns demonstrated:</strong>
-
-          ✅ Vite proxy configuration for API
-
-          ✅ Fetch API with async/await
-
-          ✅ Custom hooks (useFetchModels, useFetchModelById)
-
-          ✅ Loading and error states
-
-          ✅ useEffect for data fetching on mount
-
-          ✅ Type-safe API client
-
-          ✅ Error handling and user feedback
-        </p>
-      </div>
-    </footer>
-  </div>
-);
-};
 export default App;
\ No newline at end of file
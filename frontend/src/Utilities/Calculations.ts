@@ -1,16 +1,15 @@
 import type { MeasuredWork } from '../types/models';
+import { multiplyMoney, sumMoney } from './money';
 
+// quantity × unit rate, rounded half-up to the penny (see ./money.ts)
 export function calculateCost(quantity: number, unitPrice: number): number {
-    const q = Number(quantity) || 0;
-    const p = Number(unitPrice) || 0;
-    const total = q * p;
-    // Round to 2 decimal places to avoid floating point precision issues
-    return Math.round((total + Number.EPSILON) * 100) / 100;
+    return multiplyMoney(quantity, unitPrice);
 }
 
+// Exact sum of the (already rounded) line totals
 export function sumMeasuredWorks(works : MeasuredWork[]): number {
 
-    return works.reduce((acc, work) => acc + work.totalCost, 0);
+    return sumMoney(works.map(work => work.totalCost));
 
 }
 export function groupByElementCode(works: MeasuredWork[]): Map<string, MeasuredWork[]> {
@@ -28,23 +27,3 @@ export function groupByElementCode(works: MeasuredWork[]): Map<string, MeasuredW
 
   return groups;
 }
-
-// frontend/src/components/Currency.tsx:20-66
-interface CurrencyProps {
-  amount: number;
-  showSymbol?: boolean;
-}
-
-export function Currency({ amount, showSymbol = true }: CurrencyProps):{
-  const formatted = amount.toLocaleString('en-GB', {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2
-  });
-
-  return (
-    <span>
-      {showSymbol && '£'}
-      {formatted}
-    </span>
-  );
-}
\ No newline at end of file
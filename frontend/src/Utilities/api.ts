@@ -0,0 +1,330 @@
+import type {
+  ApiErrorBody,
+  Endpoints,
+  PathParams,
+  RequestBody,
+  RequestQuery,
+  ResponseBody,
+  Route,
+} from '../../../shared/api';
+import type {
+  CompositeRate,
+  CompositeRateInput,
+  CostModel,
+  CostModelPatch,
+  ImportPreview,
+  MeasuredWork,
+  MeasuredWorkInput,
+  RateImpact,
+  Resource,
+  ResourceInput,
+  RevisionSummary,
+  SignIn,
+  TemplateModelInput,
+  TemplateModelResult,
+  TemplateSummary,
+  TransitionAction,
+  User,
+} from '../types/models';
+import { clearQueries, invalidateQueries } from './queryCache';
+
+/**
+ * Dispatched on window whenever the API answers 401, so the app can drop
+ * back to the sign-in page when a session expires mid-use
+ */
+export const UNAUTHORIZED_EVENT = 'api:unauthorized';
+
+/**
+ * Error returned by the backend API
+ *
+ * Carries the HTTP status and the { error, message, details } body the
+ * server sends, so callers can show the server's own message. A 409 for a
+ * stale write also carries the server's current copy. Status 0 means the
+ * server couldn't be reached at all.
+ */
+export class ApiError extends Error {
+  status: number;
+  details?: { path: string; message: string }[];
+  current?: unknown;
+
+  constructor(status: number, message: string, details?: { path: string; message: string }[], current?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.details = details;
+    this.current = current;
+  }
+}
+
+/**
+ * The server's current copy when a write was refused because someone else
+ * changed the model or work first
+ */
+export function staleCopy<T>(err: unknown): T | undefined {
+  return err instanceof ApiError && err.status === 409 ? (err.current as T | undefined) : undefined;
+}
+
+/**
+ * One-line description of a failed request, including the server's
+ * per-field validation messages when there are any
+ */
+export function errorMessage(err: unknown): string {
+  if (err instanceof ApiError && err.details?.length) {
+    return `${err.message}: ${err.details.map((d) => `${d.path} - ${d.message}`).join('; ')}`;
+  }
+  return (err as Error).message;
+}
+
+type PathOf<R extends Route> = R extends `${string} ${infer Path}` ? Path : never;
+
+/**
+ * What a route needs besides its name: path parameters, query, body and,
+ * for a change to an existing model or work, the updatedAt of the copy
+ * being changed (sent as If-Match)
+ */
+export type RequestOptions<R extends Route> = ([keyof PathParams<PathOf<R>>] extends [never]
+  ? unknown
+  : { params: PathParams<PathOf<R>> }) &
+  ([RequestQuery<R>] extends [never] ? unknown : { query?: RequestQuery<R> }) &
+  ([RequestBody<R>] extends [never] ? unknown : { body: RequestBody<R> }) &
+  (Endpoints[R] extends { ifMatch: true } ? { version: string } : unknown);
+
+// Options can be left out altogether when none are required
+export type OptionsArgument<R extends Route> =
+  Partial<RequestOptions<R>> extends RequestOptions<R> ? [options?: RequestOptions<R>] : [options: RequestOptions<R>];
+
+interface AnyOptions {
+  params?: Record<string, string>;
+  query?: Record<string, unknown>;
+  body?: unknown;
+  version?: string;
+}
+
+/**
+ * Path (under /api) and query string a request goes to; reads are cached
+ * under it. Arrays in the query are sent comma-separated and empty values
+ * left out.
+ */
+export function requestPath<R extends Route>(route: R, ...[options]: OptionsArgument<R>): string {
+  const { params = {}, query = {} } = (options ?? {}) as AnyOptions;
+  const path = route
+    .slice(route.indexOf(' ') + 1)
+    .replace(/\{(\w+)\}/g, (_, name: string) => encodeURIComponent(params[name]));
+  const search = new URLSearchParams();
+  for (const [name, value] of Object.entries(query).sort(([a], [b]) => a.localeCompare(b))) {
+    if (value === undefined || value === null || value === '' || (Array.isArray(value) && value.length === 0)) {
+      continue;
+    }
+    search.set(name, Array.isArray(value) ? value.join(',') : String(value));
+  }
+  const queryString = search.toString();
+  return queryString ? `${path}?${queryString}` : path;
+}
+
+async function send<T>(method: string, path: string, { body, version }: AnyOptions): Promise<T> {
+  let response: Response;
+  try {
+    // Proxied to the backend by Vite
+    response = await fetch(`/api${path}`, {
+      method,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(version && { 'If-Match': `"${version}"` }),
+      },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch {
+    throw new ApiError(0, 'Could not reach the server; check your connection and try again');
+  }
+
+  if (!response.ok) {
+    const error: Partial<ApiErrorBody> | null = await response.json().catch(() => null);
+    if (response.status === 401) {
+      clearQueries();
+      window.dispatchEvent(new Event(UNAUTHORIZED_EVENT));
+    }
+    throw new ApiError(
+      response.status,
+      error?.message || `Request failed (${response.status})`,
+      error?.details,
+      error?.current
+    );
+  }
+
+  return response.status === 204 ? (undefined as T) : response.json();
+}
+
+// Waits before each retry of a read that failed for a reason that may pass
+const RETRY_DELAYS = [500, 1500];
+
+function transient(err: unknown): boolean {
+  return err instanceof ApiError && (err.status === 0 || err.status === 429 || err.status >= 500);
+}
+
+/**
+ * Call an API route, typed from the contract in shared/api.ts
+ *
+ * GETs that fail because the server couldn't be reached or had a problem
+ * are retried twice before giving up; writes are never retried, since the
+ * first attempt may have gone through.
+ */
+export async function api<R extends Route>(route: R, ...[options]: OptionsArgument<R>): Promise<ResponseBody<R>> {
+  const method = route.slice(0, route.indexOf(' '));
+  const path = requestPath(route, ...([options] as OptionsArgument<R>));
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await send<ResponseBody<R>>(method, path, (options ?? {}) as AnyOptions);
+    } catch (err) {
+      if (method !== 'GET' || !transient(err) || attempt >= RETRY_DELAYS.length) {
+        throw err;
+      }
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAYS[attempt]));
+    }
+  }
+}
+
+// Everything a change to a model or its works can show up in: the model
+// list, the model and what hangs off it, benchmarks and comparisons
+const MODEL_READS = ['/models', '/benchmarks', '/compare'];
+
+export async function updateModel(modelId: string, changes: CostModelPatch, version: string): Promise<CostModel> {
+  const model = await api('PATCH /models/{id}', { params: { id: modelId }, body: changes, version });
+  invalidateQueries(...MODEL_READS);
+  return model;
+}
+
+export async function transitionModel(modelId: string, action: TransitionAction, version: string): Promise<CostModel> {
+  // The server records the signed-in user as the approver
+  const model = await api('POST /models/{id}/transitions', { params: { id: modelId }, body: { action }, version });
+  invalidateQueries(...MODEL_READS);
+  return model;
+}
+
+export type WorksImportRequest = RequestBody<'POST /models/{id}/works/import'>;
+
+export function previewWorksImport(modelId: string, body: WorksImportRequest): Promise<ImportPreview> {
+  return api('POST /models/{id}/works/import/preview', { params: { id: modelId }, body });
+}
+
+export async function importWorks(modelId: string, body: WorksImportRequest): Promise<MeasuredWork[]> {
+  const works = await api('POST /models/{id}/works/import', { params: { id: modelId }, body });
+  invalidateQueries(...MODEL_READS);
+  return works;
+}
+
+// totalCost is always calculated by the server
+export async function createWork(modelId: string, input: MeasuredWorkInput): Promise<MeasuredWork> {
+  const work = await api('POST /models/{id}/works', { params: { id: modelId }, body: input });
+  invalidateQueries(...MODEL_READS);
+  return work;
+}
+
+export async function updateWork(
+  modelId: string,
+  workId: string,
+  input: MeasuredWorkInput,
+  version: string
+): Promise<MeasuredWork> {
+  const work = await api('PUT /models/{id}/works/{workId}', { params: { id: modelId, workId }, body: input, version });
+  invalidateQueries(...MODEL_READS);
+  return work;
+}
+
+export async function deleteWork(modelId: string, workId: string, version: string): Promise<void> {
+  await api('DELETE /models/{id}/works/{workId}', { params: { id: modelId, workId }, version });
+  invalidateQueries(...MODEL_READS);
+}
+
+export async function saveRevision(modelId: string, label: string): Promise<RevisionSummary> {
+  const revision = await api('POST /models/{id}/revisions', { params: { id: modelId }, body: { label } });
+  invalidateQueries(`/models/${modelId}/revisions`);
+  return revision;
+}
+
+// Sessions use an HttpOnly cookie set by the server, so no token is kept
+// here; nothing cached for the previous user is kept either
+export async function login(username: string, password: string): Promise<SignIn> {
+  const signIn = await api('POST /auth/login', { body: { username, password } });
+  clearQueries();
+  return signIn;
+}
+
+export async function logout(): Promise<void> {
+  await api('POST /auth/logout');
+  clearQueries();
+}
+
+export function fetchCurrentUser(): Promise<User> {
+  return api('GET /auth/me');
+}
+
+// Copies the model and its works as a new draft prepared by the signed-in user
+export async function duplicateModel(modelId: string, projectName?: string): Promise<CostModel> {
+  const model = await api('POST /models/{id}/duplicate', { params: { id: modelId }, body: { projectName } });
+  invalidateQueries(...MODEL_READS);
+  return model;
+}
+
+export async function saveTemplate(modelId: string, name: string, description?: string): Promise<TemplateSummary> {
+  const template = await api('POST /models/{id}/template', { params: { id: modelId }, body: { name, description } });
+  invalidateQueries('/templates');
+  return template;
+}
+
+export async function createModelFromTemplate(
+  templateId: string,
+  input: TemplateModelInput
+): Promise<TemplateModelResult> {
+  const result = await api('POST /templates/{id}/models', { params: { id: templateId }, body: input });
+  invalidateQueries(...MODEL_READS);
+  return result;
+}
+
+export async function deleteTemplate(templateId: string): Promise<void> {
+  await api('DELETE /templates/{id}', { params: { id: templateId } });
+  invalidateQueries('/templates');
+}
+
+// A new price reprices every composite rate using the resource and every
+// linked work in a draft model; previewResource shows the effect first
+export async function createResource(input: ResourceInput): Promise<Resource> {
+  const resource = await api('POST /resources', { body: input });
+  invalidateQueries('/resources');
+  return resource;
+}
+
+export function previewResource(resourceId: string, changes: Partial<ResourceInput>): Promise<RateImpact> {
+  return api('POST /resources/{id}/preview', { params: { id: resourceId }, body: changes });
+}
+
+export async function updateResource(resourceId: string, changes: Partial<ResourceInput>): Promise<Resource> {
+  const resource = await api('PATCH /resources/{id}', { params: { id: resourceId }, body: changes });
+  invalidateQueries('/resources', '/rates', ...MODEL_READS);
+  return resource;
+}
+
+export async function deleteResource(resourceId: string): Promise<void> {
+  await api('DELETE /resources/{id}', { params: { id: resourceId } });
+  invalidateQueries('/resources');
+}
+
+export async function createRate(input: CompositeRateInput): Promise<CompositeRate> {
+  const rate = await api('POST /rates', { body: input });
+  invalidateQueries('/rates');
+  return rate;
+}
+
+export function previewRate(rateId: string, input: CompositeRateInput): Promise<RateImpact> {
+  return api('POST /rates/{id}/preview', { params: { id: rateId }, body: input });
+}
+
+export async function replaceRate(rateId: string, input: CompositeRateInput): Promise<CompositeRate> {
+  const rate = await api('PUT /rates/{id}', { params: { id: rateId }, body: input });
+  invalidateQueries('/rates', ...MODEL_READS);
+  return rate;
+}
+
+export async function deleteRate(rateId: string): Promise<void> {
+  await api('DELETE /rates/{id}', { params: { id: rateId } });
+  invalidateQueries('/rates');
+}
@@ -0,0 +1,34 @@
+import type { DimensionLine, MeasuredWork } from '../types/models';
+import { sumProducts } from './money';
+
+/**
+ * Dimension-sheet build-ups - client-side copy of backend/utils/dimensions.ts
+ *
+ * Each line is timesing × the dimensions the unit needs; deductions are
+ * subtracted, and the total is rounded to 2 decimal places once.
+ */
+
+export type Dimension = 'length' | 'width' | 'depth';
+
+/**
+ * Dimensions each unit is measured with. Numbered items are counted with
+ * timesing alone; lump sums and tonnages aren't built up from dimensions.
+ */
+export const UNIT_DIMENSIONS: Record<MeasuredWork['unit'], Dimension[] | null> = {
+  m: ['length'],
+  m2: ['length', 'width'],
+  m3: ['length', 'width', 'depth'],
+  nr: [],
+  t: null,
+  ls: null,
+};
+
+export function buildUpQuantity(lines: DimensionLine[], unit: MeasuredWork['unit']): number {
+  const used = UNIT_DIMENSIONS[unit] ?? [];
+  return sumProducts(
+    lines.map((line) => ({
+      factors: [line.timesing, ...used.map((dimension) => line[dimension] ?? 0)],
+      negative: line.deduction,
+    }))
+  );
+}
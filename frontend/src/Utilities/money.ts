@@ -0,0 +1,21 @@
+/**
+ * Exact decimal money arithmetic
+ *
+ * The same arithmetic the server uses (shared/utils/money.ts), so live
+ * totals in the UI match what it stores, plus display formatting.
+ */
+
+import { toPence } from '../../../shared/utils/money';
+
+export * from '../../../shared/utils/money';
+
+/**
+ * en-GB display string to exactly 2 decimal places, e.g. 1234567.5 → "1,234,567.50"
+ */
+export function formatMoney(amount: number): string {
+  const pence = toPence(amount);
+  const negative = pence < 0n;
+  const digits = (negative ? -pence : pence).toString().padStart(3, '0');
+  const pounds = digits.slice(0, -2).replace(/\B(?=(\d{3})+(?!\d))/g, ',');
+  return `${negative ? '-' : ''}${pounds}.${digits.slice(-2)}`;
+}
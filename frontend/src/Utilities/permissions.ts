@@ -0,0 +1,30 @@
+import type { Role, TransitionAction, User } from '../types/models';
+
+/**
+ * Role permissions - client-side copy of backend/services/permissions.ts
+ *
+ * Used to hide controls the user can't use; the server still enforces
+ * every rule and answers 403 otherwise.
+ */
+export const permissions = {
+  editModels: ['estimator', 'admin'],
+  approveModels: ['reviewer'],
+  reopenModels: ['reviewer', 'admin'],
+  archiveModels: ['admin'],
+  deleteModels: ['admin'],
+  manageRates: ['estimator', 'admin'],
+  manageIndices: ['admin'],
+  manageUsers: ['admin'],
+} as const satisfies Record<string, readonly Role[]>;
+
+export type Permission = keyof typeof permissions;
+
+export const transitionPermissions: Record<TransitionAction, Permission> = {
+  approve: 'approveModels',
+  archive: 'archiveModels',
+  reopen: 'reopenModels',
+};
+
+export function can(user: Pick<User, 'role'> | null, permission: Permission): boolean {
+  return !!user && (permissions[permission] as readonly Role[]).includes(user.role);
+}
@@ -0,0 +1,157 @@
+/**
+ * Query cache
+ *
+ * Holds the result of every read the hooks make, keyed by its API path, so
+ * screens that need the same data share one request and show what they had
+ * straight away when revisited. Data older than STALE_AFTER is shown while
+ * it is fetched again in the background, and a failed background fetch
+ * leaves it as it was. Writes call invalidateQueries() with the paths they
+ * affect: anything on screen under those paths is fetched again, the rest
+ * the next time it is shown.
+ */
+
+export interface QueryState<T> {
+  data: T | undefined;
+  error: Error | null;
+  // True while there is nothing to show yet
+  loading: boolean;
+}
+
+interface Entry {
+  state: QueryState<unknown>;
+  fetcher?: () => Promise<unknown>;
+  // 0 when never fetched or invalidated
+  fetchedAt: number;
+  inFlight?: Promise<void>;
+  // Invalidated while a fetch was in flight, so its result is already old
+  invalidated: boolean;
+  listeners: Set<() => void>;
+  evictTimer?: ReturnType<typeof setTimeout>;
+}
+
+const STALE_AFTER = 30_000;
+// Unused entries are dropped after this long
+const KEEP_UNUSED = 5 * 60_000;
+
+// A key with no entry yet is about to be fetched by the hook that read it
+const PENDING: QueryState<never> = { data: undefined, error: null, loading: true };
+
+const entries = new Map<string, Entry>();
+
+function entryFor(key: string): Entry {
+  let entry = entries.get(key);
+  if (!entry) {
+    entry = { state: PENDING, fetchedAt: 0, invalidated: false, listeners: new Set() };
+    entries.set(key, entry);
+  }
+  return entry;
+}
+
+function update(entry: Entry, changes: Partial<QueryState<unknown>>): void {
+  entry.state = { ...entry.state, ...changes };
+  entry.listeners.forEach((listener) => listener());
+}
+
+function run(entry: Entry): Promise<void> {
+  if (entry.inFlight || !entry.fetcher) {
+    return entry.inFlight ?? Promise.resolve();
+  }
+  if (entry.state.data === undefined) {
+    update(entry, { loading: true, error: null });
+  }
+  entry.invalidated = false;
+  entry.inFlight = entry
+    .fetcher()
+    .then(
+      (data) => {
+        entry.fetchedAt = Date.now();
+        update(entry, { data, error: null, loading: false });
+      },
+      (error: Error) => {
+        update(entry, entry.state.data === undefined ? { error, loading: false } : { loading: false });
+      }
+    )
+    .finally(() => {
+      entry.inFlight = undefined;
+      if (entry.invalidated && entry.listeners.size > 0) {
+        run(entry);
+      }
+    });
+  return entry.inFlight;
+}
+
+export function readQuery<T>(key: string): QueryState<T> {
+  return (entries.get(key)?.state ?? PENDING) as QueryState<T>;
+}
+
+export function subscribe(key: string, listener: () => void): () => void {
+  const entry = entryFor(key);
+  clearTimeout(entry.evictTimer);
+  entry.listeners.add(listener);
+  return () => {
+    entry.listeners.delete(listener);
+    if (entry.listeners.size === 0) {
+      entry.evictTimer = setTimeout(() => entries.delete(key), KEEP_UNUSED);
+    }
+  };
+}
+
+/**
+ * Fetch a key unless it holds fresh data; force fetches it regardless
+ */
+export function loadQuery<T>(key: string, fetcher: () => Promise<T>, { force = false } = {}): Promise<void> {
+  const entry = entryFor(key);
+  entry.fetcher = fetcher;
+  if (force || entry.state.error || Date.now() - entry.fetchedAt > STALE_AFTER) {
+    return run(entry);
+  }
+  return entry.inFlight ?? Promise.resolve();
+}
+
+/**
+ * Replace what a key holds, e.g. with the result of a write, without
+ * fetching it again
+ */
+export function setQueryData<T>(key: string, updater: T | ((current: T | undefined) => T)): void {
+  const entry = entryFor(key);
+  const data =
+    typeof updater === 'function' ? (updater as (current: T | undefined) => T)(entry.state.data as T | undefined) : updater;
+  update(entry, { data, error: null, loading: false });
+}
+
+function matches(key: string, path: string): boolean {
+  return key === path || key.startsWith(`${path}/`) || key.startsWith(`${path}?`);
+}
+
+/**
+ * Mark every key at or under the given paths as out of date, e.g. '/models'
+ * covers the list, each model and everything under it; with no paths,
+ * everything is
+ */
+export function invalidateQueries(...paths: string[]): void {
+  for (const [key, entry] of entries) {
+    if (paths.length > 0 && !paths.some((path) => matches(key, path))) {
+      continue;
+    }
+    entry.fetchedAt = 0;
+    if (entry.inFlight) {
+      entry.invalidated = true;
+    } else if (entry.listeners.size > 0) {
+      run(entry);
+    }
+  }
+}
+
+/**
+ * Forget everything, e.g. when the user signs out
+ */
+export function clearQueries(): void {
+  for (const [key, entry] of entries) {
+    if (entry.listeners.size === 0) {
+      clearTimeout(entry.evictTimer);
+      entries.delete(key);
+    } else {
+      entry.fetchedAt = 0;
+    }
+  }
+}
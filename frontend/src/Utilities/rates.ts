@@ -0,0 +1,28 @@
+import type { RateComponent, RateComponentInput } from '../types/models';
+import { divideMoney, sumMoney, sumProducts } from './money';
+
+/**
+ * Composite rate pricing - client-side copy of backend/utils/rates.ts
+ *
+ * Each component costs price × quantity (or price ÷ output) plus wastage,
+ * rounded to the penny; the rate is the sum of the component costs.
+ */
+
+export function componentCost({ quantity, output, wastage }: RateComponentInput, price: number): number {
+  const terms = (factor: number) => [{ factors: [price, factor] }, { factors: [price, factor, wastage, 0.01] }];
+  if (quantity !== undefined) {
+    return sumProducts(terms(quantity));
+  }
+  return divideMoney(sumProducts(terms(1)), output ?? 1);
+}
+
+export function priceComponents(
+  components: RateComponentInput[],
+  prices: Map<string, number>
+): { components: RateComponent[]; rate: number } {
+  const priced = components.map((component) => ({
+    ...component,
+    cost: componentCost(component, prices.get(component.resourceId) ?? 0),
+  }));
+  return { components: priced, rate: sumMoney(priced.map((component) => component.cost)) };
+}
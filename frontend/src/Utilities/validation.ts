@@ -0,0 +1,39 @@
+import { decimalPlaces } from './money';
+
+interface DecimalRules {
+  min?: number;
+  max?: number;
+  required?: boolean;
+  // Decimal places allowed; 2 unless given
+  places?: number;
+}
+
+/**
+ * Check a decimal field's text against the same rules the server applies
+ * (at most 2 decimal places, or the field's own limit) plus its min/max
+ *
+ * Returns the message to show, or undefined when the value is acceptable.
+ */
+export function decimalError(
+  value: string,
+  { min, max, required = false, places = 2 }: DecimalRules = {}
+): string | undefined {
+  const text = value.trim();
+  if (text === '') {
+    return required ? 'Required' : undefined;
+  }
+  const n = Number(text);
+  if (!Number.isFinite(n)) {
+    return 'Must be a number';
+  }
+  if (decimalPlaces(n) > places) {
+    return `At most ${places} decimal places`;
+  }
+  if (min !== undefined && n < min) {
+    return `Must be at least ${min}`;
+  }
+  if (max !== undefined && n > max) {
+    return `Must be at most ${max.toLocaleString('en-GB')}`;
+  }
+  return undefined;
+}
@@ -0,0 +1,211 @@
+import type { DimensionLine, MeasuredWork, MeasuredWorkInput, Range } from '../types/models';
+import { calculateCost } from './Calculations';
+import { buildUpQuantity, UNIT_DIMENSIONS } from './dimensions';
+import { decimalError } from './validation';
+
+/**
+ * A dimension line being edited; numbers are kept as typed, like the rest
+ * of the draft
+ */
+export interface DimensionDraft {
+  description: string;
+  timesing: string;
+  length: string;
+  width: string;
+  depth: string;
+  deduction: boolean;
+}
+
+/**
+ * Three-point ranges being edited; a value whose min and max are both
+ * blank has no range
+ */
+export interface RangesDraft {
+  quantityMin: string;
+  quantityMax: string;
+  unitRateMin: string;
+  unitRateMax: string;
+}
+
+/**
+ * A measured work line being edited in the table
+ *
+ * Quantity and rate are kept as the text typed so partial input like "12."
+ * survives re-renders; they are only converted to numbers when saving.
+ */
+export interface WorkDraft {
+  elementCode: string;
+  description: string;
+  quantity: string;
+  unit: MeasuredWork['unit'];
+  unitRate: string;
+  notes: string;
+  /**
+   * Library rate the unit rate follows, or '' when it is typed in
+   */
+  rateId: string;
+  /**
+   * Take-off the quantity is calculated from, or null when it is typed in
+   */
+  buildUp: DimensionDraft[] | null;
+  /**
+   * Low and high estimates around the quantity and unit rate, or null
+   * when neither has a range
+   */
+  ranges: RangesDraft | null;
+}
+
+export const QUANTITY_LIMITS = { min: 0, max: 10_000_000, required: true };
+export const RATE_LIMITS = { min: 0, max: 100_000_000, required: true };
+// Dimensions are taken off to the millimetre
+export const DIMENSION_LIMITS = { min: 0.001, max: 100_000, required: true, places: 3 };
+
+export const emptyRanges: RangesDraft = { quantityMin: '', quantityMax: '', unitRateMin: '', unitRateMax: '' };
+
+export const emptyDimension: DimensionDraft = {
+  description: '',
+  timesing: '1',
+  length: '',
+  width: '',
+  depth: '',
+  deduction: false,
+};
+
+export const emptyDraft: WorkDraft = {
+  elementCode: '',
+  description: '',
+  quantity: '',
+  unit: 'm2',
+  unitRate: '',
+  notes: '',
+  rateId: '',
+  buildUp: null,
+  ranges: null,
+};
+
+export function toDraft(work: MeasuredWork): WorkDraft {
+  return {
+    elementCode: work.elementCode,
+    description: work.description,
+    quantity: String(work.quantity),
+    unit: work.unit,
+    unitRate: String(work.unitRate),
+    notes: work.notes ?? '',
+    rateId: work.rateId ?? '',
+    buildUp: work.buildUp?.length
+      ? work.buildUp.map((line) => ({
+          description: line.description,
+          timesing: String(line.timesing),
+          length: line.length === undefined ? '' : String(line.length),
+          width: line.width === undefined ? '' : String(line.width),
+          depth: line.depth === undefined ? '' : String(line.depth),
+          deduction: line.deduction,
+        }))
+      : null,
+    ranges:
+      work.quantityRange || work.unitRateRange
+        ? {
+            quantityMin: work.quantityRange ? String(work.quantityRange.min) : '',
+            quantityMax: work.quantityRange ? String(work.quantityRange.max) : '',
+            unitRateMin: work.unitRateRange ? String(work.unitRateRange.min) : '',
+            unitRateMax: work.unitRateRange ? String(work.unitRateRange.max) : '',
+          }
+        : null,
+  };
+}
+
+// The build-up's lines with only the dimensions the unit uses
+function draftBuildUp(draft: WorkDraft): DimensionLine[] {
+  const used = UNIT_DIMENSIONS[draft.unit] ?? [];
+  return (draft.buildUp ?? []).map((line) => ({
+    description: line.description.trim(),
+    timesing: Number(line.timesing),
+    ...Object.fromEntries(used.map((dimension) => [dimension, Number(line[dimension])])),
+    deduction: line.deduction,
+  }));
+}
+
+// Quantity as it will be saved: typed, or calculated from the build-up
+export function draftQuantity(draft: WorkDraft): number {
+  return draft.buildUp ? buildUpQuantity(draftBuildUp(draft), draft.unit) : Number(draft.quantity);
+}
+
+// Live line total while typing; invalid input counts as zero
+export function draftTotal(draft: WorkDraft): number {
+  return calculateCost(draftQuantity(draft), Number(draft.unitRate));
+}
+
+// One value's range as it will be saved; undefined when both ends are blank
+function draftRange(min: string, max: string): Range | undefined {
+  return min.trim() === '' && max.trim() === '' ? undefined : { min: Number(min), max: Number(max) };
+}
+
+function rangeError(name: string, min: string, max: string, value: number, limits: typeof QUANTITY_LIMITS): string | undefined {
+  const range = draftRange(min, max);
+  if (!range) {
+    return undefined;
+  }
+  const error = decimalError(min, limits) ?? decimalError(max, limits);
+  if (error) {
+    return `${name} range: ${error}`;
+  }
+  return range.min <= value && value <= range.max ? undefined : `${name} range must include ${value}`;
+}
+
+function buildUpError(draft: WorkDraft): string | undefined {
+  const used = UNIT_DIMENSIONS[draft.unit];
+  if (used === null) {
+    return `Quantities in ${draft.unit} can't be built up from dimensions`;
+  }
+  const invalid = draft.buildUp!.some(
+    (line) =>
+      decimalError(line.timesing, DIMENSION_LIMITS) !== undefined ||
+      used.some((dimension) => decimalError(line[dimension], DIMENSION_LIMITS) !== undefined)
+  );
+  if (invalid) {
+    return 'Check the dimensions';
+  }
+  if (draftQuantity(draft) < 0) {
+    return 'Deductions are larger than the measured quantity';
+  }
+  return undefined;
+}
+
+export function draftErrors(draft: WorkDraft): Partial<Record<keyof WorkDraft, string>> {
+  const errors: Partial<Record<keyof WorkDraft, string>> = {};
+  if (!draft.elementCode.trim()) errors.elementCode = 'Required';
+  if (draft.buildUp) {
+    const buildUp = buildUpError(draft);
+    if (buildUp) errors.buildUp = buildUp;
+  } else {
+    const quantity = decimalError(draft.quantity, QUANTITY_LIMITS);
+    if (quantity) errors.quantity = quantity;
+  }
+  const unitRate = decimalError(draft.unitRate, RATE_LIMITS);
+  if (unitRate) errors.unitRate = unitRate;
+  if (draft.ranges) {
+    const { quantityMin, quantityMax, unitRateMin, unitRateMax } = draft.ranges;
+    const ranges =
+      rangeError('Quantity', quantityMin, quantityMax, draftQuantity(draft), QUANTITY_LIMITS) ??
+      rangeError('Unit rate', unitRateMin, unitRateMax, Number(draft.unitRate), RATE_LIMITS);
+    if (ranges) errors.ranges = ranges;
+  }
+  return errors;
+}
+
+export function draftToInput(draft: WorkDraft): MeasuredWorkInput {
+  return {
+    elementCode: draft.elementCode.trim(),
+    description: draft.description.trim(),
+    quantity: draftQuantity(draft),
+    unit: draft.unit,
+    unitRate: Number(draft.unitRate),
+    ...(draft.notes.trim() && { notes: draft.notes.trim() }),
+    ...(draft.buildUp && { buildUp: draftBuildUp(draft) }),
+    ...(draft.rateId && { rateId: draft.rateId }),
+    ...(draft.ranges && {
+      quantityRange: draftRange(draft.ranges.quantityMin, draft.ranges.quantityMax),
+      unitRateRange: draftRange(draft.ranges.unitRateMin, draft.ranges.unitRateMax),
+    }),
+  };
+}
@@ -0,0 +1,21 @@
+import type { CostModel, TransitionAction } from '../types/models';
+
+type ModelStatus = CostModel['status'];
+
+/**
+ * Status workflow - client-side copy of backend/services/workflow.ts
+ *
+ * Used to decide which transition buttons to offer; the server still
+ * enforces the rules.
+ */
+export const transitions: Record<TransitionAction, { from: ModelStatus[]; label: string }> = {
+  approve: { from: ['draft'], label: 'Approve' },
+  archive: { from: ['draft', 'approved'], label: 'Archive' },
+  reopen: { from: ['approved', 'archived'], label: 'Reopen' },
+};
+
+export function availableActions(status: ModelStatus): TransitionAction[] {
+  return (Object.keys(transitions) as TransitionAction[]).filter((action) =>
+    transitions[action].from.includes(status)
+  );
+}
@@ -0,0 +1,135 @@
+import { useState } from 'react';
+import { useFetchAudit } from '../hooks/useApi';
+import type { AuditEntry, AuditFilters } from '../types/models';
+
+interface AuditTimelineProps {
+  modelId: string;
+}
+
+// Cost model and measured work fields, offered in the field filter
+const FIELDS = [
+  'projectName',
+  'projectRef',
+  'client',
+  'gifa',
+  'status',
+  'preparedBy',
+  'addOns',
+  'baseDate',
+  'constructionStart',
+  'constructionCompletion',
+  'risks',
+  'approvedBy',
+  'approvedAt',
+  'elementCode',
+  'elementName',
+  'description',
+  'quantity',
+  'unit',
+  'unitRate',
+  'quantityRange',
+  'unitRateRange',
+  'totalCost',
+  'notes',
+];
+
+const ACTION_LABELS: Record<AuditEntry['action'], string> = {
+  create: 'created',
+  update: 'changed',
+  delete: 'deleted',
+  status: 'changed the status of',
+};
+
+// Lists (add-ons, dimension build-ups) are summarised by their length
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  // A quantity or unit rate range
+  if (value && typeof value === 'object' && 'min' in value && 'max' in value) return `${value.min}–${value.max}`;
+  return value === undefined || value === null || value === '' ? '(none)' : String(value);
+}
+
+/**
+ * AuditTimeline - Who changed what on a model and its works, newest first
+ *
+ * Filters are sent to the server, so the list is always the full matching
+ * history rather than a filtered page of it.
+ */
+export function AuditTimeline({ modelId }: AuditTimelineProps) {
+  const [filters, setFilters] = useState<AuditFilters>({});
+  const { entries, loading, error } = useFetchAudit(modelId, filters);
+
+  const update = (changes: Partial<AuditFilters>) => setFilters((current) => ({ ...current, ...changes }));
+
+  return (
+    <details className="audit-timeline">
+      <summary>
+        <h3 style={{ display: 'inline' }}>History</h3>
+      </summary>
+
+      <div className="audit-filters">
+        <input
+          type="text"
+          value={filters.user ?? ''}
+          onChange={(e) => update({ user: e.target.value || undefined })}
+          placeholder="User"
+          aria-label="Filter by user"
+        />
+        <select
+          value={filters.field ?? ''}
+          onChange={(e) => update({ field: e.target.value || undefined })}
+          aria-label="Filter by field"
+        >
+          <option value="">Any field</option>
+          {FIELDS.map((field) => (
+            <option key={field} value={field}>
+              {field}
+            </option>
+          ))}
+        </select>
+        <label>
+          From{' '}
+          <input
+            type="date"
+            value={filters.from ?? ''}
+            max={filters.to}
+            onChange={(e) => update({ from: e.target.value || undefined })}
+          />
+        </label>
+        <label>
+          To{' '}
+          <input
+            type="date"
+            value={filters.to ?? ''}
+            min={filters.from}
+            onChange={(e) => update({ to: e.target.value || undefined })}
+          />
+        </label>
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+      {loading && entries.length === 0 && <div>Loading..</div>}
+      {!loading && !error && entries.length === 0 && <p>No changes match these filters.</p>}
+
+      <ol className="audit-entries" style={{ listStyle: 'none', paddingLeft: 0 }}>
+        {entries.map((entry) => (
+          <li key={entry.id} className={`audit-entry audit-${entry.action}`} style={{ marginBottom: '0.75em' }}>
+            <div>
+              <time dateTime={entry.timestamp}>{new Date(entry.timestamp).toLocaleString('en-GB')}</time> ·{' '}
+              <strong>{entry.actor.displayName}</strong> {ACTION_LABELS[entry.action]}{' '}
+              {entry.entity === 'model' ? 'the model' : 'work'} "{entry.entityLabel}"
+            </div>
+            {entry.action === 'update' || entry.action === 'status' ? (
+              <ul className="change-list">
+                {entry.changes.map((change) => (
+                  <li key={change.field} style={change.field === filters.field ? { fontWeight: 'bold' } : undefined}>
+                    {change.field}: {formatValue(change.from)} → {formatValue(change.to)}
+                  </li>
+                ))}
+              </ul>
+            ) : null}
+          </li>
+        ))}
+      </ol>
+    </details>
+  );
+}
@@ -0,0 +1,59 @@
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import { AuthContext, type AuthApi } from '../hooks/useAuth';
+import { useToast } from '../hooks/useToast';
+import type { User } from '../types/models';
+import { fetchCurrentUser, login as signIn, logout as signOut, UNAUTHORIZED_EVENT } from '../Utilities/api';
+import { Login } from '../pages/Login';
+
+/**
+ * AuthProvider - Session gate for the whole app
+ *
+ * Checks for an existing session on load and shows the sign-in page until
+ * there is one. A 401 from any later request (expired or revoked session)
+ * returns to the sign-in page; the URL is kept, so signing in again lands
+ * back where the user was.
+ */
+export function AuthProvider({ children }: { children: ReactNode }) {
+  const [user, setUser] = useState<User | null>(null);
+  const [checking, setChecking] = useState(true);
+  const toast = useToast();
+
+  useEffect(() => {
+    let active = true;
+    fetchCurrentUser()
+      .then((current) => active && setUser(current))
+      .catch(() => active && setUser(null))
+      .finally(() => active && setChecking(false));
+    return () => {
+      active = false;
+    };
+  }, []);
+
+  useEffect(() => {
+    const handleUnauthorized = () => setUser(null);
+    window.addEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+    return () => window.removeEventListener(UNAUTHORIZED_EVENT, handleUnauthorized);
+  }, []);
+
+  const login = useCallback(async (username: string, password: string) => {
+    const { user: signedIn } = await signIn(username, password);
+    setUser(signedIn);
+  }, []);
+
+  const logout = useCallback(async () => {
+    try {
+      await signOut();
+    } catch (err) {
+      toast.error(err, 'Sign out failed');
+    }
+    setUser(null);
+  }, [toast]);
+
+  const api = useMemo<AuthApi>(() => ({ user, login, logout }), [user, login, logout]);
+
+  if (checking) {
+    return <div className="app">Loading..</div>;
+  }
+
+  return <AuthContext.Provider value={api}>{user ? children : <Login />}</AuthContext.Provider>;
+}
@@ -0,0 +1,72 @@
+import type { BenchmarkStats } from '../types/models';
+
+interface BenchmarkBarProps {
+  stats: BenchmarkStats;
+  /**
+   * £/m² to mark against the spread, e.g. the estimate being checked
+   */
+  value?: number;
+}
+
+const TRACK_HEIGHT = 14;
+
+/**
+ * BenchmarkBar - box plot of a comparison set's £/m²
+ *
+ * The line spans min to max, the box spans the lower to upper quartile and
+ * the tick inside it is the median. A marked value outside the set's range
+ * stretches the scale so it stays visible.
+ */
+export function BenchmarkBar({ stats, value }: BenchmarkBarProps) {
+  const low = Math.min(stats.min, value ?? stats.min);
+  const high = Math.max(stats.max, value ?? stats.max);
+  const span = high - low || 1;
+  const at = (amount: number) => `${((amount - low) / span) * 100}%`;
+
+  return (
+    <div
+      className="benchmark-bar"
+      title={`Min ${stats.min} · LQ ${stats.lowerQuartile} · Median ${stats.median} · UQ ${stats.upperQuartile} · Max ${stats.max}`}
+      style={{ position: 'relative', height: TRACK_HEIGHT, minWidth: 160 }}
+    >
+      <div
+        style={{
+          position: 'absolute',
+          top: TRACK_HEIGHT / 2,
+          left: at(stats.min),
+          width: `calc(${at(stats.max)} - ${at(stats.min)})`,
+          borderTop: '1px solid #999',
+        }}
+      />
+      <div
+        style={{
+          position: 'absolute',
+          top: 2,
+          height: TRACK_HEIGHT - 4,
+          left: at(stats.lowerQuartile),
+          width: `calc(${at(stats.upperQuartile)} - ${at(stats.lowerQuartile)})`,
+          minWidth: 2,
+          background: '#cfd8e3',
+          border: '1px solid #8796a8',
+          boxSizing: 'border-box',
+        }}
+      />
+      <div
+        style={{ position: 'absolute', top: 0, height: TRACK_HEIGHT, left: at(stats.median), borderLeft: '2px solid #333' }}
+      />
+      {value !== undefined && (
+        <div
+          style={{
+            position: 'absolute',
+            top: 1,
+            left: `calc(${at(value)} - 6px)`,
+            width: 12,
+            height: 12,
+            borderRadius: '50%',
+            background: '#d9534f',
+          }}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,289 @@
+import { useState } from 'react';
+import { useFetchCashflow } from '../hooks/useApi';
+import type { Cashflow, CashflowQuery, CostModel, Distribution } from '../types/models';
+import { requestPath } from '../Utilities/api';
+import { decimalError } from '../Utilities/validation';
+import { Currency } from './Currency';
+import { DecimalInput } from './DecimalInput';
+
+interface CashflowForecastProps {
+  model: CostModel;
+}
+
+const RETENTION_LIMITS = { min: 0, max: 100 };
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 160;
+
+// "1, 2, 4" → [1, 2, 4]; null if any weight isn't a number of zero or more
+function parseWeights(text: string): number[] | null {
+  const weights = text.split(',').map((weight) => Number(weight.trim()));
+  return weights.every((weight) => Number.isFinite(weight) && weight >= 0) ? weights : null;
+}
+
+const formatMonth = (month: string) =>
+  new Date(`${month}-01`).toLocaleDateString('en-GB', { month: 'short', year: 'numeric' });
+
+/**
+ * Monthly spend as bars against the month with the most, and cumulative
+ * spend as a line against the total; with retention, cumulative payments
+ * are dashed beneath it
+ */
+function CashflowChart({ cashflow }: { cashflow: Cashflow }) {
+  const { months, total } = cashflow;
+  const peak = Math.max(...months.map((month) => month.gross), 0) || 1;
+  const width = CHART_WIDTH / months.length;
+  const y = (amount: number, scale: number) => CHART_HEIGHT - (Math.max(amount, 0) / (scale || 1)) * CHART_HEIGHT;
+  const line = (amounts: number[]) => amounts.map((amount, i) => `${(i + 0.5) * width},${y(amount, total)}`).join(' ');
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        style={{ width: '100%', height: CHART_HEIGHT, background: '#f8f9fa' }}
+        role="img"
+        aria-label="Monthly and cumulative cashflow"
+      >
+        {months.map((month, i) => (
+          <rect
+            key={month.month}
+            x={i * width + width * 0.1}
+            y={y(month.gross, peak)}
+            width={width * 0.8}
+            height={CHART_HEIGHT - y(month.gross, peak)}
+            fill="#8796a8"
+          >
+            <title>
+              {formatMonth(month.month)}: £{month.gross.toLocaleString('en-GB')} ({month.percentComplete}% cumulative)
+            </title>
+          </rect>
+        ))}
+        <polyline
+          points={line(months.map((month) => month.cumulativeGross))}
+          fill="none"
+          stroke="#d9534f"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+        {cashflow.retention > 0 && (
+          <polyline
+            points={line(months.map((month) => month.cumulativeNet))}
+            fill="none"
+            stroke="#337ab7"
+            strokeWidth={2}
+            strokeDasharray="4 3"
+            vectorEffect="non-scaling-stroke"
+          />
+        )}
+      </svg>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.85em', color: '#666' }}>
+        <span>{formatMonth(months[0].month)}</span>
+        <span>
+          Bars: monthly spend · <span style={{ color: '#d9534f' }}>line: cumulative</span>
+          {cashflow.retention > 0 && <span style={{ color: '#337ab7' }}> · dashed: cumulative payments</span>}
+        </span>
+        <span>{formatMonth(months[months.length - 1].month)}</span>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * CashflowForecast - A model's spend profile across its programme
+ *
+ * Spreads the outturn cost over the months from start on site to
+ * completion, by a linear, S-curve or custom distribution, with optional
+ * retention held back from each payment. The server does the spreading,
+ * so the table, chart and CSV export always agree.
+ */
+export function CashflowForecast({ model }: CashflowForecastProps) {
+  const [distribution, setDistribution] = useState<Distribution>('sCurve');
+  const [weightsText, setWeightsText] = useState('');
+  const [by, setBy] = useState<'total' | 'element'>('total');
+  const [retention, setRetention] = useState('');
+  const [defectsPeriod, setDefectsPeriod] = useState(12);
+
+  const hasProgramme = !!model.constructionStart && !!model.constructionCompletion;
+  const weights = distribution === 'custom' ? parseWeights(weightsText) : undefined;
+  const retentionError = decimalError(retention, RETENTION_LIMITS);
+  const query: CashflowQuery | null =
+    hasProgramme && weights !== null && !retentionError
+      ? { distribution, weights, by, retention: Number(retention) || 0, defectsPeriod }
+      : null;
+  const { cashflow, error } = useFetchCashflow(model.id, query);
+
+  // Start custom weights from the shares currently shown, to adjust
+  const chooseDistribution = (next: Distribution) => {
+    if (next === 'custom' && !weightsText && cashflow) {
+      setWeightsText(cashflow.weights.join(', '));
+    }
+    setDistribution(next);
+  };
+
+  if (!hasProgramme) {
+    return (
+      <div className="cashflow-forecast">
+        <h3>Cashflow Forecast</h3>
+        <p style={{ color: '#666' }}>The cashflow is forecast once the model has a construction programme.</p>
+      </div>
+    );
+  }
+
+  const showRetention = !!cashflow && cashflow.retention > 0;
+  const programme = cashflow ? cashflow.months.slice(0, cashflow.weights.length) : [];
+
+  return (
+    <div className="cashflow-forecast">
+      <h3>Cashflow Forecast</h3>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', alignItems: 'flex-start' }}>
+        <label>
+          Distribution{' '}
+          <select value={distribution} onChange={(e) => chooseDistribution(e.target.value as Distribution)}>
+            <option value="sCurve">S-curve</option>
+            <option value="linear">Linear</option>
+            <option value="custom">Custom weights</option>
+          </select>
+        </label>
+        {distribution === 'custom' && (
+          <label>
+            Weights, one per month{' '}
+            <input
+              type="text"
+              value={weightsText}
+              onChange={(e) => setWeightsText(e.target.value)}
+              placeholder="e.g. 1, 2, 4, 4, 2, 1"
+              style={{ width: '20rem' }}
+            />
+            {weights === null && <span className="error-message">Weights must be numbers, separated by commas</span>}
+          </label>
+        )}
+        <label>
+          Spread{' '}
+          <select value={by} onChange={(e) => setBy(e.target.value as 'total' | 'element')}>
+            <option value="total">Total</option>
+            <option value="element">By element</option>
+          </select>
+        </label>
+        <DecimalInput label="Retention (%)" value={retention} onChange={setRetention} placeholder="0" {...RETENTION_LIMITS} />
+        {showRetention && (
+          <label>
+            Defects period (months){' '}
+            <input
+              type="number"
+              value={defectsPeriod}
+              min={0}
+              max={60}
+              step={1}
+              onChange={(e) => setDefectsPeriod(Math.min(60, Math.max(0, Math.trunc(Number(e.target.value) || 0))))}
+              style={{ width: '4rem' }}
+            />
+          </label>
+        )}
+        {query && (
+          <a
+            href={`/api${requestPath('GET /models/{id}/cashflow', { params: { id: model.id }, query: { ...query, format: 'csv' } })}`}
+            className="action-button"
+          >
+            Export CSV
+          </a>
+        )}
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+      {cashflow && (
+        <>
+          <CashflowChart cashflow={cashflow} />
+          <div className="table-container">
+            <table className="cashflow-table">
+              <thead>
+                <tr>
+                  <th>Month</th>
+                  <th>Monthly</th>
+                  <th>Cumulative</th>
+                  <th>% Complete</th>
+                  {showRetention && (
+                    <>
+                      <th>Retention Held</th>
+                      <th>Retention Released</th>
+                      <th>Payment</th>
+                      <th>Cumulative Payments</th>
+                    </>
+                  )}
+                </tr>
+              </thead>
+              <tbody>
+                {cashflow.months.map((month) => (
+                  <tr key={month.month}>
+                    <td>{formatMonth(month.month)}</td>
+                    <td className="currency-cell">
+                      <Currency amount={month.gross} />
+                    </td>
+                    <td className="currency-cell">
+                      <Currency amount={month.cumulativeGross} />
+                    </td>
+                    <td className="currency-cell">{month.percentComplete.toFixed(2)}%</td>
+                    {showRetention && (
+                      <>
+                        <td className="currency-cell">
+                          <Currency amount={month.retentionHeld} />
+                        </td>
+                        <td className="currency-cell">
+                          <Currency amount={month.retentionReleased} />
+                        </td>
+                        <td className="currency-cell">
+                          <Currency amount={month.net} />
+                        </td>
+                        <td className="currency-cell">
+                          <Currency amount={month.cumulativeNet} />
+                        </td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+                <tr className="total-row">
+                  <td>Total</td>
+                  <td className="currency-cell">
+                    <Currency amount={cashflow.total} />
+                  </td>
+                  <td colSpan={showRetention ? 6 : 2}></td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+
+          {cashflow.by === 'element' && (
+            <div className="table-container">
+              <table className="cashflow-table">
+                <thead>
+                  <tr>
+                    <th>Item</th>
+                    <th>Total</th>
+                    {programme.map((month) => (
+                      <th key={month.month}>{formatMonth(month.month)}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {cashflow.rows.map((row) => (
+                    <tr key={row.key}>
+                      <td>{row.label}</td>
+                      <td className="currency-cell">
+                        <Currency amount={row.amount} />
+                      </td>
+                      {row.months.map((amount, i) => (
+                        <td key={i} className="currency-cell">
+                          <Currency amount={amount} />
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
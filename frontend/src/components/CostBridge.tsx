@@ -0,0 +1,60 @@
+import type { BridgeStep } from '../types/models';
+import { Currency } from './Currency';
+
+interface CostBridgeProps {
+  steps: BridgeStep[];
+}
+
+const BAR_HEIGHT = 16;
+
+/**
+ * CostBridge - Waterfall from one total to another
+ *
+ * Drawn sideways so long element names stay readable: the first and last
+ * bars run from zero to each total, and each change floats between the
+ * running totals before and after it (red for an increase, green for a
+ * saving).
+ */
+export function CostBridge({ steps }: CostBridgeProps) {
+  const high = Math.max(...steps.map((step) => step.runningTotal), 0) || 1;
+  const at = (amount: number) => `${(Math.max(amount, 0) / high) * 100}%`;
+
+  return (
+    <table className="cost-bridge">
+      <tbody>
+        {steps.map((step, index) => {
+          const before = step.kind === 'change' ? steps[index - 1].runningTotal : 0;
+          const low = Math.min(before, step.runningTotal);
+          const colour = step.kind !== 'change' ? '#8796a8' : step.amount > 0 ? '#d9534f' : '#5cb85c';
+          return (
+            <tr key={`${step.kind}-${step.elementCode ?? index}`}>
+              <td className="name-cell" style={step.kind !== 'change' ? { fontWeight: 'bold' } : undefined}>
+                {step.label}
+              </td>
+              <td className="currency-cell">
+                {step.kind === 'change' && step.amount > 0 && '+'}
+                <Currency amount={step.amount} />
+              </td>
+              <td style={{ width: '50%', minWidth: 200 }}>
+                <div style={{ position: 'relative', height: BAR_HEIGHT }}>
+                  <div
+                    title={`Running total £${step.runningTotal.toLocaleString('en-GB')}`}
+                    style={{
+                      position: 'absolute',
+                      top: 0,
+                      height: BAR_HEIGHT,
+                      left: at(low),
+                      width: `calc(${at(Math.max(before, step.runningTotal))} - ${at(low)})`,
+                      minWidth: 2,
+                      background: colour,
+                    }}
+                  />
+                </div>
+              </td>
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+}
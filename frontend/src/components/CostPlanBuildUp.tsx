@@ -0,0 +1,392 @@
+import { useState } from 'react';
+import { useFetchCostPlanSummary } from '../hooks/useApi';
+import { useToast } from '../hooks/useToast';
+import type { AddOn, AddOnBase, AddOnCategory, CostModel, CostPlanLine, IndexPoint } from '../types/models';
+import { staleCopy, updateModel } from '../Utilities/api';
+import { decimalError } from '../Utilities/validation';
+import { Currency } from './Currency';
+import { DecimalInput } from './DecimalInput';
+
+interface CostPlanBuildUpProps {
+  model: CostModel;
+  /**
+   * Whether the add-ons and dates can be changed
+   */
+  editable: boolean;
+  /**
+   * Called with the updated model after a change is saved, or with the
+   * server's current copy if someone else changed the model first
+   */
+  onSaved: (model: CostModel) => void;
+}
+
+// In the order the server applies them
+const CATEGORIES: { category: AddOnCategory; label: string }[] = [
+  { category: 'preliminaries', label: "Main contractor's preliminaries" },
+  { category: 'overheadsProfit', label: "Main contractor's overheads and profit" },
+  { category: 'designContingency', label: 'Design contingency' },
+  { category: 'constructionContingency', label: 'Construction contingency' },
+  { category: 'otherAllowance', label: 'Other allowances' },
+];
+
+// What is typed; value stays text until the add-ons are saved
+interface AddOnDraft {
+  category: AddOnCategory;
+  label: string;
+  method: AddOn['method'];
+  value: string;
+  base: AddOnBase;
+}
+
+const PERCENT_LIMITS = { min: 0, max: 100, required: true };
+const SUM_LIMITS = { min: 0, max: 1e9, required: true };
+
+function toDraft(addOn: AddOn): AddOnDraft {
+  return { ...addOn, value: String(addOn.value) };
+}
+
+function draftInvalid(draft: AddOnDraft): boolean {
+  return !draft.label.trim() || decimalError(draft.value, draft.method === 'percentage' ? PERCENT_LIMITS : SUM_LIMITS) !== undefined;
+}
+
+// e.g. "12.5% of subtotal"
+function basis({ method, value, base }: CostPlanLine): string {
+  if (method === 'fixed') return 'fixed sum';
+  return `${value}% of ${base === 'works' ? 'works cost' : 'subtotal'}`;
+}
+
+// e.g. "2024-Q4: 375.10"
+function indexPoint({ quarter, value, forecast }: IndexPoint): string {
+  return `${quarter}: ${value === null ? 'no index value' : value.toFixed(2)}${forecast ? ' (forecast)' : ''}`;
+}
+
+const formatDate = (date: string) =>
+  new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' });
+
+interface DatesFormProps {
+  model: CostModel;
+  onSaved: (model: CostModel) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Base date and construction programme, which inflation is worked out from
+ */
+function DatesForm({ model, onSaved, onCancel }: DatesFormProps) {
+  const toast = useToast();
+  const [baseDate, setBaseDate] = useState(model.baseDate ?? '');
+  const [constructionStart, setConstructionStart] = useState(model.constructionStart ?? '');
+  const [constructionCompletion, setConstructionCompletion] = useState(model.constructionCompletion ?? '');
+  const [saving, setSaving] = useState(false);
+
+  const outOfOrder = !!constructionStart && !!constructionCompletion && constructionCompletion < constructionStart;
+  const invalid = !baseDate || !constructionStart || !constructionCompletion || outOfOrder;
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const updated = await updateModel(model.id, { baseDate, constructionStart, constructionCompletion }, model.updatedAt);
+      onSaved(updated);
+      toast.success('Dates saved');
+    } catch (err) {
+      const current = staleCopy<CostModel>(err);
+      if (current) onSaved(current);
+      toast.error(err, 'Dates not saved');
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="dates-form">
+      <label>
+        Base date <input type="date" value={baseDate} onChange={(e) => setBaseDate(e.target.value)} disabled={saving} />
+      </label>
+      <label>
+        Start on site{' '}
+        <input type="date" value={constructionStart} onChange={(e) => setConstructionStart(e.target.value)} disabled={saving} />
+      </label>
+      <label>
+        Completion{' '}
+        <input
+          type="date"
+          value={constructionCompletion}
+          onChange={(e) => setConstructionCompletion(e.target.value)}
+          disabled={saving}
+        />
+      </label>
+      {outOfOrder && <span className="error-message">Completion can't be before the start</span>}
+      <div>
+        <button onClick={handleSave} className="action-button" disabled={saving || invalid}>
+          {saving ? '…' : 'Save Dates'}
+        </button>
+        <button onClick={onCancel} className="action-button" disabled={saving}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * CostPlanBuildUp - How a model's total builds up from its works cost
+ *
+ * Each stage (preliminaries, overheads and profit, contingencies, other
+ * allowances) adds its add-ons to the subtotal before it, ending in the
+ * total project cost. Inflation from the base date to the mid-point of
+ * construction follows, with the index values and formula it came from,
+ * ending in the outturn cost. Amounts are calculated by the server, so
+ * they are shown once changes are saved.
+ */
+export function CostPlanBuildUp({ model, editable, onSaved }: CostPlanBuildUpProps) {
+  const { summary, error } = useFetchCostPlanSummary(model.id);
+  const toast = useToast();
+  const [drafts, setDrafts] = useState<AddOnDraft[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [editingDates, setEditingDates] = useState(false);
+
+  const change = (index: number, changes: Partial<AddOnDraft>) => {
+    setDrafts((current) => current && current.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const add = () => {
+    setDrafts((current) => {
+      const last = current?.at(-1)?.category ?? 'preliminaries';
+      const category = CATEGORIES.find((c) => c.category === last) ?? CATEGORIES[0];
+      return [...(current ?? []), { category: category.category, label: category.label, method: 'percentage', value: '', base: 'subtotal' }];
+    });
+  };
+
+  const handleSave = async () => {
+    if (!drafts) return;
+    setSaving(true);
+    try {
+      const addOns = drafts.map((draft) => ({ ...draft, label: draft.label.trim(), value: Number(draft.value) }));
+      const updated = await updateModel(model.id, { addOns }, model.updatedAt);
+      onSaved(updated);
+      setDrafts(null);
+      toast.success('Add-ons saved');
+    } catch (err) {
+      const current = staleCopy<CostModel>(err);
+      if (current) onSaved(current);
+      toast.error(err, 'Add-ons not saved');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (drafts) {
+    return (
+      <div className="cost-plan-build-up">
+        <h3>Add-ons</h3>
+        <table className="add-on-editor">
+          <thead>
+            <tr>
+              <th>Stage</th>
+              <th>Description</th>
+              <th>Method</th>
+              <th>Value</th>
+              <th>Of</th>
+              <th></th>
+            </tr>
+          </thead>
+          <tbody>
+            {drafts.map((draft, index) => (
+              <tr key={index}>
+                <td>
+                  <select
+                    value={draft.category}
+                    onChange={(e) => change(index, { category: e.target.value as AddOnCategory })}
+                    aria-label={`Add-on ${index + 1} stage`}
+                    disabled={saving}
+                  >
+                    {CATEGORIES.map(({ category, label }) => (
+                      <option key={category} value={category}>
+                        {label}
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <input
+                    type="text"
+                    value={draft.label}
+                    onChange={(e) => change(index, { label: e.target.value })}
+                    aria-label={`Add-on ${index + 1} description`}
+                    maxLength={100}
+                    disabled={saving}
+                  />
+                </td>
+                <td>
+                  <select
+                    value={draft.method}
+                    onChange={(e) => change(index, { method: e.target.value as AddOn['method'] })}
+                    aria-label={`Add-on ${index + 1} method`}
+                    disabled={saving}
+                  >
+                    <option value="percentage">Percentage</option>
+                    <option value="fixed">Fixed sum (£)</option>
+                  </select>
+                </td>
+                <td>
+                  <DecimalInput
+                    value={draft.value}
+                    onChange={(value) => change(index, { value })}
+                    ariaLabel={`Add-on ${index + 1} value`}
+                    disabled={saving}
+                    {...(draft.method === 'percentage' ? PERCENT_LIMITS : SUM_LIMITS)}
+                  />
+                </td>
+                <td>
+                  {draft.method === 'percentage' && (
+                    <select
+                      value={draft.base}
+                      onChange={(e) => change(index, { base: e.target.value as AddOnBase })}
+                      aria-label={`Add-on ${index + 1} base`}
+                      disabled={saving}
+                    >
+                      <option value="subtotal">Subtotal before this stage</option>
+                      <option value="works">Works cost</option>
+                    </select>
+                  )}
+                </td>
+                <td>
+                  <button
+                    onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                    className="action-button delete-button"
+                    aria-label={`Remove add-on ${index + 1}`}
+                    disabled={saving}
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button onClick={add} className="action-button" disabled={saving}>
+          + Add-on
+        </button>
+        <div>
+          <button onClick={handleSave} className="action-button" disabled={saving || drafts.some(draftInvalid)}>
+            {saving ? '…' : 'Save Add-ons'}
+          </button>
+          <button onClick={() => setDrafts(null)} className="action-button" disabled={saving}>
+            Cancel
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="cost-plan-build-up">
+      <h3>Cost Plan Summary</h3>
+      {error && <p className="error-message">{error}</p>}
+      {summary && (
+        <table className="cost-plan-summary">
+          <tbody>
+            <tr className="total-row">
+              <td>Works cost estimate</td>
+              <td className="currency-cell">
+                <Currency amount={summary.worksCost} />
+              </td>
+            </tr>
+            {summary.stages.map((stage) => (
+              <tr key={stage.category}>
+                <td>
+                  {stage.label}
+                  <ul style={{ margin: 0, fontSize: '0.9em', color: '#666' }}>
+                    {stage.lines.map((line, index) => (
+                      <li key={index}>
+                        {line.label} ({basis(line)}): <Currency amount={line.amount} />
+                      </li>
+                    ))}
+                  </ul>
+                </td>
+                <td className="currency-cell">
+                  <Currency amount={stage.amount} />
+                  <div style={{ fontSize: '0.9em', color: '#666' }}>
+                    Subtotal <Currency amount={stage.subtotal} />
+                  </div>
+                </td>
+              </tr>
+            ))}
+            <tr className="total-row">
+              <td>
+                <strong>Total project cost</strong>
+                {summary.costPerM2 !== null && (
+                  <span style={{ color: '#666' }}>
+                    {' '}
+                    (<Currency amount={summary.costPerM2} />
+                    /m² GIFA)
+                  </span>
+                )}
+              </td>
+              <td className="currency-cell">
+                <strong>
+                  <Currency amount={summary.totalCost} />
+                </strong>
+              </td>
+            </tr>
+            {summary.inflation && (
+              <>
+                <tr>
+                  <td>
+                    Inflation to construction mid-point, {formatDate(summary.inflation.midPoint)}
+                    <ul style={{ margin: 0, fontSize: '0.9em', color: '#666' }}>
+                      <li>Base date {formatDate(summary.inflation.baseDate)}, index {indexPoint(summary.inflation.baseIndex)}</li>
+                      <li>Mid-point index {indexPoint(summary.inflation.midPointIndex)}</li>
+                      <li>
+                        {summary.inflation.formula
+                          ? `${summary.inflation.formula} (${summary.inflation.uplift}%)`
+                          : 'Not worked out until both quarters have an index value'}
+                      </li>
+                    </ul>
+                  </td>
+                  <td className="currency-cell">
+                    {summary.inflation.amount === null ? '—' : <Currency amount={summary.inflation.amount} />}
+                  </td>
+                </tr>
+                <tr className="total-row">
+                  <td>
+                    <strong>Outturn cost</strong>
+                  </td>
+                  <td className="currency-cell">
+                    <strong>
+                      <Currency amount={summary.outturnCost} />
+                    </strong>
+                  </td>
+                </tr>
+              </>
+            )}
+          </tbody>
+        </table>
+      )}
+      {summary && !summary.inflation && (
+        <p style={{ color: '#666' }}>Inflation is added once the model has a base date and construction programme.</p>
+      )}
+      {editingDates && (
+        <DatesForm
+          model={model}
+          onSaved={(updated) => {
+            onSaved(updated);
+            setEditingDates(false);
+          }}
+          onCancel={() => setEditingDates(false)}
+        />
+      )}
+      {editable && (
+        <>
+          <button onClick={() => setDrafts((model.addOns ?? []).map(toDraft))} className="action-button">
+            Edit Add-ons
+          </button>
+          {!editingDates && (
+            <button onClick={() => setEditingDates(true)} className="action-button">
+              Edit Dates
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
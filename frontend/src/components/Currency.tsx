@@ -1,14 +1,13 @@
 // frontend/src/components/Currency.tsx:20-66
+import { formatMoney } from '../Utilities/money';
+
 interface CurrencyProps {
   amount: number;
   showSymbol?: boolean;
 }
 
 export function Currency({ amount, showSymbol = true }: CurrencyProps){
-  const formatted = amount.toLocaleString('en-GB', {
-    minimumFractionDigits: 2,
-    maximumFractionDigits: 2
-  });
+  const formatted = formatMoney(amount);
 
   return (
     <span>
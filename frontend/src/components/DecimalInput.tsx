@@ -1,4 +1,6 @@
 // frontend/src/components/DecimalInput.tsx:16-114
+import { decimalError } from '../Utilities/validation';
+
 interface DecimalInputProps {
   label?: string;
   value: string;
@@ -6,6 +8,8 @@ interface DecimalInputProps {
   placeholder?: string;
   min?: number;
   max?: number;
+  // Decimal places allowed (default 2)
+  places?: number;
   disabled?: boolean;
   error?: string;
   required?: boolean;
@@ -20,13 +24,16 @@ export function DecimalInput({
   placeholder,
   min,
   max,
+  places = 2,
   disabled = false,
   error,
   required = false,
   className = '',
   ariaLabel,
 }: DecimalInputProps) {
-  // Implementation includes validation logic
+  // A caller-supplied error (e.g. from the server) wins over local checks
+  const message = error ?? decimalError(value, { min, max, required, places });
+
   return (
     <div className={`decimal-input ${className}`}>
       {label && <label>{label}</label>}
@@ -37,12 +44,13 @@ export function DecimalInput({
         placeholder={placeholder}
         min={min}
         max={max}
-        step="0.01"
+        step={10 ** -places}
         disabled={disabled}
         aria-label={ariaLabel || label}
+        aria-invalid={message !== undefined}
         required={required}
       />
-      {error && <span className="error-message">{error}</span>}
+      {message && <span className="error-message">{message}</span>}
     </div>
   );
 }
@@ -0,0 +1,164 @@
+import type { DimensionLine, MeasuredWork } from '../types/models';
+import { buildUpQuantity, UNIT_DIMENSIONS, type Dimension } from '../Utilities/dimensions';
+import { DIMENSION_LIMITS, emptyDimension, type DimensionDraft } from '../Utilities/workDraft';
+import { DecimalInput } from './DecimalInput';
+
+const DIMENSION_LABELS: Record<Dimension, string> = {
+  length: 'Length (m)',
+  width: 'Width (m)',
+  depth: 'Depth (m)',
+};
+
+interface DimensionSheetProps {
+  lines: DimensionLine[];
+  unit: MeasuredWork['unit'];
+}
+
+/**
+ * DimensionSheet - Read-only take-off showing how a quantity was measured
+ *
+ * Each line's own quantity is shown (negative for deductions) so the total
+ * can be checked line by line.
+ */
+export function DimensionSheet({ lines, unit }: DimensionSheetProps) {
+  const used = UNIT_DIMENSIONS[unit] ?? [];
+  return (
+    <table className="dimension-sheet">
+      <thead>
+        <tr>
+          <th>Description</th>
+          <th>Times</th>
+          {used.map((dimension) => (
+            <th key={dimension}>{DIMENSION_LABELS[dimension]}</th>
+          ))}
+          <th>{unit}</th>
+        </tr>
+      </thead>
+      <tbody>
+        {lines.map((line, index) => (
+          <tr key={index} className={line.deduction ? 'deduction' : undefined}>
+            <td>
+              {line.deduction && 'Ddt '}
+              {line.description || '-'}
+            </td>
+            <td className="number-cell">{line.timesing}</td>
+            {used.map((dimension) => (
+              <td key={dimension} className="number-cell">
+                {line[dimension]?.toFixed(3) ?? '-'}
+              </td>
+            ))}
+            <td className="number-cell">
+              {((line.deduction ? -1 : 1) * buildUpQuantity([{ ...line, deduction: false }], unit)).toFixed(2)}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+      <tfoot>
+        <tr>
+          <td colSpan={used.length + 2}>Total</td>
+          <td className="number-cell">{buildUpQuantity(lines, unit).toFixed(2)}</td>
+        </tr>
+      </tfoot>
+    </table>
+  );
+}
+
+interface DimensionSheetEditorProps {
+  lines: DimensionDraft[];
+  unit: MeasuredWork['unit'];
+  onChange: (lines: DimensionDraft[]) => void;
+  disabled?: boolean;
+  /**
+   * Problem with the build-up as a whole, e.g. deductions exceeding it
+   */
+  error?: string;
+}
+
+/**
+ * DimensionSheetEditor - Dimension lines of a work being edited
+ *
+ * Only the dimensions the unit needs are offered (one for m, two for m2,
+ * three for m3, none for nr); the quantity is recalculated by the parent
+ * from every keystroke.
+ */
+export function DimensionSheetEditor({ lines, unit, onChange, disabled = false, error }: DimensionSheetEditorProps) {
+  const used = UNIT_DIMENSIONS[unit] ?? [];
+  const update = (index: number, changes: Partial<DimensionDraft>) =>
+    onChange(lines.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+
+  return (
+    <div className="dimension-sheet-editor">
+      <table className="dimension-sheet">
+        <thead>
+          <tr>
+            <th>Description</th>
+            <th>Times</th>
+            {used.map((dimension) => (
+              <th key={dimension}>{DIMENSION_LABELS[dimension]}</th>
+            ))}
+            <th>Deduct</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {lines.map((line, index) => (
+            <tr key={index}>
+              <td>
+                <input
+                  type="text"
+                  value={line.description}
+                  onChange={(e) => update(index, { description: e.target.value })}
+                  aria-label={`Line ${index + 1} description`}
+                  disabled={disabled}
+                />
+              </td>
+              <td>
+                <DecimalInput
+                  value={line.timesing}
+                  onChange={(timesing) => update(index, { timesing })}
+                  ariaLabel={`Line ${index + 1} timesing`}
+                  disabled={disabled}
+                  {...DIMENSION_LIMITS}
+                />
+              </td>
+              {used.map((dimension) => (
+                <td key={dimension}>
+                  <DecimalInput
+                    value={line[dimension]}
+                    onChange={(value) => update(index, { [dimension]: value })}
+                    ariaLabel={`Line ${index + 1} ${dimension}`}
+                    disabled={disabled}
+                    {...DIMENSION_LIMITS}
+                  />
+                </td>
+              ))}
+              <td>
+                <input
+                  type="checkbox"
+                  checked={line.deduction}
+                  onChange={(e) => update(index, { deduction: e.target.checked })}
+                  aria-label={`Line ${index + 1} is a deduction`}
+                  disabled={disabled}
+                />
+              </td>
+              <td>
+                <button
+                  onClick={() => onChange(lines.filter((_, i) => i !== index))}
+                  className="action-button delete-button"
+                  disabled={disabled}
+                  aria-label={`Remove line ${index + 1}`}
+                >
+                  ✕
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <button onClick={() => onChange([...lines, emptyDimension])} className="action-button" disabled={disabled}>
+        + Dimension Line
+      </button>
+      {error && <span className="error-message"> {error}</span>}
+    </div>
+  );
+}
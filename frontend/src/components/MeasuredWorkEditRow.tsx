@@ -0,0 +1,286 @@
+import type { CompositeRate, MeasuredWork, NRM2Element } from '../types/models';
+import { UNIT_DIMENSIONS } from '../Utilities/dimensions';
+import {
+  draftErrors,
+  draftQuantity,
+  draftTotal,
+  emptyDimension,
+  emptyRanges,
+  QUANTITY_LIMITS,
+  RATE_LIMITS,
+  type RangesDraft,
+  type WorkDraft,
+} from '../Utilities/workDraft';
+import { Currency } from './Currency';
+import { DecimalInput } from './DecimalInput';
+import { DimensionSheetEditor } from './DimensionSheet';
+
+const UNITS: MeasuredWork['unit'][] = ['m2', 'm3', 'm', 'nr', 't', 'ls'];
+
+interface MeasuredWorkEditRowProps {
+  draft: WorkDraft;
+  /**
+   * Element library, offered as suggestions for the code and used to show
+   * the element name as it will be saved
+   */
+  elements: NRM2Element[];
+  /**
+   * Rate library; rates for the line's unit can be linked instead of
+   * typing a unit rate
+   */
+  rates: CompositeRate[];
+  onChange: (draft: WorkDraft) => void;
+  onSave: () => void;
+  onCancel: () => void;
+  saving?: boolean;
+  /**
+   * Message from the last failed save
+   */
+  error?: string;
+}
+
+/**
+ * MeasuredWorkEditRow - A measured work line in edit mode
+ *
+ * Used both for editing an existing line and for adding a new one. The
+ * draft is owned by the parent so the model total can follow every
+ * keystroke; this row only renders inputs and the live line total. The
+ * quantity is either typed or built up from dimension lines, edited in a
+ * row below; the unit rate is either typed or linked to a library rate.
+ * Low and high estimates for the quantity and rate, used by the cost
+ * simulation, are edited in another row below.
+ */
+export function MeasuredWorkEditRow({
+  draft,
+  elements,
+  rates,
+  onChange,
+  onSave,
+  onCancel,
+  saving = false,
+  error,
+}: MeasuredWorkEditRowProps) {
+  const errors = draftErrors(draft);
+  const element = elements.find((e) => e.code === draft.elementCode.trim());
+  const update = (changes: Partial<WorkDraft>) => onChange({ ...draft, ...changes });
+  // A library rate only prices the unit it was built for, so changing the
+  // unit unlinks it
+  const unitRates = rates.filter((rate) => rate.unit === draft.unit);
+  const linked = unitRates.find((rate) => rate.id === draft.rateId);
+  const updateRanges = (changes: Partial<RangesDraft>) => update({ ranges: { ...(draft.ranges ?? emptyRanges), ...changes } });
+
+  return (
+    <>
+      <tr className="measured-work-row editing">
+        <td className="code-cell">
+          <input
+            type="text"
+            list="nrm-element-codes"
+            value={draft.elementCode}
+            onChange={(e) => {
+              const match = elements.find((el) => el.code === e.target.value.trim());
+              // Picking a known element defaults the unit to the one it's normally measured in
+              update({ elementCode: e.target.value, ...(match && !draft.quantity && { unit: match.suggestedUnit }) });
+            }}
+            aria-label="Element code"
+            aria-invalid={errors.elementCode !== undefined}
+            size={8}
+            disabled={saving}
+          />
+          <datalist id="nrm-element-codes">
+            {elements.map((el) => (
+              <option key={el.code} value={el.code}>
+                {el.name}
+              </option>
+            ))}
+          </datalist>
+        </td>
+        <td className="name-cell">{element?.name ?? (draft.elementCode.trim() ? 'Unknown code' : '')}</td>
+        <td className="description-cell">
+          <input
+            type="text"
+            value={draft.description}
+            onChange={(e) => update({ description: e.target.value })}
+            aria-label="Description"
+            disabled={saving}
+          />
+        </td>
+        <td className="number-cell">
+          {draft.buildUp ? (
+            <span title="Calculated from the dimension lines below">{draftQuantity(draft).toFixed(2)}</span>
+          ) : (
+            <DecimalInput
+              value={draft.quantity}
+              onChange={(quantity) => update({ quantity })}
+              ariaLabel="Quantity"
+              disabled={saving}
+              {...QUANTITY_LIMITS}
+            />
+          )}
+          {draft.buildUp ? (
+            <button
+              onClick={() => update({ buildUp: null, quantity: String(draftQuantity(draft)) })}
+              className="action-button"
+              disabled={saving}
+              title="Drop the dimension lines and type the quantity"
+            >
+              Type
+            </button>
+          ) : (
+            UNIT_DIMENSIONS[draft.unit] !== null && (
+              <button
+                onClick={() => update({ buildUp: [emptyDimension] })}
+                className="action-button"
+                disabled={saving}
+                title="Build the quantity up from dimension lines"
+              >
+                📐
+              </button>
+            )
+          )}
+        </td>
+        <td className="unit-cell">
+          <select
+            value={draft.unit}
+            onChange={(e) => update({ unit: e.target.value as MeasuredWork['unit'], rateId: '' })}
+            aria-label="Unit"
+            disabled={saving}
+          >
+            {UNITS.map((unit) => (
+              <option key={unit} value={unit}>
+                {unit}
+              </option>
+            ))}
+          </select>
+        </td>
+        <td className="currency-cell">
+          {linked ? (
+            <span title={linked.description}>
+              <Currency amount={linked.rate} />
+            </span>
+          ) : (
+            <DecimalInput
+              value={draft.unitRate}
+              onChange={(unitRate) => update({ unitRate })}
+              ariaLabel="Unit rate"
+              disabled={saving}
+              {...RATE_LIMITS}
+            />
+          )}
+          {unitRates.length > 0 && (
+            <select
+              value={linked?.id ?? ''}
+              onChange={(e) => {
+                const rate = unitRates.find((r) => r.id === e.target.value);
+                update({ rateId: rate?.id ?? '', ...(rate && { unitRate: String(rate.rate) }) });
+              }}
+              aria-label="Library rate"
+              disabled={saving}
+            >
+              <option value="">Typed rate</option>
+              {unitRates.map((rate) => (
+                <option key={rate.id} value={rate.id}>
+                  🔗 {rate.code} {rate.description}
+                </option>
+              ))}
+            </select>
+          )}
+        </td>
+        <td className="currency-cell total-cell">
+          <Currency amount={draftTotal(draft)} />
+        </td>
+        <td className="actions-cell">
+          <button
+            onClick={onSave}
+            className="action-button"
+            disabled={saving || Object.keys(errors).length > 0}
+          >
+            {saving ? '…' : 'Save'}
+          </button>
+          <button onClick={onCancel} className="action-button" disabled={saving}>
+            Cancel
+          </button>
+          {!draft.ranges && (
+            <button
+              onClick={() => update({ ranges: emptyRanges })}
+              className="action-button"
+              disabled={saving}
+              title="Add low and high estimates for the cost simulation"
+            >
+              ±
+            </button>
+          )}
+        </td>
+      </tr>
+      {draft.buildUp && (
+        <tr className="build-up-row">
+          <td colSpan={8}>
+            <DimensionSheetEditor
+              lines={draft.buildUp}
+              unit={draft.unit}
+              onChange={(buildUp) => update({ buildUp })}
+              disabled={saving}
+              error={errors.buildUp}
+            />
+          </td>
+        </tr>
+      )}
+      {draft.ranges && (
+        <tr className="ranges-row">
+          <td colSpan={8}>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', alignItems: 'center' }}>
+              <span>Quantity from</span>
+              <DecimalInput
+                value={draft.ranges.quantityMin}
+                onChange={(quantityMin) => updateRanges({ quantityMin })}
+                ariaLabel="Lowest quantity"
+                placeholder="min"
+                disabled={saving}
+              />
+              <span>to</span>
+              <DecimalInput
+                value={draft.ranges.quantityMax}
+                onChange={(quantityMax) => updateRanges({ quantityMax })}
+                ariaLabel="Highest quantity"
+                placeholder="max"
+                disabled={saving}
+              />
+              <span>Unit rate from</span>
+              <DecimalInput
+                value={draft.ranges.unitRateMin}
+                onChange={(unitRateMin) => updateRanges({ unitRateMin })}
+                ariaLabel="Lowest unit rate"
+                placeholder="min"
+                disabled={saving}
+              />
+              <span>to</span>
+              <DecimalInput
+                value={draft.ranges.unitRateMax}
+                onChange={(unitRateMax) => updateRanges({ unitRateMax })}
+                ariaLabel="Highest unit rate"
+                placeholder="max"
+                disabled={saving}
+              />
+              <button
+                onClick={() => update({ ranges: null })}
+                className="action-button"
+                disabled={saving}
+                title="Remove both ranges"
+              >
+                ✕
+              </button>
+              {errors.ranges && <span className="error-message">{errors.ranges}</span>}
+            </div>
+          </td>
+        </tr>
+      )}
+      {error && (
+        <tr className="row-error">
+          <td colSpan={8} className="error-message">
+            {error}
+          </td>
+        </tr>
+      )}
+    </>
+  );
+}
@@ -1,10 +1,39 @@
 // frontend/src/components/MeasuredWorkRow.tsx
 
-import type { MeasuredWork } from '../types/models';
+import { useState } from 'react';
+import type { CompositeRate, MeasuredWork, Range } from '../types/models';
 import { Currency } from './Currency';
+import { DimensionSheet } from './DimensionSheet';
 
 interface MeasuredWorkRowProps {
   work: MeasuredWork;
+  /**
+   * Unit the NRM element is normally measured in; a warning is shown when
+   * the work uses a different one
+   */
+  suggestedUnit?: MeasuredWork['unit'];
+  /**
+   * Library rate the unit rate is taken from, when the work links to one
+   */
+  libraryRate?: CompositeRate;
+  /**
+   * Edit and delete are only offered when these are given (draft models)
+   */
+  onEdit?: () => void;
+  onDelete?: () => void;
+  /**
+   * Message from the last failed save or delete of this line
+   */
+  error?: string;
+}
+
+// Low and high estimates the cost simulation draws from
+function RangeHint({ range }: { range: Range }) {
+  return (
+    <div style={{ fontSize: '0.85em', color: '#666' }} title="Range used by the cost simulation">
+      {range.min.toFixed(2)}–{range.max.toFixed(2)}
+    </div>
+  );
 }
 
 /**
@@ -15,20 +44,91 @@ interface MeasuredWorkRowProps {
  * - Receiving complex object as prop
  * - Formatting data for display
  */
-export function MeasuredWorkRow({ work }: MeasuredWorkRowProps) {
+export function MeasuredWorkRow({ work, suggestedUnit, libraryRate, onEdit, onDelete, error }: MeasuredWorkRowProps) {
+  const unitMismatch = suggestedUnit !== undefined && suggestedUnit !== work.unit;
+  const [showBuildUp, setShowBuildUp] = useState(false);
+
   return (
-    <tr className="measured-work-row">
-      <td className="code-cell">{work.elementCode}</td>
-      <td className="name-cell">{work.elementName}</td>
-      <td className="description-cell">{work.description}</td>
-      <td className="number-cell">{work.quantity.toFixed(2)}</td>
-      <td className="unit-cell">{work.unit}</td>
-      <td className="currency-cell">
-        <Currency amount={work.unitRate} />
-      </td>
-      <td className="currency-cell total-cell">
-        <Currency amount={work.totalCost} />
-      </td>
-    </tr>
+    <>
+      <tr className="measured-work-row">
+        <td className="code-cell">{work.elementCode}</td>
+        <td className="name-cell">{work.elementName}</td>
+        <td className="description-cell">{work.description}</td>
+        <td className="number-cell">
+          {work.needsReview && (
+            <span className="review-flag" title={work.needsReview} aria-label={work.needsReview}>
+              🔍{' '}
+            </span>
+          )}
+          {work.buildUp?.length ? (
+            <button
+              onClick={() => setShowBuildUp(!showBuildUp)}
+              className="link-button"
+              title="Show how this quantity was measured"
+              aria-expanded={showBuildUp}
+            >
+              📐 {work.quantity.toFixed(2)}
+            </button>
+          ) : (
+            work.quantity.toFixed(2)
+          )}
+          {work.quantityRange && <RangeHint range={work.quantityRange} />}
+        </td>
+        <td className="unit-cell">
+          {work.unit}
+          {unitMismatch && (
+            <span
+              className="unit-warning"
+              title={`${work.elementCode} is normally measured in ${suggestedUnit}`}
+              aria-label={`Unit differs from suggested unit ${suggestedUnit}`}
+            >
+              {' '}⚠️
+            </span>
+          )}
+        </td>
+        <td className="currency-cell">
+          {libraryRate && (
+            <span
+              className="rate-link"
+              title={`${libraryRate.code} ${libraryRate.description} (rate library)`}
+              aria-label={`Unit rate from library rate ${libraryRate.code}`}
+            >
+              🔗{' '}
+            </span>
+          )}
+          <Currency amount={work.unitRate} />
+          {work.unitRateRange && <RangeHint range={work.unitRateRange} />}
+        </td>
+        <td className="currency-cell total-cell">
+          <Currency amount={work.totalCost} />
+        </td>
+        <td className="actions-cell">
+          {onEdit && (
+            <button onClick={onEdit} className="action-button">
+              Edit
+            </button>
+          )}
+          {onDelete && (
+            <button onClick={onDelete} className="action-button delete-button">
+              Delete
+            </button>
+          )}
+        </td>
+      </tr>
+      {showBuildUp && work.buildUp && (
+        <tr className="build-up-row">
+          <td colSpan={8}>
+            <DimensionSheet lines={work.buildUp} unit={work.unit} />
+          </td>
+        </tr>
+      )}
+      {error && (
+        <tr className="row-error">
+          <td colSpan={8} className="error-message">
+            {error}
+          </td>
+        </tr>
+      )}
+    </>
   );
 }
\ No newline at end of file
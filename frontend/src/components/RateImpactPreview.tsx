@@ -0,0 +1,112 @@
+import { Link } from 'react-router';
+import type { RateImpact } from '../types/models';
+import { Currency } from './Currency';
+
+interface RateImpactPreviewProps {
+  impact: RateImpact;
+  onConfirm: () => void;
+  onCancel: () => void;
+  applying?: boolean;
+}
+
+function Change({ amount }: { amount: number }) {
+  return (
+    <span className={amount > 0 ? 'delta-up' : amount < 0 ? 'delta-down' : undefined}>
+      {amount > 0 && '+'}
+      <Currency amount={amount} />
+    </span>
+  );
+}
+
+/**
+ * RateImpactPreview - What a rate library change will do, before it's made
+ *
+ * Lists the composite rates that change and every model with linked works.
+ * Only drafts are updated; approved and archived models are listed so it's
+ * clear they keep the rates they were approved at.
+ */
+export function RateImpactPreview({ impact, onConfirm, onCancel, applying = false }: RateImpactPreviewProps) {
+  return (
+    <div className="rate-impact">
+      {impact.rates.length === 0 ? (
+        <p className="hint">No composite rate changes.</p>
+      ) : (
+        <table className="rate-impact-rates">
+          <thead>
+            <tr>
+              <th>Rate</th>
+              <th>Unit</th>
+              <th>From</th>
+              <th>To</th>
+            </tr>
+          </thead>
+          <tbody>
+            {impact.rates.map((rate) => (
+              <tr key={rate.id}>
+                <td>
+                  {rate.code} {rate.description}
+                </td>
+                <td className="unit-cell">{rate.unit}</td>
+                <td className="currency-cell">
+                  <Currency amount={rate.from} />
+                </td>
+                <td className="currency-cell">
+                  <Currency amount={rate.to} />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {impact.models.length === 0 ? (
+        <p className="hint">No measured works are linked to the rates that change.</p>
+      ) : (
+        <table className="rate-impact-models">
+          <thead>
+            <tr>
+              <th>Model</th>
+              <th>Linked works</th>
+              <th>Total now</th>
+              <th>Total after</th>
+              <th>Change</th>
+            </tr>
+          </thead>
+          <tbody>
+            {impact.models.map((model) => (
+              <tr key={model.modelId} className={model.updated ? undefined : 'not-updated'}>
+                <td>
+                  <Link to={`/models/${model.modelId}`}>{model.projectName}</Link>
+                  {!model.updated && <span className="hint"> ({model.status} - not updated)</span>}
+                </td>
+                <td className="number-cell">{model.works}</td>
+                <td className="currency-cell">
+                  <Currency amount={model.from} />
+                </td>
+                <td className="currency-cell">
+                  <Currency amount={model.updated ? model.to : model.from} />
+                </td>
+                <td className="currency-cell">{model.updated ? <Change amount={model.variance} /> : '-'}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="total-row">
+              <td colSpan={4}>Change across draft models</td>
+              <td className="currency-cell">
+                <Change amount={impact.variance} />
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      )}
+
+      <button onClick={onConfirm} className="action-button" disabled={applying}>
+        {applying ? '…' : 'Apply'}
+      </button>
+      <button onClick={onCancel} className="action-button" disabled={applying}>
+        Cancel
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,453 @@
+import { useState } from 'react';
+import { useFetchSimulation } from '../hooks/useApi';
+import { useToast } from '../hooks/useToast';
+import type { CostModel, Risk, Simulation, SimulationQuery } from '../types/models';
+import { staleCopy, updateModel } from '../Utilities/api';
+import { decimalError } from '../Utilities/validation';
+import { Currency } from './Currency';
+import { DecimalInput } from './DecimalInput';
+
+interface RiskAnalysisProps {
+  model: CostModel;
+  /**
+   * Whether the risk register can be changed
+   */
+  editable: boolean;
+  /**
+   * Called with the updated model after the register is saved, or with the
+   * server's current copy if someone else changed the model first
+   */
+  onSaved: (model: CostModel) => void;
+}
+
+// What is typed; numbers stay text until the register is saved
+interface RiskDraft {
+  title: string;
+  owner: string;
+  probability: string;
+  min: string;
+  likely: string;
+  max: string;
+}
+
+const PROBABILITY_LIMITS = { min: 0, max: 100, required: true };
+const IMPACT_LIMITS = { min: 0, max: 1e9, required: true };
+const ITERATIONS = [1000, 5000, 20000];
+
+const CHART_WIDTH = 600;
+const CHART_HEIGHT = 140;
+const BAR_HEIGHT = 16;
+
+function toDraft(risk: Risk): RiskDraft {
+  return {
+    title: risk.title,
+    owner: risk.owner ?? '',
+    probability: String(risk.probability),
+    min: String(risk.min),
+    likely: String(risk.likely),
+    max: String(risk.max),
+  };
+}
+
+function draftError(draft: RiskDraft): string | undefined {
+  if (!draft.title.trim()) return 'Title is required';
+  if (decimalError(draft.probability, PROBABILITY_LIMITS)) return 'Probability must be 0 to 100';
+  if ([draft.min, draft.likely, draft.max].some((value) => decimalError(value, IMPACT_LIMITS))) {
+    return 'Check the cost impacts';
+  }
+  const [min, likely, max] = [draft.min, draft.likely, draft.max].map(Number);
+  return min <= likely && likely <= max ? undefined : 'Cost impacts must run min ≤ likely ≤ max';
+}
+
+function toRisk(draft: RiskDraft): Risk {
+  return {
+    title: draft.title.trim(),
+    ...(draft.owner.trim() && { owner: draft.owner.trim() }),
+    probability: Number(draft.probability),
+    min: Number(draft.min),
+    likely: Number(draft.likely),
+    max: Number(draft.max),
+  };
+}
+
+/**
+ * How often each range of totals came up, with the P-values marked
+ */
+function Histogram({ simulation }: { simulation: Simulation }) {
+  const { histogram, percentiles } = simulation;
+  const low = histogram[0].from;
+  const high = histogram[histogram.length - 1].to;
+  const span = high - low || 1;
+  const most = Math.max(...histogram.map((bin) => bin.count)) || 1;
+  const x = (amount: number) => ((amount - low) / span) * CHART_WIDTH;
+  const width = CHART_WIDTH / histogram.length;
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        style={{ width: '100%', height: CHART_HEIGHT, background: '#f8f9fa' }}
+        role="img"
+        aria-label="Distribution of simulated totals"
+      >
+        {histogram.map((bin, i) => (
+          <rect
+            key={i}
+            x={i * width + 1}
+            y={CHART_HEIGHT - (bin.count / most) * CHART_HEIGHT}
+            width={Math.max(width - 2, 1)}
+            height={(bin.count / most) * CHART_HEIGHT}
+            fill="#8796a8"
+          >
+            <title>
+              £{bin.from.toLocaleString('en-GB')} to £{bin.to.toLocaleString('en-GB')}: {bin.count} iterations
+            </title>
+          </rect>
+        ))}
+        {histogram.length > 1 &&
+          percentiles.map(({ percentile, total }) => (
+            <line
+              key={percentile}
+              x1={x(total)}
+              x2={x(total)}
+              y1={0}
+              y2={CHART_HEIGHT}
+              stroke="#d9534f"
+              strokeWidth={2}
+              vectorEffect="non-scaling-stroke"
+            >
+              <title>P{percentile}</title>
+            </line>
+          ))}
+      </svg>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '0.85em', color: '#666' }}>
+        <Currency amount={low} />
+        <span style={{ color: '#d9534f' }}>{percentiles.map(({ percentile }) => `P${percentile}`).join(' · ')}</span>
+        <Currency amount={high} />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * The inputs that move the total most, each drawn from its mean total in
+ * its lowest tenth of samples to its highest
+ */
+function Tornado({ simulation }: { simulation: Simulation }) {
+  const { tornado } = simulation;
+  const low = Math.min(...tornado.map((bar) => bar.low));
+  const high = Math.max(...tornado.map((bar) => bar.high));
+  const span = high - low || 1;
+  const at = (amount: number) => `${((amount - low) / span) * 100}%`;
+
+  return (
+    <table className="tornado">
+      <tbody>
+        {tornado.map((bar) => (
+          <tr key={bar.key}>
+            <td className="name-cell">
+              {bar.kind === 'risk' ? '⚠️ ' : ''}
+              {bar.label}
+            </td>
+            <td className="currency-cell">
+              <Currency amount={bar.swing} />
+            </td>
+            <td style={{ width: '50%', minWidth: 200 }}>
+              <div style={{ position: 'relative', height: BAR_HEIGHT }}>
+                <div
+                  title={`£${bar.low.toLocaleString('en-GB')} to £${bar.high.toLocaleString('en-GB')}`}
+                  style={{
+                    position: 'absolute',
+                    top: 0,
+                    height: BAR_HEIGHT,
+                    left: at(bar.low),
+                    width: `calc(${at(bar.high)} - ${at(bar.low)})`,
+                    minWidth: 2,
+                    background: bar.kind === 'risk' ? '#d9534f' : '#8796a8',
+                  }}
+                />
+              </div>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+/**
+ * RiskAnalysis - A model's risk register and its cost simulation
+ *
+ * Each risk has a chance of happening and a min, most likely and max cost
+ * if it does. The server simulates the total from the register and the
+ * works' quantity and rate ranges, leaving out the flat contingency
+ * add-ons, so the contingency each confidence level needs can be set
+ * against the one in the cost plan. A seed gives the same result every
+ * time; change it to check the result is stable. The simulation runs when
+ * asked for, not on every visit or save.
+ */
+export function RiskAnalysis({ model, editable, onSaved }: RiskAnalysisProps) {
+  const toast = useToast();
+  const [iterations, setIterations] = useState(5000);
+  const [seed, setSeed] = useState(1);
+  // Only simulate when asked to; a large model takes a moment
+  const [run, setRun] = useState<SimulationQuery | null>(null);
+  const { simulation, loading, error, rerun } = useFetchSimulation(model.id, run);
+  const changed = run !== null && (run.iterations !== iterations || run.seed !== seed);
+  const [drafts, setDrafts] = useState<RiskDraft[] | null>(null);
+  const [saving, setSaving] = useState(false);
+  const risks = model.risks ?? [];
+
+  const change = (index: number, changes: Partial<RiskDraft>) => {
+    setDrafts((current) => current && current.map((draft, i) => (i === index ? { ...draft, ...changes } : draft)));
+  };
+
+  const handleSave = async () => {
+    if (!drafts) return;
+    setSaving(true);
+    try {
+      const updated = await updateModel(model.id, { risks: drafts.map(toRisk) }, model.updatedAt);
+      onSaved(updated);
+      setDrafts(null);
+      toast.success('Risk register saved');
+    } catch (err) {
+      const current = staleCopy<CostModel>(err);
+      if (current) onSaved(current);
+      toast.error(err, 'Risk register not saved');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const firstError = drafts?.map(draftError).find((message) => message !== undefined);
+
+  return (
+    <div className="risk-analysis">
+      <h3>Risk Register ({risks.length} risks)</h3>
+      {drafts ? (
+        <>
+          <table className="risk-editor">
+            <thead>
+              <tr>
+                <th>Risk</th>
+                <th>Owner</th>
+                <th>Probability (%)</th>
+                <th>Min (£)</th>
+                <th>Likely (£)</th>
+                <th>Max (£)</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {drafts.map((draft, index) => (
+                <tr key={index}>
+                  <td>
+                    <input
+                      type="text"
+                      value={draft.title}
+                      onChange={(e) => change(index, { title: e.target.value })}
+                      aria-label={`Risk ${index + 1} title`}
+                      maxLength={200}
+                      disabled={saving}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="text"
+                      value={draft.owner}
+                      onChange={(e) => change(index, { owner: e.target.value })}
+                      aria-label={`Risk ${index + 1} owner`}
+                      maxLength={100}
+                      disabled={saving}
+                    />
+                  </td>
+                  <td>
+                    <DecimalInput
+                      value={draft.probability}
+                      onChange={(probability) => change(index, { probability })}
+                      ariaLabel={`Risk ${index + 1} probability`}
+                      disabled={saving}
+                      {...PROBABILITY_LIMITS}
+                    />
+                  </td>
+                  {(['min', 'likely', 'max'] as const).map((field) => (
+                    <td key={field}>
+                      <DecimalInput
+                        value={draft[field]}
+                        onChange={(value) => change(index, { [field]: value })}
+                        ariaLabel={`Risk ${index + 1} ${field} cost`}
+                        disabled={saving}
+                        {...IMPACT_LIMITS}
+                      />
+                    </td>
+                  ))}
+                  <td>
+                    <button
+                      onClick={() => setDrafts(drafts.filter((_, i) => i !== index))}
+                      className="action-button delete-button"
+                      aria-label={`Remove risk ${index + 1}`}
+                      disabled={saving}
+                    >
+                      ✕
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {firstError && <p className="error-message">{firstError}</p>}
+          <button
+            onClick={() => setDrafts([...drafts, { title: '', owner: '', probability: '', min: '', likely: '', max: '' }])}
+            className="action-button"
+            disabled={saving}
+          >
+            + Risk
+          </button>
+          <div>
+            <button onClick={handleSave} className="action-button" disabled={saving || firstError !== undefined}>
+              {saving ? '…' : 'Save Risks'}
+            </button>
+            <button onClick={() => setDrafts(null)} className="action-button" disabled={saving}>
+              Cancel
+            </button>
+          </div>
+        </>
+      ) : (
+        <>
+          {risks.length === 0 ? (
+            <p style={{ color: '#666' }}>No risks recorded for this cost model.</p>
+          ) : (
+            <table className="risk-register">
+              <thead>
+                <tr>
+                  <th>Risk</th>
+                  <th>Owner</th>
+                  <th>Probability</th>
+                  <th>Min</th>
+                  <th>Likely</th>
+                  <th>Max</th>
+                </tr>
+              </thead>
+              <tbody>
+                {risks.map((risk, index) => (
+                  <tr key={index}>
+                    <td>{risk.title}</td>
+                    <td>{risk.owner ?? ''}</td>
+                    <td className="currency-cell">{risk.probability}%</td>
+                    <td className="currency-cell">
+                      <Currency amount={risk.min} />
+                    </td>
+                    <td className="currency-cell">
+                      <Currency amount={risk.likely} />
+                    </td>
+                    <td className="currency-cell">
+                      <Currency amount={risk.max} />
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {editable && (
+            <button onClick={() => setDrafts(risks.map(toDraft))} className="action-button">
+              Edit Risks
+            </button>
+          )}
+        </>
+      )}
+
+      <h3>Cost Simulation</h3>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: '1rem', alignItems: 'center' }}>
+        <label>
+          Iterations{' '}
+          <select value={iterations} onChange={(e) => setIterations(Number(e.target.value))}>
+            {ITERATIONS.map((count) => (
+              <option key={count} value={count}>
+                {count.toLocaleString('en-GB')}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Seed{' '}
+          <input
+            type="number"
+            value={seed}
+            min={0}
+            step={1}
+            onChange={(e) => setSeed(Math.max(0, Math.trunc(Number(e.target.value) || 0)))}
+            style={{ width: '6rem' }}
+          />
+        </label>
+        <button
+          onClick={() => (run === null || changed ? setRun({ iterations, seed }) : rerun())}
+          className="action-button"
+          disabled={loading}
+        >
+          {run === null ? 'Run Simulation' : 'Run Again'}
+        </button>
+        {loading && <span style={{ color: '#666' }}>Simulating…</span>}
+        {changed && !loading && <span style={{ color: '#666' }}>Run again to use the new settings.</span>}
+      </div>
+      {error && <p className="error-message">{error}</p>}
+      {simulation && (
+        <>
+          <table className="simulation-summary">
+            <thead>
+              <tr>
+                <th>Confidence</th>
+                <th>Total</th>
+                <th>Contingency needed</th>
+              </tr>
+            </thead>
+            <tbody>
+              <tr>
+                <td>Without contingency (most likely values)</td>
+                <td className="currency-cell">
+                  <Currency amount={simulation.baseCost} />
+                </td>
+                <td></td>
+              </tr>
+              {simulation.percentiles.map(({ percentile, total, contingency }) => (
+                <tr key={percentile}>
+                  <td>P{percentile}</td>
+                  <td className="currency-cell">
+                    <Currency amount={total} />
+                  </td>
+                  <td className="currency-cell">
+                    <Currency amount={contingency} />
+                  </td>
+                </tr>
+              ))}
+              <tr className="total-row">
+                <td>Cost plan, with flat contingency</td>
+                <td className="currency-cell">
+                  <Currency amount={simulation.totalCost} />
+                </td>
+                <td className="currency-cell">
+                  <Currency amount={simulation.currentContingency} />
+                </td>
+              </tr>
+            </tbody>
+          </table>
+          <p style={{ color: '#666' }}>
+            Mean <Currency amount={simulation.mean} />, range <Currency amount={simulation.min} /> to{' '}
+            <Currency amount={simulation.max} /> over {simulation.iterations.toLocaleString('en-GB')} iterations.
+          </p>
+          <Histogram simulation={simulation} />
+          {simulation.tornado.length > 0 ? (
+            <>
+              <h4>Biggest Contributors</h4>
+              <Tornado simulation={simulation} />
+            </>
+          ) : (
+            <p style={{ color: '#666' }}>
+              Add risks, or ranges to measured works (±), to see what drives the uncertainty.
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { useToast } from '../hooks/useToast';
+import type { CostModel, TransitionAction } from '../types/models';
+import { staleCopy, transitionModel } from '../Utilities/api';
+import { can, transitionPermissions } from '../Utilities/permissions';
+import { availableActions, transitions } from '../Utilities/workflow';
+
+interface StatusActionsProps {
+  model: CostModel;
+  /**
+   * Called with the updated model after a successful transition, or with
+   * the server's current copy if someone else changed the model first
+   */
+  onTransition: (model: CostModel) => void;
+}
+
+/**
+ * StatusActions - Workflow buttons shown next to the status badge
+ *
+ * Offers only the transitions valid from the model's current status that
+ * the signed-in user's role allows. The server records the signed-in user
+ * as the approver.
+ */
+export function StatusActions({ model, onTransition }: StatusActionsProps) {
+  const [pending, setPending] = useState<TransitionAction | null>(null);
+  const { user } = useAuth();
+  const toast = useToast();
+
+  const actions = availableActions(model.status).filter((action) => can(user, transitionPermissions[action]));
+
+  const handleTransition = async (action: TransitionAction) => {
+    setPending(action);
+    try {
+      const updated = await transitionModel(model.id, action, model.updatedAt);
+      onTransition(updated);
+      toast.success(`${model.projectName} is now ${updated.status}`);
+    } catch (err) {
+      const current = staleCopy<CostModel>(err);
+      if (current) onTransition(current);
+      toast.error(err, `${transitions[action].label} failed`);
+    } finally {
+      setPending(null);
+    }
+  };
+
+  return (
+    <div className="status-actions">
+      {actions.map((action) => (
+        <button
+          key={action}
+          onClick={() => handleTransition(action)}
+          className={`action-button transition-${action}`}
+          disabled={pending !== null}
+        >
+          {pending === action ? '…' : transitions[action].label}
+        </button>
+      ))}
+    </div>
+  );
+}
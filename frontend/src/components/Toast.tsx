@@ -7,7 +7,7 @@
  * Phase 7 - Commit 3: Toast notification system
  */
 
-import { useEffect } from 'react';
+import { useEffect, useRef, useState } from 'react';
 
 export type ToastType = 'success' | 'error' | 'info' | 'warning';
 
@@ -37,7 +37,7 @@ interface ToastProps {
  * Toast - Temporary notification component
  *
  * Features:
- * - Auto-dismiss after duration
+ * - Auto-dismiss after duration, paused while the pointer is over it
  * - Click to dismiss
  * - Different styles for types
  * - Slide-in animation
@@ -47,13 +47,26 @@ interface ToastProps {
  * @returns JSX toast element
  */
 export function Toast({ message, type, duration = 3000, onClose }: ToastProps) {
+  const [paused, setPaused] = useState(false);
+  // Time left before dismissal; hovering stops the clock rather than resetting it
+  const remaining = useRef(duration);
+  // Latest onClose, so a parent passing a new callback each render doesn't restart the timer
+  const close = useRef(onClose);
+
+  useEffect(() => {
+    close.current = onClose;
+  }, [onClose]);
+
   useEffect(() => {
-    const timer = setTimeout(() => {
-      onClose();
-    }, duration);
+    if (paused) return;
+    const startedAt = Date.now();
+    const timer = setTimeout(() => close.current(), remaining.current);
 
-    return () => clearTimeout(timer);
-  }, [duration, onClose]);
+    return () => {
+      clearTimeout(timer);
+      remaining.current -= Date.now() - startedAt;
+    };
+  }, [paused]);
 
   const getIcon = () => {
     switch (type) {
@@ -74,6 +87,8 @@ export function Toast({ message, type, duration = 3000, onClose }: ToastProps) {
       role="alert"
       aria-live="polite"
       onClick={onClose}
+      onMouseEnter={() => setPaused(true)}
+      onMouseLeave={() => setPaused(false)}
     >
       <span className="toast-icon">{getIcon()}</span>
       <span className="toast-message">{message}</span>
@@ -0,0 +1,75 @@
+import { useCallback, useMemo, useState, type ReactNode } from 'react';
+import { ToastContext, type ToastApi } from '../hooks/useToast';
+import { errorMessage } from '../Utilities/api';
+import { Toast, type ToastType } from './Toast';
+
+interface ToastItem {
+  id: string;
+  message: string;
+  type: ToastType;
+}
+
+// Errors stay up long enough to read a validation message
+const DURATIONS: Record<ToastType, number> = {
+  success: 3000,
+  info: 4000,
+  warning: 6000,
+  error: 10000,
+};
+
+// Oldest toasts are dropped once the stack is this tall
+const MAX_TOASTS = 5;
+
+let nextId = 0;
+
+/**
+ * ToastProvider - App-wide notification stack
+ *
+ * Wrap the app once; components call useToast() to report the outcome of
+ * anything they change. Newest toasts appear at the bottom of the stack.
+ */
+export function ToastProvider({ children }: { children: ReactNode }) {
+  const [toasts, setToasts] = useState<ToastItem[]>([]);
+
+  const dismiss = useCallback((id: string) => {
+    setToasts((current) => current.filter((toast) => toast.id !== id));
+  }, []);
+
+  const show = useCallback((type: ToastType, message: string) => {
+    const id = `toast-${++nextId}`;
+    setToasts((current) => [...current, { id, type, message }].slice(-MAX_TOASTS));
+    return id;
+  }, []);
+
+  const api = useMemo<ToastApi>(
+    () => ({
+      show,
+      dismiss,
+      success: (message) => show('success', message),
+      info: (message) => show('info', message),
+      warning: (message) => show('warning', message),
+      error: (error, prefix) => {
+        const message = typeof error === 'string' ? error : errorMessage(error);
+        return show('error', prefix ? `${prefix}: ${message}` : message);
+      },
+    }),
+    [show, dismiss]
+  );
+
+  return (
+    <ToastContext.Provider value={api}>
+      {children}
+      <div className="toast-container">
+        {toasts.map((toast) => (
+          <Toast
+            key={toast.id}
+            message={toast.message}
+            type={toast.type}
+            duration={DURATIONS[toast.type]}
+            onClose={() => dismiss(toast.id)}
+          />
+        ))}
+      </div>
+    </ToastContext.Provider>
+  );
+}
@@ -0,0 +1,241 @@
+import { useState } from 'react';
+import { useToast } from '../hooks/useToast';
+import type { ColumnMapping, ImportPreview } from '../types/models';
+import { ApiError, importWorks, previewWorksImport } from '../Utilities/api';
+import { Currency } from './Currency';
+
+interface WorksImportProps {
+  modelId: string;
+  /**
+   * Imports are refused unless the model is a draft
+   */
+  disabled?: boolean;
+  /**
+   * Called with the number of works created after a successful import; the
+   * model's works are re-read either way
+   */
+  onImported?: (count: number) => void;
+}
+
+const MAPPING_FIELDS: { field: keyof ColumnMapping; label: string; required: boolean }[] = [
+  { field: 'elementCode', label: 'Element Code', required: true },
+  { field: 'description', label: 'Description', required: true },
+  { field: 'quantity', label: 'Quantity', required: true },
+  { field: 'unit', label: 'Unit', required: true },
+  { field: 'unitRate', label: 'Unit Rate', required: true },
+  { field: 'notes', label: 'Notes', required: false },
+];
+
+// Header cells of the first line, so columns can be mapped even when the
+// server could not match them automatically
+function readHeaders(csv: string): string[] {
+  const firstLine = csv.replace(/^\uFEFF/, '').split(/\r?\n/)[0] ?? '';
+  return firstLine.split(',').map((cell) => cell.trim().replace(/^"|"$/g, ''));
+}
+
+function isComplete(mapping: Partial<ColumnMapping>): mapping is ColumnMapping {
+  return MAPPING_FIELDS.every(({ field, required }) => !required || mapping[field] !== undefined);
+}
+
+/**
+ * WorksImport - CSV bill of quantities upload with a dry-run preview
+ *
+ * Flow:
+ * 1. Choose a CSV file; columns are matched by header name where possible
+ * 2. Adjust the column mapping; every change re-runs the preview
+ * 3. Review per-row errors; import is only offered when every row is valid
+ * 4. Import creates all rows at once, or none
+ */
+export function WorksImport({ modelId, disabled = false, onImported }: WorksImportProps) {
+  const [csv, setCsv] = useState<string | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [mapping, setMapping] = useState<Partial<ColumnMapping>>({});
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [error, setError] = useState<ApiError | null>(null);
+  const [busy, setBusy] = useState(false);
+  const toast = useToast();
+
+  const reset = () => {
+    setCsv(null);
+    setFileName('');
+    setHeaders([]);
+    setMapping({});
+    setPreview(null);
+    setError(null);
+  };
+
+  const runPreview = async (text: string, columns?: ColumnMapping) => {
+    setBusy(true);
+    try {
+      const result = await previewWorksImport(modelId, { csv: text, mapping: columns });
+      setPreview(result);
+      setMapping(result.mapping);
+      setHeaders(result.headers);
+      setError(null);
+    } catch (err) {
+      setPreview(null);
+      setError(err instanceof ApiError ? err : new ApiError(0, (err as Error).message));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    setCsv(text);
+    setFileName(file.name);
+    setHeaders(readHeaders(text));
+    setMapping({});
+    await runPreview(text);
+  };
+
+  const handleMappingChange = (field: keyof ColumnMapping, header: string) => {
+    const next = { ...mapping, [field]: header || undefined };
+    setMapping(next);
+    if (csv && isComplete(next)) {
+      runPreview(csv, next);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!csv || !isComplete(mapping)) return;
+    setBusy(true);
+    try {
+      const created = await importWorks(modelId, { csv, mapping });
+      toast.success(`Imported ${created.length} work${created.length === 1 ? '' : 's'} from ${fileName}`);
+      reset();
+      onImported?.(created.length);
+    } catch (err) {
+      toast.error(err, 'Import failed');
+      setError(err instanceof ApiError ? err : new ApiError(0, (err as Error).message));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const canImport = !!preview && preview.errorCount === 0 && preview.validCount > 0 && !busy && !disabled;
+
+  return (
+    <div className="works-import">
+      <h4>Import from CSV</h4>
+
+      <input
+        type="file"
+        accept=".csv,text/csv"
+        disabled={disabled || busy}
+        onChange={(e) => {
+          handleFile(e.target.files?.[0]);
+          e.target.value = '';
+        }}
+        aria-label="CSV file"
+      />
+      {disabled && <p className="hint">Reopen the model as a draft to import works.</p>}
+
+      {csv !== null && (
+        <>
+          <p>
+            <strong>{fileName}</strong>
+          </p>
+
+          <div className="import-mapping">
+            {MAPPING_FIELDS.map(({ field, label, required }) => (
+              <label key={field}>
+                {label}
+                {required && ' *'}
+                <select
+                  value={mapping[field] === undefined ? '' : String(mapping[field])}
+                  onChange={(e) => handleMappingChange(field, e.target.value)}
+                  disabled={busy}
+                >
+                  <option value="">{required ? 'Select column…' : '(none)'}</option>
+                  {headers.map((header) => (
+                    <option key={header} value={header}>
+                      {header}
+                    </option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {error && (
+            <div className="error-state">
+              <p className="error-message">{error.message}</p>
+              {error.details && (
+                <ul>
+                  {error.details.map((detail) => (
+                    <li key={`${detail.path}-${detail.message}`}>
+                      {detail.path}: {detail.message}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <p className="import-summary">
+                {preview.validCount} valid, {preview.errorCount} with errors — total{' '}
+                <Currency amount={preview.totalCost} />
+              </p>
+              <div className="table-container">
+                <table className="import-preview-table">
+                  <thead>
+                    <tr>
+                      <th>Line</th>
+                      <th>Code</th>
+                      <th>Description</th>
+                      <th>Quantity</th>
+                      <th>Unit</th>
+                      <th>Unit Rate</th>
+                      <th>Total Cost</th>
+                      <th>Errors</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.rows.map((row) => (
+                      <tr key={row.line} className={row.errors.length > 0 ? 'import-row-error' : undefined}>
+                        <td>{row.line}</td>
+                        {row.work ? (
+                          <>
+                            <td className="code-cell">{row.work.elementCode}</td>
+                            <td className="description-cell">{row.work.description}</td>
+                            <td className="number-cell">{row.work.quantity.toFixed(2)}</td>
+                            <td className="unit-cell">{row.work.unit}</td>
+                            <td className="currency-cell">
+                              <Currency amount={row.work.unitRate} />
+                            </td>
+                            <td className="currency-cell">
+                              <Currency amount={row.totalCost} />
+                            </td>
+                          </>
+                        ) : (
+                          <td colSpan={6}>{row.cells.join(' | ')}</td>
+                        )}
+                        <td className="error-message">
+                          {row.errors.map((e) => `${e.field} ${e.message}`).join('; ')}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          <div className="import-actions">
+            <button onClick={reset} className="action-button" disabled={busy}>
+              Cancel
+            </button>
+            <button onClick={handleImport} className="action-button" disabled={!canImport}>
+              {busy ? 'Working…' : `Import ${preview?.validCount ?? 0} rows`}
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
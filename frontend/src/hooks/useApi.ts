@@ -1,50 +1,174 @@
-import { useEffect, useState } from 'react';
-import { models, mockMeasuredWorks } from '../Utilities/mockdata';
-import type { CostModel, MeasuredWork } from '../types/models';
+import { useCallback } from 'react';
+import { api, ApiError, requestPath } from '../Utilities/api';
+import { invalidateQueries } from '../Utilities/queryCache';
+import type {
+  AuditFilters,
+  BenchmarkFilters,
+  CashflowQuery,
+  ComparisonQuery,
+  CostModel,
+  CostModelQuery,
+  MeasuredWork,
+  SimulationQuery,
+} from '../types/models';
+import { useApiQuery, useQuery } from './useQuery';
 
+// Shared empty results, so a list that hasn't loaded keeps its identity
+// between renders
+const NONE: never[] = [];
+
+/**
+ * A model and its works. Changes made through Utilities/api.ts update both
+ * by themselves; refetch() is for changes made elsewhere, e.g. by someone
+ * else, and re-reads everything shown for the model in the background.
+ */
 export function useFetchModelById(modelId: string) {
-  const [model, setModel] = useState<CostModel | null>(null);
-  const [works, setWorks] = useState<MeasuredWork[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
-  useEffect(() => {
-    let active = true;
-    const fetchModel = async () => {
-      setLoading(true);
-      try {
-        const found = models.find((m) => m.id === modelId);
-        if (!found) {
-          if (active) {
-            setModel(null);
-            setWorks([]);
-            setError('Model not found');
-          }
-          return;
-        }
-        const relatedWorks = mockMeasuredWorks.filter(
-          (work) => work.costModelId === modelId
-        );
-        if (active) {
-          setModel(found);
-          setWorks(relatedWorks);
-          setError(null);
-        }
-      } catch (err) {
-        if (active) {
-          setModel(null);
-          setWorks([]);
-          setError((err as Error).message);
-        }
-      } finally {
-        if (active) {
-          setLoading(false);
-        }
-      }
-    };
-    fetchModel();
-    return () => {
-      active = false;
-    };
-  }, [modelId]);
-  return { model, works, loading, error };
-}
\ No newline at end of file
+  const params = { id: modelId };
+  const model = useApiQuery('GET /models/{id}', { params });
+  const works = useApiQuery('GET /models/{id}/works', { params });
+  const error = model.error ?? works.error;
+  const { setData: setWorksData } = works;
+  // Local edits made ahead of the server's answer
+  const setWorks = useCallback(
+    (update: (current: MeasuredWork[]) => MeasuredWork[]) => setWorksData((current) => update(current ?? [])),
+    [setWorksData]
+  );
+  const refetch = useCallback(() => invalidateQueries(`/models/${modelId}`), [modelId]);
+  return {
+    model: model.data ?? null,
+    works: works.data ?? NONE,
+    loading: model.loading || works.loading,
+    error: error?.message ?? null,
+    notFound: model.error instanceof ApiError && model.error.status === 404,
+    setModel: model.setData,
+    setWorks,
+    refetch,
+  };
+}
+
+/**
+ * How a model's total builds up from its works cost through its add-ons
+ */
+export function useFetchCostPlanSummary(modelId: string) {
+  const { data, loading, error } = useApiQuery('GET /models/{id}/summary', { params: { id: modelId } });
+  return { summary: data ?? null, loading, error: error?.message ?? null };
+}
+
+/**
+ * A model's spend profile; pass null for a query while the model has no
+ * construction programme to spread it over
+ */
+export function useFetchCashflow(modelId: string, query: CashflowQuery | null) {
+  const { data, loading, error } = useApiQuery(
+    'GET /models/{id}/cashflow',
+    query === null ? null : { params: { id: modelId }, query }
+  );
+  return { cashflow: data ?? null, loading, error: error?.message ?? null };
+}
+
+/**
+ * Monte Carlo simulation of a model's total from its ranges and risks
+ */
+// A null query leaves the simulation unrun, since it takes a while
+export function useFetchSimulation(modelId: string, query: SimulationQuery | null) {
+  const options = { params: { id: modelId }, query: query ?? {} };
+  // Cached outside /models, so saving the model or its works doesn't run it
+  // again behind the user's back; rerun() runs it again on request
+  const key = query === null ? null : `/simulations${requestPath('GET /models/{id}/simulation', options)}`;
+  const { data, loading, error, refetch } = useQuery(key, () => api('GET /models/{id}/simulation', options));
+  return { simulation: data ?? null, loading, error: error?.message ?? null, rerun: refetch };
+}
+
+export function useFetchElements() {
+  const { data, loading, error } = useApiQuery('GET /elements', {});
+  return { elements: data ?? NONE, loading, error: error?.message ?? null };
+}
+
+// Largest page the API serves
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Every model, fetched page by page - for pickers and filters that need
+ * the full list rather than one screen of it
+ */
+export function useFetchModels() {
+  // Cached under the list's path, so it is refreshed with the list
+  const { data, loading, error } = useQuery('/models?all', async () => {
+    const all: CostModel[] = [];
+    let total = Infinity;
+    while (all.length < total) {
+      const page = await api('GET /models', {
+        query: { sort: 'projectName', order: 'asc', limit: MAX_PAGE_SIZE, offset: all.length },
+      });
+      all.push(...page.items);
+      total = page.items.length > 0 ? page.total : all.length;
+    }
+    return all;
+  });
+  return { models: data ?? NONE, loading, error: error?.message ?? null };
+}
+
+/**
+ * One page of the model list for a search, filters and sort order
+ */
+export function useFetchModelPage(query: CostModelQuery) {
+  const { data, loading, error } = useApiQuery('GET /models', { query });
+  return { page: data ?? null, loading, error: error?.message ?? null };
+}
+
+export function useFetchBenchmarks(filters: BenchmarkFilters) {
+  const { data, loading, error } = useApiQuery('GET /benchmarks', { query: filters });
+  return { report: data ?? null, loading, error: error?.message ?? null };
+}
+
+export function useFetchRevisions(modelId: string) {
+  const { data, loading, error } = useApiQuery('GET /models/{id}/revisions', { params: { id: modelId } });
+  return { revisions: data ?? NONE, loading, error: error?.message ?? null };
+}
+
+/**
+ * Diff between two revisions; nothing is fetched until both are chosen
+ */
+export function useFetchRevisionDiff(modelId: string, from: number | null, to: number | null) {
+  const { data, loading, error } = useApiQuery(
+    'GET /models/{id}/revisions/diff',
+    from === null || to === null ? null : { params: { id: modelId }, query: { from, to } }
+  );
+  return { diff: data ?? null, loading, error: error?.message ?? null };
+}
+
+/**
+ * A model's audit trail, newest first
+ */
+export function useFetchAudit(modelId: string, filters: AuditFilters) {
+  const { data, loading, error } = useApiQuery('GET /models/{id}/audit', { params: { id: modelId }, query: filters });
+  return { entries: data ?? NONE, loading, error: error?.message ?? null };
+}
+
+export function useFetchTemplates() {
+  const { data, loading, error } = useApiQuery('GET /templates', {});
+  return { templates: data ?? NONE, loading, error: error?.message ?? null };
+}
+
+export function useFetchResources() {
+  const { data, loading, error } = useApiQuery('GET /resources', {});
+  return { resources: data ?? NONE, loading, error: error?.message ?? null };
+}
+
+export function useFetchRates() {
+  const { data, loading, error } = useApiQuery('GET /rates', {});
+  return { rates: data ?? NONE, loading, error: error?.message ?? null };
+}
+
+/**
+ * Two models or revisions side by side; nothing is fetched until both
+ * models are chosen
+ */
+export function useFetchComparison(query: Partial<ComparisonQuery>) {
+  const { fromModel, toModel } = query;
+  const { data, loading, error } = useApiQuery(
+    'GET /compare',
+    fromModel && toModel ? { query: { ...query, fromModel, toModel } } : null
+  );
+  return { comparison: data ?? null, loading, error: error?.message ?? null };
+}
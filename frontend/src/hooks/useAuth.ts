@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import type { User } from '../types/models';
+
+export interface AuthApi {
+  user: User | null;
+  login: (username: string, password: string) => Promise<void>;
+  logout: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthApi | null>(null);
+
+/**
+ * The signed-in user and sign-in/out actions, from AuthProvider
+ */
+export function useAuth(): AuthApi {
+  const auth = useContext(AuthContext);
+  if (!auth) {
+    throw new Error('useAuth must be used inside <AuthProvider>');
+  }
+  return auth;
+}
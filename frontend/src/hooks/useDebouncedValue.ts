@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react';
+
+/**
+ * The value once it has stopped changing for the delay, e.g. search text,
+ * so a request goes out when typing pauses rather than on every keystroke
+ */
+export function useDebouncedValue<T>(value: T, delay = 300): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+}
@@ -0,0 +1,38 @@
+import { useEffect, useRef, useState } from 'react';
+import type { AuditEntry, ModelEvent, Viewer } from '../types/models';
+
+/**
+ * Live updates for one cost model over Server-Sent Events
+ *
+ * Calls onChange with the audit entry of every change anyone makes to the
+ * model or its works, and returns everyone currently viewing it (including
+ * the signed-in user). EventSource sends the session cookie and reconnects
+ * by itself if the connection drops.
+ */
+export function useModelEvents(modelId: string, onChange: (entry: AuditEntry) => void): Viewer[] {
+  const [viewers, setViewers] = useState<Viewer[]>([]);
+  // Latest callback, so a new one doesn't reopen the connection
+  const onChangeRef = useRef(onChange);
+  useEffect(() => {
+    onChangeRef.current = onChange;
+  });
+
+  useEffect(() => {
+    const source = new EventSource(`/api/models/${encodeURIComponent(modelId)}/events`, { withCredentials: true });
+    const read = (message: MessageEvent<string>) => JSON.parse(message.data) as ModelEvent;
+    source.addEventListener('presence', (message) => {
+      const event = read(message);
+      if (event.type === 'presence') setViewers(event.viewers);
+    });
+    source.addEventListener('change', (message) => {
+      const event = read(message);
+      if (event.type === 'change') onChangeRef.current(event.entry);
+    });
+    return () => {
+      source.close();
+      setViewers([]);
+    };
+  }, [modelId]);
+
+  return viewers;
+}
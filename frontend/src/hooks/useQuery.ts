@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useRef, useSyncExternalStore } from 'react';
+import type { ResponseBody, Route } from '../../../shared/api';
+import { api, requestPath, type OptionsArgument, type RequestOptions } from '../Utilities/api';
+import { loadQuery, readQuery, setQueryData, subscribe, type QueryState } from '../Utilities/queryCache';
+
+const DISABLED: QueryState<never> = { data: undefined, error: null, loading: false };
+
+/**
+ * Cached read (Utilities/queryCache.ts) under key, fetched with fetcher;
+ * a null key fetches nothing, e.g. until the user has chosen what to show
+ *
+ * refetch() fetches again, keeping what is shown until the new data
+ * arrives; setData() replaces it, e.g. with the result of a write.
+ */
+export function useQuery<T>(key: string | null, fetcher: () => Promise<T>) {
+  // Latest fetcher; the key identifies what it fetches
+  const fetcherRef = useRef(fetcher);
+  useEffect(() => {
+    fetcherRef.current = fetcher;
+  });
+
+  const subscribeToKey = useCallback(
+    (listener: () => void) => (key === null ? () => {} : subscribe(key, listener)),
+    [key]
+  );
+  const state = useSyncExternalStore(subscribeToKey, () => (key === null ? DISABLED : readQuery<T>(key)));
+
+  useEffect(() => {
+    if (key !== null) {
+      loadQuery(key, () => fetcherRef.current());
+    }
+  }, [key]);
+
+  const refetch = useCallback(
+    () => (key === null ? Promise.resolve() : loadQuery(key, () => fetcherRef.current(), { force: true })),
+    [key]
+  );
+  const setData = useCallback(
+    (updater: T | ((current: T | undefined) => T)) => {
+      if (key !== null) {
+        setQueryData(key, updater);
+      }
+    },
+    [key]
+  );
+
+  return { ...state, refetch, setData };
+}
+
+/**
+ * Cached read of one API route, typed from the contract; null options
+ * fetch nothing
+ */
+export function useApiQuery<R extends Route>(route: R, options: RequestOptions<R> | null) {
+  const args = [options ?? undefined] as OptionsArgument<R>;
+  const key = options === null ? null : requestPath(route, ...args);
+  return useQuery<ResponseBody<R>>(key, () => api(route, ...args));
+}
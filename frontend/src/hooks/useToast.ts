@@ -0,0 +1,32 @@
+import { createContext, useContext } from 'react';
+import type { ToastType } from '../components/Toast';
+
+export interface ToastApi {
+  /**
+   * Show a toast; returns its id so it can be dismissed early
+   */
+  show: (type: ToastType, message: string) => string;
+  success: (message: string) => string;
+  info: (message: string) => string;
+  warning: (message: string) => string;
+  /**
+   * Accepts a caught error as well as a message; API errors include the
+   * server's validation details
+   */
+  error: (error: unknown, prefix?: string) => string;
+  dismiss: (id: string) => void;
+}
+
+export const ToastContext = createContext<ToastApi | null>(null);
+
+/**
+ * Access the app-wide notifications from any component or hook under
+ * ToastProvider
+ */
+export function useToast(): ToastApi {
+  const toast = useContext(ToastContext);
+  if (!toast) {
+    throw new Error('useToast must be used inside <ToastProvider>');
+  }
+  return toast;
+}
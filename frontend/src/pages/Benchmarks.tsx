@@ -0,0 +1,250 @@
+import { useState } from 'react';
+import { Link, useSearchParams } from 'react-router';
+import { BenchmarkBar } from '../components/BenchmarkBar';
+import { Currency } from '../components/Currency';
+import { useFetchBenchmarks, useFetchModels } from '../hooks/useApi';
+import type { BenchmarkFilters, BenchmarkPosition, CostModel } from '../types/models';
+
+const STATUSES: CostModel['status'][] = ['draft', 'approved', 'archived'];
+
+function VarianceCell({ position }: { position: BenchmarkPosition | null }) {
+  if (!position) {
+    return <td>-</td>;
+  }
+  const sign = position.varianceFromMedian > 0 ? '+' : '';
+  return (
+    <td className="number-cell">
+      {sign}
+      <Currency amount={position.varianceFromMedian} /> ({sign}
+      {position.percentFromMedian.toFixed(1)}%)
+    </td>
+  );
+}
+
+/**
+ * Benchmarks - £/m² GIFA across past projects
+ *
+ * Filters pick the comparison set (by default approved models); the chosen
+ * model is then positioned against the set's median and quartiles, overall
+ * and element by element, even if the filters leave it out of the set.
+ * The compared model is kept in the URL (?modelId=) so the view can be
+ * linked to from a model and shared.
+ */
+export function Benchmarks() {
+  const { models } = useFetchModels();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [comparisonSet, setComparisonSet] = useState<Omit<BenchmarkFilters, 'modelId'>>({
+    status: ['approved'],
+    level: 'element',
+  });
+  const filters: BenchmarkFilters = { ...comparisonSet, modelId: searchParams.get('modelId') ?? undefined };
+  const { report, loading, error } = useFetchBenchmarks(filters);
+
+  const setModelId = (modelId: string) => {
+    setSearchParams(modelId ? { modelId } : {}, { replace: true });
+  };
+
+  const clients = [...new Set(models.map((model) => model.client).filter((client): client is string => !!client))].sort();
+  const subject = report?.overall.models.find((entry) => entry.modelId === filters.modelId);
+
+  const toggleStatus = (status: CostModel['status']) => {
+    setComparisonSet((current) => {
+      const selected = current.status ?? [];
+      return {
+        ...current,
+        status: selected.includes(status) ? selected.filter((s) => s !== status) : [...selected, status],
+      };
+    });
+  };
+
+  return (
+    <div className="benchmarks-page">
+      <div className="page-header">
+        <h2>Cost per m² Benchmarks</h2>
+      </div>
+
+      <div className="benchmark-filters">
+        <fieldset>
+          <legend>Comparison set</legend>
+          {STATUSES.map((status) => (
+            <label key={status}>
+              <input
+                type="checkbox"
+                checked={filters.status?.includes(status) ?? false}
+                onChange={() => toggleStatus(status)}
+              />
+              {status}
+            </label>
+          ))}
+          <label>
+            Client{' '}
+            <select
+              value={filters.client ?? ''}
+              onChange={(e) => setComparisonSet({ ...comparisonSet, client: e.target.value || undefined })}
+            >
+              <option value="">All clients</option>
+              {clients.map((client) => (
+                <option key={client} value={client}>
+                  {client}
+                </option>
+              ))}
+            </select>
+          </label>
+        </fieldset>
+
+        <label>
+          Compare model{' '}
+          <select
+            value={filters.modelId ?? ''}
+            onChange={(e) => setModelId(e.target.value)}
+          >
+            <option value="">None</option>
+            {models.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.projectName}
+                {model.gifa ? '' : ' (no GIFA)'}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label>
+          Group by{' '}
+          <select
+            value={filters.level}
+            onChange={(e) => setComparisonSet({ ...comparisonSet, level: e.target.value as BenchmarkFilters['level'] })}
+          >
+            <option value="element">NRM element</option>
+            <option value="group">NRM group</option>
+          </select>
+        </label>
+      </div>
+
+      {error && <p className="error-message">{error}</p>}
+      {loading && !report && <div>Loading..</div>}
+
+      {report && (
+        <>
+          <div className="benchmark-summary">
+            <h3>Overall works cost £/m² GIFA</h3>
+            {report.overall.stats ? (
+              <>
+                <p>
+                  {report.overall.stats.count} model{report.overall.stats.count === 1 ? '' : 's'} · lower quartile{' '}
+                  <Currency amount={report.overall.stats.lowerQuartile} /> · median{' '}
+                  <Currency amount={report.overall.stats.median} /> · upper quartile{' '}
+                  <Currency amount={report.overall.stats.upperQuartile} />
+                </p>
+                <BenchmarkBar stats={report.overall.stats} value={subject?.costPerM2} />
+              </>
+            ) : (
+              <div className="empty-state">
+                <p>📋 No models with a GIFA match these filters</p>
+              </div>
+            )}
+            {filters.modelId && !subject && (
+              <p className="warning-message">⚠️ The selected model has no GIFA, so it cannot be benchmarked</p>
+            )}
+          </div>
+
+          <div className="table-container">
+            <table className="benchmark-table">
+              <thead>
+                <tr>
+                  <th>Project</th>
+                  <th>Client</th>
+                  <th>Status</th>
+                  <th>GIFA (m²)</th>
+                  <th>Works Cost</th>
+                  <th>£/m²</th>
+                  <th>Quartile</th>
+                  <th>vs Median</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.overall.models.map((entry) => (
+                  <tr
+                    key={entry.modelId}
+                    className={entry.modelId === filters.modelId ? 'benchmark-subject' : undefined}
+                    style={entry.modelId === filters.modelId ? { fontWeight: 'bold' } : undefined}
+                  >
+                    <td className="name-cell">
+                      <Link to={`/models/${entry.modelId}`}>{entry.projectName}</Link>
+                      {!entry.inComparisonSet && ' (not in comparison set)'}
+                    </td>
+                    <td>{entry.client || '-'}</td>
+                    <td>
+                      <span className={`status-badge status-${entry.status}`}>{entry.status.toUpperCase()}</span>
+                    </td>
+                    <td className="number-cell">{entry.gifa.toLocaleString()}</td>
+                    <td className="number-cell">
+                      <Currency amount={entry.worksCost} />
+                    </td>
+                    <td className="number-cell">
+                      <Currency amount={entry.costPerM2} />
+                    </td>
+                    <td>{entry.position ? `Q${entry.position.quartile}` : '-'}</td>
+                    <VarianceCell position={entry.position} />
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <h3>By element</h3>
+          {report.elements.length === 0 ? (
+            <div className="empty-state">
+              <p>📋 No measured works to compare</p>
+            </div>
+          ) : (
+            <div className="table-container">
+              <table className="benchmark-table">
+                <thead>
+                  <tr>
+                    <th>Code</th>
+                    <th>Element</th>
+                    <th>Models</th>
+                    <th>Lower Quartile</th>
+                    <th>Median</th>
+                    <th>Upper Quartile</th>
+                    <th>Spread</th>
+                    {subject && <th>{subject.projectName}</th>}
+                    {subject && <th>vs Median</th>}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.elements.map((element) => {
+                    const mine = element.models.find((entry) => entry.modelId === filters.modelId);
+                    return (
+                      <tr key={element.elementCode}>
+                        <td>{element.elementCode}</td>
+                        <td>{element.elementName}</td>
+                        <td className="number-cell">{element.stats?.count ?? 0}</td>
+                        <td className="number-cell">
+                          {element.stats ? <Currency amount={element.stats.lowerQuartile} /> : '-'}
+                        </td>
+                        <td className="number-cell">
+                          {element.stats ? <Currency amount={element.stats.median} /> : '-'}
+                        </td>
+                        <td className="number-cell">
+                          {element.stats ? <Currency amount={element.stats.upperQuartile} /> : '-'}
+                        </td>
+                        <td>{element.stats && <BenchmarkBar stats={element.stats} value={mine?.costPerM2} />}</td>
+                        {subject && (
+                          <td className="number-cell">
+                            {mine ? <Currency amount={mine.costPerM2} /> : 'Not measured'}
+                          </td>
+                        )}
+                        {subject && <VarianceCell position={mine?.position ?? null} />}
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,243 @@
+import { Link, useSearchParams } from 'react-router';
+import { CostBridge } from '../components/CostBridge';
+import { Currency } from '../components/Currency';
+import { useFetchComparison, useFetchModels, useFetchRevisions } from '../hooks/useApi';
+import type { CostModel, ElementComparison, ElementSide } from '../types/models';
+
+type SideKey = 'from' | 'to';
+
+function readRevision(value: string | null): number | undefined {
+  const n = Number(value);
+  return value && Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+function RevisionSelect({ modelId, value, onChange }: { modelId: string; value?: number; onChange: (n?: number) => void }) {
+  const { revisions } = useFetchRevisions(modelId);
+  return (
+    <select value={value ?? ''} onChange={(e) => onChange(readRevision(e.target.value))} aria-label="Revision">
+      <option value="">Current</option>
+      {[...revisions].reverse().map((revision) => (
+        <option key={revision.id} value={revision.number}>
+          Rev {revision.number}
+          {revision.label && ` - ${revision.label}`}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+interface SidePickerProps {
+  label: string;
+  models: CostModel[];
+  modelId?: string;
+  revision?: number;
+  onChange: (modelId?: string, revision?: number) => void;
+}
+
+function SidePicker({ label, models, modelId, revision, onChange }: SidePickerProps) {
+  return (
+    <fieldset>
+      <legend>{label}</legend>
+      <select value={modelId ?? ''} onChange={(e) => onChange(e.target.value || undefined)} aria-label={`${label} model`}>
+        <option value="">Choose a model</option>
+        {models.map((model) => (
+          <option key={model.id} value={model.id}>
+            {model.projectName}
+          </option>
+        ))}
+      </select>{' '}
+      {modelId && <RevisionSelect modelId={modelId} value={revision} onChange={(n) => onChange(modelId, n)} />}
+    </fieldset>
+  );
+}
+
+function Variance({ amount, percent }: { amount: number; percent: number | null }) {
+  return (
+    <span className={amount > 0 ? 'delta-up' : amount < 0 ? 'delta-down' : undefined}>
+      {amount > 0 && '+'}
+      <Currency amount={amount} />
+      {percent !== null && ` (${percent > 0 ? '+' : ''}${percent.toFixed(1)}%)`}
+    </span>
+  );
+}
+
+function SideCells({ side }: { side: ElementSide }) {
+  if (side.works.length === 0) {
+    return <td colSpan={4} className="empty-cell">Not measured</td>;
+  }
+  return (
+    <>
+      <td className="number-cell" title={side.works.map((work) => work.description).join('\n')}>
+        {side.quantity === null ? 'Mixed units' : side.quantity.toFixed(2)}
+      </td>
+      <td className="unit-cell">{side.unit ?? '-'}</td>
+      <td className="currency-cell">{side.rate === null ? '-' : <Currency amount={side.rate} />}</td>
+      <td className="currency-cell">
+        <Currency amount={side.total} />
+      </td>
+    </>
+  );
+}
+
+function ElementRow({ element }: { element: ElementComparison }) {
+  return (
+    <tr>
+      <td>{element.elementCode}</td>
+      <td>{element.elementName}</td>
+      <SideCells side={element.from} />
+      <SideCells side={element.to} />
+      <td className="currency-cell">
+        <Variance amount={element.variance} percent={element.variancePercent} />
+      </td>
+    </tr>
+  );
+}
+
+/**
+ * Compare - Two models or revisions side by side
+ *
+ * Works are aligned by element code, with quantities, rates, totals and
+ * the variance of each element, then a bridge from the first works cost to
+ * the second; add-ons are left out. Both sides are kept in the URL
+ * (?fromModel=&fromRevision=&toModel=&toRevision=) so a comparison can be
+ * shared; leaving out a revision compares the model as it is now.
+ */
+export function Compare() {
+  const { models } = useFetchModels();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = {
+    fromModel: searchParams.get('fromModel') ?? undefined,
+    fromRevision: readRevision(searchParams.get('fromRevision')),
+    toModel: searchParams.get('toModel') ?? undefined,
+    toRevision: readRevision(searchParams.get('toRevision')),
+  };
+  const { comparison, loading, error } = useFetchComparison(query);
+
+  const setSide = (side: SideKey, modelId?: string, revision?: number) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of [
+      [`${side}Model`, modelId],
+      [`${side}Revision`, revision && String(revision)],
+    ] as const) {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    }
+    setSearchParams(next, { replace: true });
+  };
+
+  const swap = () => {
+    setSearchParams(
+      new URLSearchParams({
+        ...(query.toModel && { fromModel: query.toModel }),
+        ...(query.toRevision && { fromRevision: String(query.toRevision) }),
+        ...(query.fromModel && { toModel: query.fromModel }),
+        ...(query.fromRevision && { toRevision: String(query.fromRevision) }),
+      }),
+      { replace: true }
+    );
+  };
+
+  const sideName = (side: SideKey) => {
+    const info = comparison?.[side];
+    if (!info) return side === 'from' ? 'A' : 'B';
+    return info.revision === null ? info.projectName : `${info.projectName} rev ${info.revision}`;
+  };
+
+  return (
+    <div className="compare-page">
+      <div className="page-header">
+        <h2>Compare</h2>
+      </div>
+
+      <div className="compare-pickers">
+        <SidePicker
+          label="From (A)"
+          models={models}
+          modelId={query.fromModel}
+          revision={query.fromRevision}
+          onChange={(modelId, revision) => setSide('from', modelId, revision)}
+        />
+        <button onClick={swap} className="action-button" aria-label="Swap A and B">
+          ⇄
+        </button>
+        <SidePicker
+          label="To (B)"
+          models={models}
+          modelId={query.toModel}
+          revision={query.toRevision}
+          onChange={(modelId, revision) => setSide('to', modelId, revision)}
+        />
+      </div>
+
+      {!query.fromModel || !query.toModel ? (
+        <p className="hint">Choose two models - or the same model at two revisions - to compare.</p>
+      ) : null}
+      {loading && !comparison && <div>Loading..</div>}
+      {error && <p className="error-message">{error}</p>}
+
+      {comparison && (
+        <>
+          <div className="compare-summary">
+            <h3>
+              Works cost of <Link to={`/models/${comparison.from.modelId}`}>{sideName('from')}</Link>{' '}
+              <Currency amount={comparison.from.worksCost} /> →{' '}
+              <Link to={`/models/${comparison.to.modelId}`}>{sideName('to')}</Link>{' '}
+              <Currency amount={comparison.to.worksCost} />:{' '}
+              <Variance amount={comparison.variance} percent={comparison.variancePercent} />
+            </h3>
+          </div>
+
+          <div className="table-container">
+            <table className="compare-table">
+              <thead>
+                <tr>
+                  <th rowSpan={2}>Code</th>
+                  <th rowSpan={2}>Element</th>
+                  <th colSpan={4}>{sideName('from')}</th>
+                  <th colSpan={4}>{sideName('to')}</th>
+                  <th rowSpan={2}>Variance</th>
+                </tr>
+                <tr>
+                  <th>Quantity</th>
+                  <th>Unit</th>
+                  <th>Rate</th>
+                  <th>Total</th>
+                  <th>Quantity</th>
+                  <th>Unit</th>
+                  <th>Rate</th>
+                  <th>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.elements.map((element) => (
+                  <ElementRow key={element.elementCode} element={element} />
+                ))}
+              </tbody>
+              <tfoot>
+                <tr className="total-row">
+                  <td colSpan={5}>Works Cost</td>
+                  <td className="currency-cell">
+                    <Currency amount={comparison.from.worksCost} />
+                  </td>
+                  <td colSpan={3}></td>
+                  <td className="currency-cell">
+                    <Currency amount={comparison.to.worksCost} />
+                  </td>
+                  <td className="currency-cell">
+                    <Variance amount={comparison.variance} percent={comparison.variancePercent} />
+                  </td>
+                </tr>
+              </tfoot>
+            </table>
+          </div>
+
+          <h3>Bridge</h3>
+          <CostBridge steps={comparison.bridge} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+import { useState, type FormEvent } from 'react';
+import { useAuth } from '../hooks/useAuth';
+import { errorMessage } from '../Utilities/api';
+
+/**
+ * Login - Username and password sign-in
+ *
+ * Shown by AuthProvider in place of the app whenever there is no session.
+ */
+export function Login() {
+  const { login } = useAuth();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await login(username, password);
+    } catch (err) {
+      setError(errorMessage(err));
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="app login-page">
+      <h1>Cost Insight Dashboard</h1>
+      <form onSubmit={handleSubmit} className="login-form">
+        <h2>Sign in</h2>
+        <label>
+          Username
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            required
+          />
+        </label>
+        <label>
+          Password
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete="current-password"
+            required
+          />
+        </label>
+        {error && <p className="error-message">{error}</p>}
+        <button type="submit" className="action-button" disabled={busy || !username || !password}>
+          {busy ? 'Signing in…' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+}
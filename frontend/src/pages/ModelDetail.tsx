@@ -1,36 +1,218 @@
-
-
+import { useRef, useState } from 'react';
+import { Link, useNavigate, useParams } from 'react-router';
+import { AuditTimeline } from '../components/AuditTimeline';
+import { CashflowForecast } from '../components/CashflowForecast';
+import { CostPlanBuildUp } from '../components/CostPlanBuildUp';
 import { Currency } from '../components/Currency';
+import { MeasuredWorkEditRow } from '../components/MeasuredWorkEditRow';
 import { MeasuredWorkRow } from '../components/MeasuredWorkRow';
-import type { MeasuredWork } from '../types/models';
+import { RiskAnalysis } from '../components/RiskAnalysis';
+import { StatusActions } from '../components/StatusActions';
+import { WorksImport } from '../components/WorksImport';
+import { NotFound } from './NotFound';
+import type { AuditEntry, MeasuredWork } from '../types/models';
 
-import { useFetchModelById } from '../hooks/useApi';
+import { useFetchElements, useFetchModelById, useFetchRates } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { useModelEvents } from '../hooks/useModelEvents';
+import { useToast } from '../hooks/useToast';
+import {
+  createWork,
+  deleteWork,
+  duplicateModel,
+  errorMessage,
+  saveTemplate,
+  staleCopy,
+  updateWork,
+} from '../Utilities/api';
+import { sumMoney } from '../Utilities/money';
+import { can } from '../Utilities/permissions';
+import { draftToInput, draftTotal, emptyDraft, toDraft, type WorkDraft } from '../Utilities/workDraft';
 
 /**
- * Props for ModelDetail component
+ * The line currently open for editing; workId is null for a new line
  */
-interface ModelDetailProps {
-  /**
-   * The ID of the cost model to display
-   */
-  modelId: string;
-
-  /**
-   * Callback function to navigate back to list
-   */
-  onBack: () => void;
+interface EditState {
+  workId: string | null;
+  draft: WorkDraft;
 }
 
 /**
+ * ModelDetail - One cost model with its measured works
  *
- * @param props - ModelDetailProps
- * @returns JSX page with model details and measured works
- *
- * Demonstrates:
+ * Rendered for /models/:id. Unknown ids show the not-found page, so a
+ * stale or mistyped link fails clearly. The page follows changes other
+ * users make while it is open and shows who else is viewing it; a save
+ * based on a line someone else has changed since is refused, and the row
+ * shows their version instead.
  */
-export function ModelDetail({ modelId, onBack }: ModelDetailProps) {
+export function ModelDetail() {
+  // Model id comes from the /models/:id route
+  const { id: modelId = '' } = useParams();
+
   // Fetch model and works from backend API
-  const { model, works, loading, error } = useFetchModelById(modelId);
+  const { model, works, loading, error, notFound, setModel, setWorks, refetch } = useFetchModelById(modelId);
+
+  // NRM element library, used to flag works measured in an unexpected unit
+  const { elements } = useFetchElements();
+  const suggestedUnits = new Map(elements.map((element) => [element.code, element.suggestedUnit]));
+  const { rates } = useFetchRates();
+  const ratesById = new Map(rates.map((rate) => [rate.id, rate]));
+
+  const toast = useToast();
+  const { user } = useAuth();
+  const navigate = useNavigate();
+
+  // Inline editing: one line at a time
+  const [editing, setEditing] = useState<EditState | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [rowErrors, setRowErrors] = useState<Record<string, string>>({});
+  const [newLineError, setNewLineError] = useState<string | null>(null);
+
+  // Changes by others arrive one event per line (an import can send
+  // hundreds), so they are gathered for a moment and applied together.
+  // Our own changes are already on screen.
+  const othersChanges = useRef<AuditEntry[]>([]);
+  const viewers = useModelEvents(modelId, (entry) => {
+    if (entry.actor.id === user?.id) return;
+    if (entry.entity === 'model' && entry.action === 'delete') {
+      toast.warning(`${entry.actor.displayName} deleted ${entry.entityLabel}`);
+      navigate('/models');
+      return;
+    }
+    if (othersChanges.current.push(entry) > 1) return;
+    setTimeout(() => {
+      const entries = othersChanges.current.splice(0);
+      const names = [...new Set(entries.map((e) => e.actor.displayName))].join(', ');
+      toast.info(
+        entries.length === 1 ? `${names} changed ${entries[0].entityLabel || 'a line'}` : `${names} made ${entries.length} changes`
+      );
+      refetch();
+    }, 300);
+  });
+  const otherViewers = viewers.filter((viewer) => viewer.id !== user?.id);
+
+  const setRowError = (workId: string, message?: string) => {
+    setRowErrors((current) => {
+      const next = { ...current };
+      if (message) {
+        next[workId] = message;
+      } else {
+        delete next[workId];
+      }
+      return next;
+    });
+  };
+
+  const startEdit = (work: MeasuredWork) => {
+    setRowError(work.id);
+    setEditing({ workId: work.id, draft: toDraft(work) });
+  };
+
+  const startAdd = () => {
+    setNewLineError(null);
+    setEditing({ workId: null, draft: emptyDraft });
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    setNewLineError(null);
+  };
+
+  // Edits are shown straight away; if the server rejects them the row goes
+  // back to its last saved values and shows why
+  const saveEdit = async () => {
+    if (!editing) return;
+    const input = draftToInput(editing.draft);
+
+    if (editing.workId === null) {
+      setSaving(true);
+      try {
+        const created = await createWork(modelId, input);
+        setWorks((current) => [...current, created]);
+        setEditing(null);
+        setNewLineError(null);
+        toast.success(`Added ${created.elementCode} ${created.description}`.trim());
+      } catch (err) {
+        setNewLineError(errorMessage(err));
+        toast.error(err, 'Work not added');
+      } finally {
+        setSaving(false);
+      }
+      return;
+    }
+
+    const workId = editing.workId;
+    const previous = works.find((work) => work.id === workId);
+    if (!previous) return;
+    setWorks((current) =>
+      current.map((work) =>
+        work.id === workId ? { ...work, ...input, buildUp: input.buildUp, rateId: input.rateId, totalCost: draftTotal(editing.draft) } : work
+      )
+    );
+    setEditing(null);
+    try {
+      const updated = await updateWork(modelId, workId, input, previous.updatedAt);
+      setWorks((current) => current.map((work) => (work.id === workId ? updated : work)));
+      toast.success(`Saved ${updated.elementCode} ${updated.description}`.trim());
+    } catch (err) {
+      const latest = staleCopy<MeasuredWork>(err);
+      setWorks((current) => current.map((work) => (work.id === workId ? (latest ?? previous) : work)));
+      setRowError(
+        workId,
+        latest
+          ? 'Changes not saved - someone else changed this line first; it now shows their version'
+          : `Changes not saved - ${errorMessage(err)}`
+      );
+      toast.error(err, 'Changes not saved');
+    }
+  };
+
+  const removeWork = async (work: MeasuredWork) => {
+    if (!window.confirm(`Delete "${work.description || work.elementCode}"?`)) return;
+    const index = works.indexOf(work);
+    setWorks((current) => current.filter((w) => w.id !== work.id));
+    try {
+      await deleteWork(modelId, work.id, work.updatedAt);
+      toast.success(`Deleted ${work.elementCode} ${work.description}`.trim());
+    } catch (err) {
+      setWorks((current) => [...current.slice(0, index), staleCopy<MeasuredWork>(err) ?? work, ...current.slice(index)]);
+      setRowError(work.id, `Not deleted - ${errorMessage(err)}`);
+      toast.error(err, 'Work not deleted');
+    }
+  };
+
+  // Copy the model and its works as a new draft, then open the copy
+  const duplicate = async () => {
+    if (!model) return;
+    const projectName = window.prompt('Name of the copy', `${model.projectName} (copy)`);
+    if (!projectName?.trim()) return;
+    try {
+      const copy = await duplicateModel(model.id, projectName.trim());
+      toast.success(`Created ${copy.projectName} as a draft`);
+      navigate(`/models/${copy.id}`);
+    } catch (err) {
+      toast.error(err, 'Model not duplicated');
+    }
+  };
+
+  const saveAsTemplate = async () => {
+    if (!model) return;
+    const name = window.prompt('Template name', model.projectName);
+    if (!name?.trim()) return;
+    try {
+      const template = await saveTemplate(model.id, name.trim());
+      toast.success(`Saved template ${template.name} with ${template.workCount} works`);
+    } catch (err) {
+      toast.error(err, 'Template not saved');
+    }
+  };
+
+  // Works cost follows the line being edited, keystroke by keystroke
+  const liveTotal = sumMoney([
+    ...works.map((work) => (editing?.workId === work.id ? draftTotal(editing.draft) : work.totalCost)),
+    ...(editing?.workId === null ? [draftTotal(editing.draft)] : []),
+  ]);
 
 
   if (loading) {
@@ -41,6 +223,10 @@ export function ModelDetail({ modelId, onBack }: ModelDetailProps) {
     );
   }
 
+  if (notFound) {
+    return <NotFound message={`Cost model "${modelId}" does not exist or has been deleted.`} />;
+  }
+
   // Show error state
   if (error) {
     return (
@@ -48,9 +234,9 @@ export function ModelDetail({ modelId, onBack }: ModelDetailProps) {
         <div className="error-state">
           <p>❌ Error loading model</p>
           <p className="error-message">{error}</p>
-          <button onClick={onBack} className="action-button">
+          <Link to="/models" className="action-button">
             Back to List
-          </button>
+          </Link>
         </div>
       </div>
     );
@@ -62,25 +248,37 @@ export function ModelDetail({ modelId, onBack }: ModelDetailProps) {
       <div className="model-detail-page">
         <div className="error-state">
           <p>⚠️ Model not found</p>
-          <button onClick={onBack} className="action-button">
+          <Link to="/models" className="action-button">
             Back to List
-          </button>
+          </Link>
         </div>
       </div>
     );
   }
 
+  // Only drafts change, and only for roles that edit models
+  const editable = model.status === 'draft' && can(user, 'editModels');
+
   // Show model details
   return (
     <div className="model-detail-page">
       <div className="page-header">
-        <button onClick={onBack} className="back-button">
+        <Link to="/models" className="back-button">
           ← Back to Models
-        </button>
+        </Link>
         <h2>{model.projectName}</h2>
         <span className={`status-badge status-${model.status}`}>
           {model.status.toUpperCase()}
         </span>
+        {otherViewers.length > 0 && (
+          <span className="presence" title="Also viewing this model">
+            👥 {otherViewers.map((viewer) => viewer.displayName).join(', ')}
+          </span>
+        )}
+        <StatusActions
+          model={model}
+          onTransition={setModel}
+        />
       </div>
 
       <div className="model-info">
@@ -97,12 +295,34 @@ export function ModelDetail({ modelId, onBack }: ModelDetailProps) {
             <label>GIFA:</label>
             <span>{model.gifa ? `${model.gifa.toLocaleString()} m²` : 'N/A'}</span>
           </div>
+          {model.baseDate && (
+            <div className="info-item">
+              <label>Base Date:</label>
+              <span>{new Date(model.baseDate).toLocaleDateString('en-GB')}</span>
+            </div>
+          )}
           <div className="info-item">
             <label>Prepared By:</label>
             <span>{model.preparedBy || 'N/A'}</span>
           </div>
+          {model.approvedBy && (
+            <div className="info-item">
+              <label>Approved By:</label>
+              <span>
+                {model.approvedBy}
+                {model.approvedAt && ` on ${new Date(model.approvedAt).toLocaleDateString('en-GB')}`}
+              </span>
+            </div>
+          )}
+          <div className="info-item">
+            <label>Works Cost:</label>
+            <span>
+              <Currency amount={liveTotal} />
+              {editing && ' (unsaved)'}
+            </span>
+          </div>
           <div className="info-item total-cost-item">
-            <label>Total Cost:</label>
+            <label>Total Project Cost:</label>
             <span className="total-cost-value">
               <Currency amount={model.totalCost} />
             </span>
@@ -110,10 +330,49 @@ export function ModelDetail({ modelId, onBack }: ModelDetailProps) {
         </div>
       </div>
 
+      <div className="report-actions">
+        <a href={`/api/models/${model.id}/report?format=html`} target="_blank" rel="noreferrer" className="action-button">
+          Print Cost Plan
+        </a>
+        <a href={`/api/models/${model.id}/report?format=csv`} className="action-button">
+          Export CSV
+        </a>
+        <Link to={`/models/${model.id}/revisions`} className="action-button">
+          Revision History
+        </Link>
+        <Link to={`/compare?fromModel=${encodeURIComponent(model.id)}`} className="action-button">
+          Compare
+        </Link>
+        {can(user, 'editModels') && (
+          <>
+            <button onClick={duplicate} className="action-button">
+              Duplicate
+            </button>
+            <button onClick={saveAsTemplate} className="action-button">
+              Save as Template
+            </button>
+          </>
+        )}
+        {!!model.gifa && (
+          <Link to={`/benchmarks?modelId=${encodeURIComponent(model.id)}`} className="action-button">
+            Benchmark £/m²
+          </Link>
+        )}
+      </div>
+
+      <CostPlanBuildUp model={model} editable={editable} onSaved={setModel} />
+
       <div className="measured-works-section">
         <h3>Measured Works ({works.length} items)</h3>
 
-        {works.length === 0 ? (
+        {can(user, 'editModels') && (
+          <WorksImport
+            modelId={model.id}
+            disabled={model.status !== 'draft'}
+          />
+        )}
+
+        {works.length === 0 && !editing ? (
           <div className="empty-state">
             <p>📋 No measured works for this cost model</p>
           </div>
@@ -133,26 +392,67 @@ export function ModelDetail({ modelId, onBack }: ModelDetailProps) {
                 </tr>
               </thead>
               <tbody>
-                {works.map((work: MeasuredWork) => (
-                  <MeasuredWorkRow
-                    key={work.id}
-                    work={work}
+                {works.map((work: MeasuredWork) =>
+                  editing?.workId === work.id ? (
+                    <MeasuredWorkEditRow
+                      key={work.id}
+                      draft={editing.draft}
+                      elements={elements}
+                      rates={rates}
+                      onChange={(draft) => setEditing({ workId: work.id, draft })}
+                      onSave={saveEdit}
+                      onCancel={cancelEdit}
+                    />
+                  ) : (
+                    <MeasuredWorkRow
+                      key={work.id}
+                      work={work}
+                      suggestedUnit={suggestedUnits.get(work.elementCode)}
+                      libraryRate={work.rateId ? ratesById.get(work.rateId) : undefined}
+                      onEdit={editable && !editing ? () => startEdit(work) : undefined}
+                      onDelete={editable && !editing ? () => removeWork(work) : undefined}
+                      error={rowErrors[work.id]}
+                    />
+                  )
+                )}
+                {editing?.workId === null && (
+                  <MeasuredWorkEditRow
+                    draft={editing.draft}
+                    elements={elements}
+                    rates={rates}
+                    onChange={(draft) => setEditing({ workId: null, draft })}
+                    onSave={saveEdit}
+                    onCancel={cancelEdit}
+                    saving={saving}
+                    error={newLineError ?? undefined}
                   />
-                ))}
+                )}
               </tbody>
             </table>
           </div>
         )}
+
+        {editable && !editing && (
+          <button onClick={startAdd} className="action-button add-work-button">
+            + Add Work
+          </button>
+        )}
       </div>
 
+      <CashflowForecast model={model} />
+
+      <RiskAnalysis model={model} editable={editable} onSaved={setModel} />
+
+      <AuditTimeline modelId={model.id} />
+
       <div className="event-info type-info">
-        <strong>Navigation Event Handler:</strong>
+        <strong>URL Routing:</strong>
 
-        The "Back to Models" button calls onBack() callback.
+        This page is rendered for /models/:id and reads the model id from the URL.
 
-        Parent component (App) receives this and changes the current page state.
+        "Back to Models" is a link to /models, so the browser back button works too.
 
-        This demonstrates how child components trigger parent state changes.
+        Links to this page can be shared and survive a refresh.
       </div>
     </div>
   );
@@ -1,38 +1,205 @@
 
-import type{ CostModel } from '../types/models'
+import { Link, useSearchParams } from 'react-router';
+import { Currency } from '../components/Currency';
+import { useFetchModelPage } from '../hooks/useApi';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import type { CostModel, CostModelQuery, CostModelSortField } from '../types/models';
 
-interface ModelListProps {
-  models: CostModel[];
-  handleViewDetails: (id: string) => void;
+const PAGE_SIZE = 25;
+
+const STATUSES: CostModel['status'][] = ['draft', 'approved', 'archived'];
+
+const COLUMNS: { field: CostModelSortField; label: string; numeric?: boolean }[] = [
+  { field: 'projectName', label: 'Project' },
+  { field: 'projectRef', label: 'Ref' },
+  { field: 'client', label: 'Client' },
+  { field: 'gifa', label: 'GIFA (m²)', numeric: true },
+  { field: 'totalCost', label: 'Total Cost', numeric: true },
+  { field: 'status', label: 'Status' },
+  { field: 'preparedBy', label: 'Prepared By' },
+  { field: 'updatedAt', label: 'Updated' },
+];
+
+const SORT_FIELDS = new Set<string>(COLUMNS.map((column) => column.field));
+
+/**
+ * Read the list state from the URL, ignoring anything malformed
+ */
+function readQuery(params: URLSearchParams): CostModelQuery & { page: number } {
+  const sort = params.get('sort');
+  const page = Number(params.get('page'));
+  const status = params.get('status')?.split(',').filter((s): s is CostModel['status'] =>
+    STATUSES.includes(s as CostModel['status'])
+  );
+  return {
+    q: params.get('q') ?? undefined,
+    status: status?.length ? status : undefined,
+    preparedBy: params.get('preparedBy') ?? undefined,
+    sort: sort && SORT_FIELDS.has(sort) ? (sort as CostModelSortField) : 'updatedAt',
+    order: params.get('order') === 'asc' ? 'asc' : 'desc',
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+  };
 }
 
-export function ModelList({ models, handleViewDetails }: ModelListProps) {
+/**
+ * ModelList - Searchable, sortable, paged table of cost models
+ *
+ * Search text, filters, sort and page all live in the URL, so the view
+ * survives a refresh and can be shared or bookmarked.
+ */
+export function ModelList() {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = readQuery(searchParams);
+  // The text filters follow the inputs in the URL straight away, but only
+  // go to the server once typing pauses
+  const q = useDebouncedValue(query.q);
+  const preparedBy = useDebouncedValue(query.preparedBy);
+  const { page, loading, error } = useFetchModelPage({
+    ...query,
+    q,
+    preparedBy,
+    limit: PAGE_SIZE,
+    offset: (query.page - 1) * PAGE_SIZE,
+  });
+
+  // Change some URL parameters; any change other than paging goes back to page 1
+  const update = (changes: Record<string, string | undefined>, replace = false) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) {
+        next.set(key, value);
+      } else {
+        next.delete(key);
+      }
+    }
+    if (!('page' in changes)) {
+      next.delete('page');
+    }
+    setSearchParams(next, { replace });
+  };
+
+  const toggleSort = (field: CostModelSortField) => {
+    const order = query.sort === field && query.order === 'asc' ? 'desc' : 'asc';
+    update({ sort: field, order });
+  };
+
+  const toggleStatus = (status: CostModel['status']) => {
+    const selected = query.status ?? [];
+    const next = selected.includes(status) ? selected.filter((s) => s !== status) : [...selected, status];
+    update({ status: next.join(',') || undefined });
+  };
+
+  const pageCount = page ? Math.max(1, Math.ceil(page.total / PAGE_SIZE)) : 1;
+
   return (
     <div className="model-list">
-{models.map((model) => (
-    <tr key={model.id} className="model-row">
-      <td className="name-cell">{model.projectName}</td>
-      <td>{model.projectRef || '-'}</td>
-      <td>{model.client || '-'}</td>
-      <td className="number-cell">
-        {model.gifa ? model.gifa.toLocaleString() : '-'}
-      </td>
-      <td>
-        <span className={`status-badge status-${model.status}`}>
-          {model.status.toUpperCase()}
+      <div className="model-list-filters">
+        <input
+          type="search"
+          value={query.q ?? ''}
+          onChange={(e) => update({ q: e.target.value || undefined }, true)}
+          placeholder="Search project, ref or client"
+          aria-label="Search models"
+        />
+        {STATUSES.map((status) => (
+          <label key={status}>
+            <input
+              type="checkbox"
+              checked={query.status?.includes(status) ?? false}
+              onChange={() => toggleStatus(status)}
+            />
+            {status}
+          </label>
+        ))}
+        <input
+          type="text"
+          value={query.preparedBy ?? ''}
+          onChange={(e) => update({ preparedBy: e.target.value || undefined }, true)}
+          placeholder="Prepared by"
+          aria-label="Prepared by"
+        />
+      </div>
+
+      {error && (
+        <div className="error-state">
+          <p>❌ Error loading models</p>
+          <p className="error-message">{error}</p>
+        </div>
+      )}
+
+      <table className="model-table">
+        <thead>
+          <tr>
+            {COLUMNS.map((column) => (
+              <th
+                key={column.field}
+                className={column.numeric ? 'number-cell' : undefined}
+                aria-sort={
+                  query.sort === column.field ? (query.order === 'asc' ? 'ascending' : 'descending') : undefined
+                }
+              >
+                <button onClick={() => toggleSort(column.field)} className="sort-button">
+                  {column.label}
+                  {query.sort === column.field && (query.order === 'asc' ? ' ▲' : ' ▼')}
+                </button>
+              </th>
+            ))}
+            <th>Actions</th>
+          </tr>
+        </thead>
+        <tbody>
+          {page?.items.map((model) => (
+            <tr key={model.id} className="model-row">
+              <td className="name-cell">{model.projectName}</td>
+              <td>{model.projectRef || '-'}</td>
+              <td>{model.client || '-'}</td>
+              <td className="number-cell">
+                {model.gifa ? model.gifa.toLocaleString() : '-'}
+              </td>
+              <td className="number-cell">
+                <Currency amount={model.totalCost} />
+              </td>
+              <td>
+                <span className={`status-badge status-${model.status}`}>
+                  {model.status.toUpperCase()}
+                </span>
+              </td>
+              <td>{model.preparedBy || '-'}</td>
+              <td>{new Date(model.updatedAt).toLocaleDateString('en-GB')}</td>
+              <td>
+                <Link to={`/models/${model.id}`} className="action-button">
+                  View Details
+                </Link>
+              </td>
+            </tr>
+          ))}
+          {page && page.items.length === 0 && (
+            <tr>
+              <td colSpan={COLUMNS.length + 1} className="empty-state">
+                📋 No cost models match
+              </td>
+            </tr>
+          )}
+        </tbody>
+      </table>
+
+      <div className="pagination">
+        <button
+          onClick={() => update({ page: String(query.page - 1) })}
+          disabled={loading || query.page <= 1}
+        >
+          ← Previous
+        </button>
+        <span>
+          {loading ? 'Loading..' : `Page ${query.page} of ${pageCount} · ${page?.total ?? 0} models`}
         </span>
-      </td>
-      <td>
         <button
-          onClick={() => handleViewDetails(model.id)}
-          className="action-button"
+          onClick={() => update({ page: String(query.page + 1) })}
+          disabled={loading || query.page >= pageCount}
         >
-          View Details
+          Next →
         </button>
-      </td>
-    </tr>
-  ))}
-        
       </div>
-    );
-  }
\ No newline at end of file
+    </div>
+  );
+}
@@ -0,0 +1,248 @@
+import { useState } from 'react';
+import { Link, useParams, useSearchParams } from 'react-router';
+import { Currency } from '../components/Currency';
+import { useFetchModelById, useFetchRevisionDiff, useFetchRevisions } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { useToast } from '../hooks/useToast';
+import type { FieldChange, RevisionDiff } from '../types/models';
+import { saveRevision } from '../Utilities/api';
+import { can } from '../Utilities/permissions';
+import { NotFound } from './NotFound';
+
+function readRevision(value: string | null): number | null {
+  const n = Number(value);
+  return value && Number.isInteger(n) && n > 0 ? n : null;
+}
+
+// Lists (add-ons, dimension build-ups) are summarised by their length
+function formatValue(value: unknown): string {
+  if (Array.isArray(value)) return `${value.length} item${value.length === 1 ? '' : 's'}`;
+  // A quantity or unit rate range
+  if (value && typeof value === 'object' && 'min' in value && 'max' in value) return `${value.min}–${value.max}`;
+  return value === undefined || value === null || value === '' ? '(none)' : String(value);
+}
+
+function Delta({ amount }: { amount: number }) {
+  return (
+    <span className={amount > 0 ? 'delta-up' : amount < 0 ? 'delta-down' : undefined}>
+      {amount > 0 && '+'}
+      <Currency amount={amount} />
+    </span>
+  );
+}
+
+function describeChanges(changes: FieldChange[]): string {
+  return changes.map((c) => `${c.field} ${formatValue(c.from)} → ${formatValue(c.to)}`).join(', ');
+}
+
+function DiffView({ diff }: { diff: RevisionDiff }) {
+  return (
+    <div className="revision-diff">
+      <h3>
+        Revision {diff.from.number} → {diff.to.number}: works cost <Delta amount={diff.worksCostDelta} />
+      </h3>
+      <Link
+        to={`/compare?${new URLSearchParams({
+          fromModel: diff.costModelId,
+          fromRevision: String(diff.from.number),
+          toModel: diff.costModelId,
+          toRevision: String(diff.to.number),
+        })}`}
+        className="action-button"
+      >
+        Compare Side by Side
+      </Link>
+
+      {diff.modelChanges.length > 0 && <p>Model: {describeChanges(diff.modelChanges)}</p>}
+
+      {diff.elements.length === 0 ? (
+        <p>No changes to measured works.</p>
+      ) : (
+        <div className="table-container">
+          <table className="revision-diff-table">
+            <thead>
+              <tr>
+                <th>Code</th>
+                <th>Element</th>
+                <th>Changes</th>
+                <th>Before</th>
+                <th>After</th>
+                <th>Change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {diff.elements.map((element) => (
+                <tr key={element.elementCode}>
+                  <td>{element.elementCode}</td>
+                  <td>{element.elementName}</td>
+                  <td>
+                    <ul className="change-list">
+                      {element.added.map((work) => (
+                        <li key={work.id}>
+                          + {work.description} (<Currency amount={work.totalCost} />)
+                        </li>
+                      ))}
+                      {element.removed.map((work) => (
+                        <li key={work.id}>
+                          − {work.description} (<Currency amount={work.totalCost} />)
+                        </li>
+                      ))}
+                      {element.changed.map((change) => (
+                        <li key={change.workId}>
+                          ~ {change.description}: {describeChanges(change.changes)}
+                        </li>
+                      ))}
+                    </ul>
+                  </td>
+                  <td className="currency-cell">
+                    <Currency amount={element.fromTotal} />
+                  </td>
+                  <td className="currency-cell">
+                    <Currency amount={element.toTotal} />
+                  </td>
+                  <td className="currency-cell">
+                    <Delta amount={element.totalCostDelta} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * ModelRevisions - Revision history of one cost model
+ *
+ * Rendered for /models/:id/revisions. The two revisions being compared are
+ * kept in the URL (?from=&to=) so a comparison can be shared as a link.
+ */
+export function ModelRevisions() {
+  const { id: modelId = '' } = useParams();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const from = readRevision(searchParams.get('from'));
+  const to = readRevision(searchParams.get('to'));
+
+  const { model, notFound } = useFetchModelById(modelId);
+  const { revisions, loading, error } = useFetchRevisions(modelId);
+  const { diff, loading: diffLoading, error: diffError } = useFetchRevisionDiff(modelId, from, to);
+
+  const toast = useToast();
+  const { user } = useAuth();
+  const [label, setLabel] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const compare = (nextFrom: number, nextTo: number) => {
+    setSearchParams({ from: String(nextFrom), to: String(nextTo) });
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      const saved = await saveRevision(modelId, label.trim());
+      toast.success(`Saved revision ${saved.number} "${saved.label}"`);
+      setLabel('');
+    } catch (err) {
+      toast.error(err, 'Revision not saved');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (notFound) {
+    return <NotFound message={`Cost model "${modelId}" does not exist or has been deleted.`} />;
+  }
+
+  return (
+    <div className="model-revisions-page">
+      <div className="page-header">
+        <Link to={`/models/${modelId}`} className="back-button">
+          ← Back to {model?.projectName ?? 'Model'}
+        </Link>
+        <h2>Revision History</h2>
+      </div>
+
+      {can(user, 'editModels') && (
+        <div className="save-revision">
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="Label, e.g. Stage 2 cost plan"
+            aria-label="Revision label"
+            maxLength={100}
+          />
+          <button onClick={handleSave} className="action-button" disabled={saving || !label.trim()}>
+            {saving ? '…' : 'Save Labelled Revision'}
+          </button>
+        </div>
+      )}
+
+      {loading && <div>Loading..</div>}
+      {error && <p className="error-message">{error}</p>}
+
+      {!loading && !error && (
+        <div className="table-container">
+          <table className="revisions-table">
+            <thead>
+              <tr>
+                <th>#</th>
+                <th>Label</th>
+                <th>Saved</th>
+                <th>Works</th>
+                <th>Total Cost</th>
+                <th>From</th>
+                <th>To</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...revisions].reverse().map((revision) => (
+                <tr key={revision.id}>
+                  <td>{revision.number}</td>
+                  <td>{revision.label || '-'}</td>
+                  <td>{new Date(revision.createdAt).toLocaleString('en-GB')}</td>
+                  <td className="number-cell">{revision.workCount}</td>
+                  <td className="currency-cell">
+                    <Currency amount={revision.totalCost} />
+                  </td>
+                  <td>
+                    <input
+                      type="radio"
+                      name="from"
+                      checked={from === revision.number}
+                      onChange={() => compare(revision.number, to ?? revision.number)}
+                      aria-label={`Compare from revision ${revision.number}`}
+                    />
+                  </td>
+                  <td>
+                    <input
+                      type="radio"
+                      name="to"
+                      checked={to === revision.number}
+                      onChange={() => compare(from ?? revision.number, revision.number)}
+                      aria-label={`Compare to revision ${revision.number}`}
+                    />
+                  </td>
+                  <td>
+                    {revision.number > 1 && (
+                      <button onClick={() => compare(revision.number - 1, revision.number)} className="action-button">
+                        Changes
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {diffLoading && <div>Loading comparison..</div>}
+      {diffError && <p className="error-message">{diffError}</p>}
+      {diff && <DiffView diff={diff} />}
+    </div>
+  );
+}
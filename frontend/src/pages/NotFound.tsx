@@ -0,0 +1,28 @@
+import { Link, useLocation } from 'react-router';
+
+interface NotFoundProps {
+  /**
+   * What was missing; defaults to the requested path
+   */
+  message?: string;
+}
+
+/**
+ * NotFound - Shown for unknown routes and for links to records that no
+ * longer exist
+ */
+export function NotFound({ message }: NotFoundProps) {
+  const location = useLocation();
+
+  return (
+    <div className="not-found-page">
+      <div className="error-state">
+        <h2>Page not found</h2>
+        <p>{message ?? <>Nothing lives at <code>{location.pathname}</code>.</>}</p>
+        <Link to="/models" className="action-button">
+          Go to Models
+        </Link>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,592 @@
+import { useState } from 'react';
+import { Currency } from '../components/Currency';
+import { DecimalInput } from '../components/DecimalInput';
+import { RateImpactPreview } from '../components/RateImpactPreview';
+import { useFetchRates, useFetchResources } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { useToast } from '../hooks/useToast';
+import type {
+  CompositeRate,
+  CompositeRateInput,
+  MeasuredWork,
+  RateComponentInput,
+  RateImpact,
+  Resource,
+  ResourceType,
+} from '../types/models';
+import {
+  createRate,
+  createResource,
+  deleteRate,
+  deleteResource,
+  previewRate,
+  previewResource,
+  replaceRate,
+  updateResource,
+} from '../Utilities/api';
+import { can } from '../Utilities/permissions';
+import { priceComponents } from '../Utilities/rates';
+import { decimalError } from '../Utilities/validation';
+
+const RESOURCE_TYPES: ResourceType[] = ['labour', 'plant', 'material'];
+const UNITS: MeasuredWork['unit'][] = ['m2', 'm3', 'm', 'nr', 't', 'ls'];
+
+const PRICE_LIMITS = { min: 0, max: 100_000_000, required: true };
+// Usages and outputs are taken to 4dp, e.g. 0.0225 m³ of mortar per m²
+const USAGE_LIMITS = { min: 0.0001, max: 1_000_000, required: true, places: 4 };
+const WASTAGE_LIMITS = { min: 0, max: 100, required: true };
+
+/**
+ * A component being edited; numbers are kept as typed
+ */
+interface ComponentDraft {
+  resourceId: string;
+  basis: 'quantity' | 'output';
+  amount: string;
+  wastage: string;
+}
+
+function toComponentDraft({ resourceId, quantity, output, wastage }: RateComponentInput): ComponentDraft {
+  return {
+    resourceId,
+    basis: output === undefined ? 'quantity' : 'output',
+    amount: String(output ?? quantity ?? ''),
+    wastage: String(wastage),
+  };
+}
+
+function toComponentInput({ resourceId, basis, amount, wastage }: ComponentDraft): RateComponentInput {
+  return { resourceId, [basis]: Number(amount), wastage: Number(wastage) };
+}
+
+function componentInvalid(component: ComponentDraft): boolean {
+  return (
+    !component.resourceId ||
+    decimalError(component.amount, USAGE_LIMITS) !== undefined ||
+    decimalError(component.wastage, WASTAGE_LIMITS) !== undefined
+  );
+}
+
+// Priced as typed; an invalid component counts as zero until it's fixed
+function liveComponent(component: ComponentDraft): RateComponentInput {
+  return componentInvalid(component)
+    ? { resourceId: component.resourceId, quantity: 0, wastage: 0 }
+    : toComponentInput(component);
+}
+
+function NewResourceForm() {
+  const toast = useToast();
+  const [code, setCode] = useState('');
+  const [name, setName] = useState('');
+  const [type, setType] = useState<ResourceType>('labour');
+  const [unit, setUnit] = useState('hr');
+  const [price, setPrice] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const invalid = !code.trim() || !name.trim() || !unit.trim() || decimalError(price, PRICE_LIMITS) !== undefined;
+
+  const handleCreate = async () => {
+    setSaving(true);
+    try {
+      const resource = await createResource({
+        code: code.trim(),
+        name: name.trim(),
+        type,
+        unit: unit.trim(),
+        price: Number(price),
+      });
+      toast.success(`Added ${resource.code} ${resource.name}`);
+      setCode('');
+      setName('');
+      setPrice('');
+    } catch (err) {
+      toast.error(err, 'Resource not added');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <details className="rate-library-form">
+      <summary>Add a resource</summary>
+      <label>
+        Code * <input type="text" value={code} onChange={(e) => setCode(e.target.value)} size={8} disabled={saving} />
+      </label>
+      <label>
+        Name * <input type="text" value={name} onChange={(e) => setName(e.target.value)} disabled={saving} />
+      </label>
+      <label>
+        Type{' '}
+        <select value={type} onChange={(e) => setType(e.target.value as ResourceType)} disabled={saving}>
+          {RESOURCE_TYPES.map((t) => (
+            <option key={t} value={t}>
+              {t}
+            </option>
+          ))}
+        </select>
+      </label>
+      <label>
+        Unit * <input type="text" value={unit} onChange={(e) => setUnit(e.target.value)} size={6} disabled={saving} />
+      </label>
+      <DecimalInput label="Price (£) *" value={price} onChange={setPrice} disabled={saving} {...PRICE_LIMITS} />
+      <button onClick={handleCreate} className="action-button" disabled={saving || invalid}>
+        {saving ? '…' : 'Add Resource'}
+      </button>
+    </details>
+  );
+}
+
+interface PriceChangeProps {
+  resource: Resource;
+  onDone: () => void;
+}
+
+/**
+ * New price for a resource: previewed first, then applied to the library
+ * and every draft model linked to it
+ */
+function PriceChange({ resource, onDone }: PriceChangeProps) {
+  const toast = useToast();
+  const [price, setPrice] = useState(String(resource.price));
+  const [impact, setImpact] = useState<RateImpact | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handlePreview = async () => {
+    setBusy(true);
+    try {
+      setImpact(await previewResource(resource.id, { price: Number(price) }));
+    } catch (err) {
+      toast.error(err, 'Impact not calculated');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleApply = async () => {
+    setBusy(true);
+    try {
+      await updateResource(resource.id, { price: Number(price) });
+      const updated = impact?.models.filter((model) => model.updated).length ?? 0;
+      toast.success(`${resource.code} is now £${Number(price).toFixed(2)}/${resource.unit}; ${updated} draft models repriced`);
+      onDone();
+    } catch (err) {
+      toast.error(err, 'Price not changed');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="price-change">
+      <h4>
+        New price for {resource.code} {resource.name}
+      </h4>
+      <DecimalInput
+        label={`Price per ${resource.unit} (£)`}
+        value={price}
+        onChange={(value) => {
+          setPrice(value);
+          setImpact(null);
+        }}
+        disabled={busy}
+        {...PRICE_LIMITS}
+      />
+      {impact ? (
+        <RateImpactPreview impact={impact} onConfirm={handleApply} onCancel={onDone} applying={busy} />
+      ) : (
+        <>
+          <button
+            onClick={handlePreview}
+            className="action-button"
+            disabled={busy || decimalError(price, PRICE_LIMITS) !== undefined || Number(price) === resource.price}
+          >
+            {busy ? '…' : 'Preview Impact'}
+          </button>
+          <button onClick={onDone} className="action-button" disabled={busy}>
+            Cancel
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
+
+interface RateFormProps {
+  resources: Resource[];
+  /**
+   * Rate being edited; a new rate is created when omitted
+   */
+  rate?: CompositeRate;
+  onDone: () => void;
+}
+
+/**
+ * Composite rate editor with the components priced as they are typed.
+ * Changes to an existing rate are previewed before they are applied.
+ */
+function RateForm({ resources, rate, onDone }: RateFormProps) {
+  const toast = useToast();
+  const [code, setCode] = useState(rate?.code ?? '');
+  const [description, setDescription] = useState(rate?.description ?? '');
+  const [unit, setUnit] = useState<MeasuredWork['unit']>(rate?.unit ?? 'm2');
+  const [components, setComponents] = useState<ComponentDraft[]>(
+    rate?.components.map(toComponentDraft) ?? [{ resourceId: '', basis: 'quantity', amount: '', wastage: '0' }]
+  );
+  const [impact, setImpact] = useState<RateImpact | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const prices = new Map(resources.map((resource) => [resource.id, resource.price]));
+  const resourcesById = new Map(resources.map((resource) => [resource.id, resource]));
+  const invalid = !code.trim() || !description.trim() || components.length === 0 || components.some(componentInvalid);
+  const priced = priceComponents(components.map(liveComponent), prices);
+
+  const input = (): CompositeRateInput => ({
+    code: code.trim(),
+    description: description.trim(),
+    unit,
+    components: components.map(toComponentInput),
+  });
+
+  const change = (index: number, changes: Partial<ComponentDraft>) => {
+    setComponents(components.map((component, i) => (i === index ? { ...component, ...changes } : component)));
+    setImpact(null);
+  };
+
+  const handleSave = async () => {
+    setBusy(true);
+    try {
+      if (!rate) {
+        const created = await createRate(input());
+        toast.success(`Added ${created.code} at £${created.rate.toFixed(2)}/${created.unit}`);
+        onDone();
+      } else if (!impact) {
+        setImpact(await previewRate(rate.id, input()));
+        setBusy(false);
+      } else {
+        const updated = await replaceRate(rate.id, input());
+        toast.success(`Saved ${updated.code} at £${updated.rate.toFixed(2)}/${updated.unit}`);
+        onDone();
+      }
+    } catch (err) {
+      toast.error(err, rate ? 'Rate not saved' : 'Rate not added');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="rate-form">
+      <h4>{rate ? `Edit ${rate.code}` : 'New composite rate'}</h4>
+      <label>
+        Code * <input type="text" value={code} onChange={(e) => setCode(e.target.value)} size={8} disabled={busy} />
+      </label>
+      <label>
+        Description *{' '}
+        <input type="text" value={description} onChange={(e) => setDescription(e.target.value)} size={40} disabled={busy} />
+      </label>
+      <label>
+        Per{' '}
+        <select
+          value={unit}
+          onChange={(e) => {
+            setUnit(e.target.value as MeasuredWork['unit']);
+            setImpact(null);
+          }}
+          disabled={busy}
+        >
+          {UNITS.map((u) => (
+            <option key={u} value={u}>
+              {u}
+            </option>
+          ))}
+        </select>
+      </label>
+
+      <table className="rate-components">
+        <thead>
+          <tr>
+            <th>Resource</th>
+            <th>Basis</th>
+            <th>Amount</th>
+            <th>Wastage %</th>
+            <th>Cost</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {components.map((component, index) => {
+            const resource = resourcesById.get(component.resourceId);
+            return (
+              <tr key={index}>
+                <td>
+                  <select
+                    value={component.resourceId}
+                    onChange={(e) => change(index, { resourceId: e.target.value })}
+                    aria-label={`Component ${index + 1} resource`}
+                    disabled={busy}
+                  >
+                    <option value="">Choose a resource</option>
+                    {resources.map((r) => (
+                      <option key={r.id} value={r.id}>
+                        {r.code} {r.name} (£{r.price.toFixed(2)}/{r.unit})
+                      </option>
+                    ))}
+                  </select>
+                </td>
+                <td>
+                  <select
+                    value={component.basis}
+                    onChange={(e) => change(index, { basis: e.target.value as ComponentDraft['basis'] })}
+                    aria-label={`Component ${index + 1} basis`}
+                    disabled={busy}
+                  >
+                    <option value="quantity">
+                      {resource?.unit ?? 'units'} per {unit}
+                    </option>
+                    <option value="output">
+                      {unit} per {resource?.unit ?? 'unit'} (output)
+                    </option>
+                  </select>
+                </td>
+                <td>
+                  <DecimalInput
+                    value={component.amount}
+                    onChange={(amount) => change(index, { amount })}
+                    ariaLabel={`Component ${index + 1} amount`}
+                    disabled={busy}
+                    {...USAGE_LIMITS}
+                  />
+                </td>
+                <td>
+                  <DecimalInput
+                    value={component.wastage}
+                    onChange={(wastage) => change(index, { wastage })}
+                    ariaLabel={`Component ${index + 1} wastage`}
+                    disabled={busy}
+                    {...WASTAGE_LIMITS}
+                  />
+                </td>
+                <td className="currency-cell">
+                  <Currency amount={priced.components[index].cost} />
+                </td>
+                <td>
+                  <button
+                    onClick={() => {
+                      setComponents(components.filter((_, i) => i !== index));
+                      setImpact(null);
+                    }}
+                    className="action-button delete-button"
+                    disabled={busy}
+                    aria-label={`Remove component ${index + 1}`}
+                  >
+                    ✕
+                  </button>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+        <tfoot>
+          <tr className="total-row">
+            <td colSpan={4}>Rate per {unit}</td>
+            <td className="currency-cell">
+              <Currency amount={priced.rate} />
+            </td>
+            <td></td>
+          </tr>
+        </tfoot>
+      </table>
+      <button
+        onClick={() => setComponents([...components, { resourceId: '', basis: 'quantity', amount: '', wastage: '0' }])}
+        className="action-button"
+        disabled={busy}
+      >
+        + Component
+      </button>
+
+      {impact ? (
+        <RateImpactPreview impact={impact} onConfirm={handleSave} onCancel={() => setImpact(null)} applying={busy} />
+      ) : (
+        <div>
+          <button onClick={handleSave} className="action-button" disabled={busy || invalid}>
+            {busy ? '…' : rate ? 'Preview Impact' : 'Add Rate'}
+          </button>
+          <button onClick={onDone} className="action-button" disabled={busy}>
+            Cancel
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
+
+/**
+ * RateLibrary - Priced resources and the composite rates built from them
+ *
+ * Measured works can link to a composite rate instead of carrying a typed
+ * unit rate. Changing a resource price or a rate's make-up is previewed
+ * first: the rates that change and the draft model totals that follow.
+ */
+export function RateLibrary() {
+  const { resources, loading, error } = useFetchResources();
+  const { rates } = useFetchRates();
+  const { user } = useAuth();
+  const toast = useToast();
+  const [repricing, setRepricing] = useState<string | null>(null);
+  // Rate being edited: its id, 'new' for a new rate, or null
+  const [editingRate, setEditingRate] = useState<string | null>(null);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const canManage = can(user, 'manageRates');
+  const resourcesById = new Map(resources.map((resource) => [resource.id, resource]));
+
+  const done = () => {
+    setRepricing(null);
+    setEditingRate(null);
+  };
+
+  const handleDeleteResource = async (resource: Resource) => {
+    if (!window.confirm(`Delete resource ${resource.code} ${resource.name}?`)) return;
+    try {
+      await deleteResource(resource.id);
+      toast.success(`Deleted ${resource.code}`);
+    } catch (err) {
+      toast.error(err, 'Resource not deleted');
+    }
+  };
+
+  const handleDeleteRate = async (rate: CompositeRate) => {
+    if (!window.confirm(`Delete rate ${rate.code} ${rate.description}?`)) return;
+    try {
+      await deleteRate(rate.id);
+      toast.success(`Deleted ${rate.code}`);
+    } catch (err) {
+      toast.error(err, 'Rate not deleted');
+    }
+  };
+
+  return (
+    <div className="rate-library-page">
+      <div className="page-header">
+        <h2>Rate Library</h2>
+      </div>
+
+      {loading && <div>Loading..</div>}
+      {error && <p className="error-message">{error}</p>}
+
+      <h3>Resources</h3>
+      <div className="table-container">
+        <table className="resources-table">
+          <thead>
+            <tr>
+              <th>Code</th>
+              <th>Name</th>
+              <th>Type</th>
+              <th>Unit</th>
+              <th>Price</th>
+              {canManage && <th>Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {resources.map((resource) => (
+              <tr key={resource.id}>
+                <td>{resource.code}</td>
+                <td className="name-cell">{resource.name}</td>
+                <td>{resource.type}</td>
+                <td className="unit-cell">{resource.unit}</td>
+                <td className="currency-cell">
+                  <Currency amount={resource.price} />
+                </td>
+                {canManage && (
+                  <td className="actions-cell">
+                    <button onClick={() => setRepricing(resource.id)} className="action-button" disabled={!!repricing}>
+                      Change Price
+                    </button>
+                    <button onClick={() => handleDeleteResource(resource)} className="action-button delete-button">
+                      Delete
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {resources
+        .filter((resource) => resource.id === repricing)
+        .map((resource) => (
+          <PriceChange key={resource.id} resource={resource} onDone={done} />
+        ))}
+      {canManage && <NewResourceForm />}
+
+      <h3>Composite Rates</h3>
+      <div className="table-container">
+        <table className="rates-table">
+          <thead>
+            <tr>
+              <th>Code</th>
+              <th>Description</th>
+              <th>Unit</th>
+              <th>Rate</th>
+              {canManage && <th>Actions</th>}
+            </tr>
+          </thead>
+          <tbody>
+            {rates.map((rate) => (
+              <tr key={rate.id}>
+                <td>{rate.code}</td>
+                <td className="description-cell">
+                  <button
+                    onClick={() => setExpanded(expanded === rate.id ? null : rate.id)}
+                    className="link-button"
+                    aria-expanded={expanded === rate.id}
+                  >
+                    {rate.description}
+                  </button>
+                  {expanded === rate.id && (
+                    <ul className="rate-breakdown">
+                      {rate.components.map((component, index) => {
+                        const resource = resourcesById.get(component.resourceId);
+                        return (
+                          <li key={index}>
+                            {resource ? `${resource.code} ${resource.name}` : component.resourceId}:{' '}
+                            {component.output !== undefined
+                              ? `${component.output} ${rate.unit}/${resource?.unit ?? 'unit'}`
+                              : `${component.quantity} ${resource?.unit ?? ''}`}
+                            {component.wastage > 0 && ` + ${component.wastage}%`} = <Currency amount={component.cost} />
+                          </li>
+                        );
+                      })}
+                    </ul>
+                  )}
+                </td>
+                <td className="unit-cell">{rate.unit}</td>
+                <td className="currency-cell">
+                  <Currency amount={rate.rate} />
+                </td>
+                {canManage && (
+                  <td className="actions-cell">
+                    <button onClick={() => setEditingRate(rate.id)} className="action-button" disabled={!!editingRate}>
+                      Edit
+                    </button>
+                    <button onClick={() => handleDeleteRate(rate)} className="action-button delete-button">
+                      Delete
+                    </button>
+                  </td>
+                )}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {editingRate === 'new' && <RateForm resources={resources} onDone={done} />}
+      {rates
+        .filter((rate) => rate.id === editingRate)
+        .map((rate) => (
+          <RateForm key={rate.id} resources={resources} rate={rate} onDone={done} />
+        ))}
+      {canManage && !editingRate && (
+        <button onClick={() => setEditingRate('new')} className="action-button">
+          + Composite Rate
+        </button>
+      )}
+    </div>
+  );
+}
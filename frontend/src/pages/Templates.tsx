@@ -0,0 +1,202 @@
+import { useState } from 'react';
+import { Link, useNavigate } from 'react-router';
+import { DecimalInput } from '../components/DecimalInput';
+import { useFetchTemplates } from '../hooks/useApi';
+import { useAuth } from '../hooks/useAuth';
+import { useToast } from '../hooks/useToast';
+import type { TemplateSummary } from '../types/models';
+import { createModelFromTemplate, deleteTemplate } from '../Utilities/api';
+import { can } from '../Utilities/permissions';
+import { decimalError } from '../Utilities/validation';
+
+interface NewModelFormProps {
+  template: TemplateSummary;
+  onCancel: () => void;
+}
+
+/**
+ * Fields for the model being created from a template. Scaling is only
+ * offered when both GIFAs are known.
+ */
+function NewModelForm({ template, onCancel }: NewModelFormProps) {
+  const navigate = useNavigate();
+  const toast = useToast();
+  const [projectName, setProjectName] = useState('');
+  const [projectRef, setProjectRef] = useState('');
+  const [client, setClient] = useState('');
+  const [gifa, setGifa] = useState(template.model.gifa ? String(template.model.gifa) : '');
+  const [scaleQuantities, setScaleQuantities] = useState(true);
+  const [creating, setCreating] = useState(false);
+
+  const gifaInvalid = decimalError(gifa, { min: 0.01 }) !== undefined;
+  const newGifa = gifa && !gifaInvalid ? Number(gifa) : undefined;
+  const canScale = !!template.model.gifa && newGifa !== undefined && newGifa !== template.model.gifa;
+
+  const handleCreate = async () => {
+    setCreating(true);
+    try {
+      const result = await createModelFromTemplate(template.id, {
+        projectName: projectName.trim(),
+        projectRef: projectRef.trim() || undefined,
+        client: client.trim() || undefined,
+        gifa: newGifa,
+        scaleQuantities: canScale && scaleQuantities,
+      });
+      const scaled =
+        result.scaleFactor === null
+          ? ''
+          : `; ${result.scaledCount} quantities scaled ×${result.scaleFactor}`;
+      if (result.reviewCount > 0) {
+        toast.warning(
+          `Created ${result.model.projectName}${scaled}. ${result.reviewCount} ls/nr lines were not scaled - check them (🔍).`
+        );
+      } else {
+        toast.success(`Created ${result.model.projectName}${scaled}`);
+      }
+      navigate(`/models/${result.model.id}`);
+    } catch (err) {
+      toast.error(err, 'Model not created');
+      setCreating(false);
+    }
+  };
+
+  return (
+    <div className="template-new-model">
+      <h4>New model from "{template.name}"</h4>
+      <label>
+        Project name *{' '}
+        <input type="text" value={projectName} onChange={(e) => setProjectName(e.target.value)} disabled={creating} />
+      </label>
+      <label>
+        Ref <input type="text" value={projectRef} onChange={(e) => setProjectRef(e.target.value)} disabled={creating} />
+      </label>
+      <label>
+        Client <input type="text" value={client} onChange={(e) => setClient(e.target.value)} disabled={creating} />
+      </label>
+      <DecimalInput label="GIFA (m²)" value={gifa} onChange={setGifa} min={0.01} disabled={creating} />
+      <label>
+        <input
+          type="checkbox"
+          checked={canScale && scaleQuantities}
+          onChange={(e) => setScaleQuantities(e.target.checked)}
+          disabled={creating || !canScale}
+        />{' '}
+        Scale quantities to the new GIFA
+        {canScale && ` (×${(newGifa! / template.model.gifa!).toFixed(4)})`}
+      </label>
+      {!template.model.gifa && <p className="hint">This template has no GIFA, so quantities can't be scaled.</p>}
+      {canScale && scaleQuantities && (
+        <p className="hint">m², m³, m and t quantities are scaled; ls and nr lines are copied and flagged for review.</p>
+      )}
+      {(!!template.model.addOns?.length || !!template.model.risks?.length) && (
+        <p className="hint">
+          The template's add-ons ({template.model.addOns?.length ?? 0}) and risks ({template.model.risks?.length ?? 0})
+          are copied too, and can be changed on the new model.
+        </p>
+      )}
+      <button
+        onClick={handleCreate}
+        className="action-button"
+        disabled={creating || !projectName.trim() || gifaInvalid}
+      >
+        {creating ? '…' : 'Create Model'}
+      </button>
+      <button onClick={onCancel} className="action-button" disabled={creating}>
+        Cancel
+      </button>
+    </div>
+  );
+}
+
+/**
+ * Templates - Saved starting points for new cost models
+ *
+ * Templates are saved from a model's page; here they can be turned into a
+ * new draft model, optionally rescaled to a different GIFA.
+ */
+export function Templates() {
+  const { templates, loading, error } = useFetchTemplates();
+  const { user } = useAuth();
+  const toast = useToast();
+  const [selected, setSelected] = useState<string | null>(null);
+
+  const handleDelete = async (template: TemplateSummary) => {
+    if (!window.confirm(`Delete template "${template.name}"?`)) return;
+    try {
+      await deleteTemplate(template.id);
+      toast.success(`Deleted template ${template.name}`);
+    } catch (err) {
+      toast.error(err, 'Template not deleted');
+    }
+  };
+
+  return (
+    <div className="templates-page">
+      <div className="page-header">
+        <h2>Templates</h2>
+      </div>
+
+      {loading && <div>Loading..</div>}
+      {error && <p className="error-message">{error}</p>}
+
+      {!loading && !error && templates.length === 0 && (
+        <div className="empty-state">
+          <p>📋 No templates yet - use "Save as Template" on a model</p>
+        </div>
+      )}
+
+      {templates.length > 0 && (
+        <div className="table-container">
+          <table className="templates-table">
+            <thead>
+              <tr>
+                <th>Name</th>
+                <th>From</th>
+                <th>GIFA (m²)</th>
+                <th>Works</th>
+                <th>Saved</th>
+                <th>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {templates.map((template) => (
+                <tr key={template.id}>
+                  <td className="name-cell">
+                    {template.name}
+                    {template.description && <div className="hint">{template.description}</div>}
+                  </td>
+                  <td>
+                    <Link to={`/models/${template.sourceModelId}`}>{template.model.projectName}</Link>
+                  </td>
+                  <td className="number-cell">{template.model.gifa ? template.model.gifa.toLocaleString() : '-'}</td>
+                  <td className="number-cell">{template.workCount}</td>
+                  <td>
+                    {new Date(template.createdAt).toLocaleDateString('en-GB')} by {template.createdBy}
+                  </td>
+                  <td className="actions-cell">
+                    {can(user, 'editModels') && (
+                      <button onClick={() => setSelected(template.id)} className="action-button">
+                        New Model
+                      </button>
+                    )}
+                    {can(user, 'deleteModels') && (
+                      <button onClick={() => handleDelete(template)} className="action-button delete-button">
+                        Delete
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {templates
+        .filter((template) => template.id === selected)
+        .map((template) => (
+          <NewModelForm key={template.id} template={template} onCancel={() => setSelected(null)} />
+        ))}
+    </div>
+  );
+}
@@ -1,36 +1,92 @@
-export interface MeasuredWork {
-  id: string;
-  costModelId: string;
-  elementCode: string;
-  elementName: string;
-  description: string;
-  quantity: number;
-  unit: 'm2' | 'm3' | 'm' | 'nr' | 't' | 'ls';  // Type union (Commit 2)
-  unitRate: number;
-  totalCost: number;
-  notes?: string;
-  createdAt: string;
-  updatedAt: string;
-}
+/**
+ * Shared types
+ *
+ * Everything the API sends and accepts is described once, by the zod
+ * schemas in shared/schemas, and the types here are inferred from them -
+ * so the frontend can't drift from what the backend validates. Query types
+ * come from the API contract (shared/api.ts) and are the parsed shape the
+ * typed client serialises, e.g. status as an array.
+ */
 
-// frontend/src/types/models.ts:28-46
-export interface CostModel {
-  id: string;              // Required field
-  projectName: string;     // Required field
-  projectRef?: string;     // Optional field (? marker)
-  client?: string;         // Optional field
-  gifa?: number;           // Optional field
-  totalCost: number;       // Required field
-  status: 'draft' | 'approved' | 'archived';
-  preparedBy?: string;     // Optional field
-  createdAt: string;       // Required field
-  updatedAt: string;       // Required field
-}
+import type { RequestQuery } from '../../../shared/api';
 
-export interface NRM2Element {
-  code: string;
-  name: string;
-  suggestedUnit: string;
-  description?: string;
-}
+export type {
+  CostModel,
+  CostModelPage,
+  CostModelPatch,
+  CostModelSortField,
+  CostModelStatus,
+  TransitionAction,
+} from '../../../shared/schemas/models';
+export type {
+  AddOn,
+  AddOnBase,
+  AddOnCategory,
+  CostPlanLine,
+  CostPlanSummary,
+} from '../../../shared/schemas/addOns';
+export type { IndexPoint, Inflation, TenderPriceIndexEntry } from '../../../shared/schemas/priceIndex';
+export type { Cashflow, CashflowMonth, CashflowRow, Distribution } from '../../../shared/schemas/cashflow';
+export type { DimensionLine, MeasuredWork, MeasuredWorkInput, Range, Unit } from '../../../shared/schemas/works';
+export type { HistogramBin, Risk, Simulation, SimulationPercentile, TornadoBar } from '../../../shared/schemas/risks';
+export type { NRM2Element } from '../../../shared/schemas/elements';
+export type { ColumnMapping, ImportPreview, ImportRow } from '../../../shared/schemas/imports';
+export type {
+  BenchmarkElement,
+  BenchmarkElementEntry,
+  BenchmarkModel,
+  BenchmarkPosition,
+  BenchmarkReport,
+  BenchmarkStats,
+} from '../../../shared/schemas/benchmarks';
+export type {
+  ElementDiff,
+  FieldChange,
+  RevisionDiff,
+  RevisionSummary,
+  WorkChange,
+} from '../../../shared/schemas/revisions';
+// The API only ever returns users without their password hash
+export type { PublicUser as User, Role, SignIn } from '../../../shared/schemas/users';
+export type { AuditEntity, AuditEntry } from '../../../shared/schemas/audit';
+export type {
+  TemplateModelInput,
+  TemplateModelResult,
+  TemplateSummary,
+} from '../../../shared/schemas/templates';
+export type {
+  BridgeStep,
+  Comparison,
+  ComparisonQuery,
+  ComparisonSide,
+  ElementComparison,
+  ElementSide,
+} from '../../../shared/schemas/comparisons';
+export type {
+  CompositeRate,
+  CompositeRateInput,
+  RateComponent,
+  RateComponentInput,
+  RateImpact,
+  Resource,
+  ResourceInput,
+  ResourceType,
+} from '../../../shared/schemas/rates';
+export type { ModelEvent, Viewer } from '../../../shared/schemas/events';
 
+// GET /api/models: search, filters, sort and offset pagination
+export type CostModelQuery = RequestQuery<'GET /models'>;
+
+export type BenchmarkFilters = RequestQuery<'GET /benchmarks'>;
+
+// GET /api/models/:id/cashflow: distribution, retention and breakdown
+export type CashflowQuery = RequestQuery<'GET /models/{id}/cashflow'>;
+
+// GET /api/models/:id/simulation: iterations and random seed
+export type SimulationQuery = RequestQuery<'GET /models/{id}/simulation'>;
+
+/**
+ * Filters for a model's audit trail; from and to take a date (YYYY-MM-DD)
+ * or a timestamp, and a date "to" includes the whole day
+ */
+export type AuditFilters = RequestQuery<'GET /models/{id}/audit'>;
@@ -4,4 +4,14 @@ import react from '@vitejs/plugin-react'
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [react()],
+  server: {
+    // Forward API calls to the Express backend (npm run dev:backend)
+    proxy: {
+      '/api': 'http://localhost:3001',
+    },
+    // Schemas and money arithmetic shared with the backend live in ../shared
+    fs: {
+      allow: ['..'],
+    },
+  },
 })
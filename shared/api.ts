@@ -0,0 +1,494 @@
+/**
+ * API contract
+ *
+ * Every route under /api, keyed by "METHOD /path" with path parameters in
+ * braces as in OpenAPI, with the schemas of its query, body and response.
+ * The backend serves it as an OpenAPI document at GET /api/openapi.json
+ * (backend/routes/openapi.ts), and the frontend's typed client
+ * (frontend/src/Utilities/api.ts) takes its paths, bodies and responses
+ * from it, so a change to a schema reaches both sides at once. Add an entry
+ * here with every new route.
+ *
+ * Query types are the parsed shape: arrays are sent comma-separated and
+ * numbers as strings, as the query schemas expect.
+ */
+
+import { z } from 'zod';
+import { costPlanSummarySchema } from './schemas/addOns.js';
+import { auditEntrySchema, auditQuerySchema } from './schemas/audit.js';
+import { benchmarkQuerySchema, benchmarkReportSchema } from './schemas/benchmarks.js';
+import { cashflowQuerySchema, cashflowSchema } from './schemas/cashflow.js';
+import { comparisonQuerySchema, comparisonSchema } from './schemas/comparisons.js';
+import {
+  elementQuerySchema,
+  nrmElementDetailSchema,
+  nrmElementNodeSchema,
+  nrmElementSchema,
+} from './schemas/elements.js';
+import { modelEventSchema } from './schemas/events.js';
+import { importPreviewSchema, worksImportSchema } from './schemas/imports.js';
+import {
+  costModelInputSchema,
+  costModelPageSchema,
+  costModelPatchSchema,
+  costModelQuerySchema,
+  costModelSchema,
+  transitionInputSchema,
+} from './schemas/models.js';
+import { tenderPriceIndexEntrySchema, tenderPriceIndexInputSchema } from './schemas/priceIndex.js';
+import {
+  compositeRateInputSchema,
+  compositeRateSchema,
+  rateImpactSchema,
+  resourceInputSchema,
+  resourcePatchSchema,
+  resourceSchema,
+} from './schemas/rates.js';
+import { costPlanReportSchema, reportQuerySchema } from './schemas/reports.js';
+import { simulationQuerySchema, simulationSchema } from './schemas/risks.js';
+import {
+  revisionDiffQuerySchema,
+  revisionDiffSchema,
+  revisionLabelSchema,
+  revisionSchema,
+  revisionSummarySchema,
+} from './schemas/revisions.js';
+import {
+  duplicateInputSchema,
+  templateInputSchema,
+  templateModelInputSchema,
+  templateModelResultSchema,
+  templateSchema,
+  templateSummarySchema,
+} from './schemas/templates.js';
+import { loginSchema, publicUserSchema, signInSchema, userInputSchema, userPatchSchema } from './schemas/users.js';
+import { measuredWorkInputSchema, measuredWorkPatchSchema, measuredWorkSchema } from './schemas/works.js';
+
+// Body of every error response (backend/middleware/errorHandler.ts)
+export const apiErrorSchema = z.object({
+  error: z.string(),
+  message: z.string(),
+  // Per-field problems, e.g. from request validation
+  details: z.array(z.object({ path: z.string(), message: z.string() })).optional(),
+  // On a 409 for a stale write: the server's current copy
+  current: z.unknown().optional(),
+});
+
+export interface Endpoint {
+  summary: string;
+  // Groups routes in the OpenAPI document
+  tag: string;
+  query?: z.ZodType;
+  body?: z.ZodType;
+  // Omitted when the route answers 204 No Content
+  response?: z.ZodType;
+  // Success status when it isn't 200 (or 204 without a response)
+  status?: 201;
+  // Answers without a session
+  public?: boolean;
+  // The response carries the entity's version (its updatedAt) as the ETag
+  etag?: boolean;
+  // Changes an existing entity, so its version must be sent in If-Match
+  ifMatch?: boolean;
+  // Media types the response can also be sent as, e.g. a CSV download;
+  // text/event-stream routes are streams of the response schema
+  produces?: string[];
+}
+
+export const endpoints = {
+  'GET /health': {
+    summary: 'Check the API is running',
+    tag: 'System',
+    public: true,
+    response: z.object({
+      status: z.literal('ok'),
+      message: z.string(),
+      timestamp: z.iso.datetime(),
+      environment: z.string(),
+    }),
+  },
+
+  'POST /auth/login': {
+    summary: 'Sign in; also sets the session cookie',
+    tag: 'Authentication',
+    public: true,
+    body: loginSchema,
+    response: signInSchema,
+  },
+  'POST /auth/logout': {
+    summary: 'End the current session',
+    tag: 'Authentication',
+    public: true,
+  },
+  'GET /auth/me': {
+    summary: 'The signed-in user',
+    tag: 'Authentication',
+    response: publicUserSchema,
+  },
+
+  'GET /users': {
+    summary: 'List users (admins only)',
+    tag: 'Users',
+    response: z.array(publicUserSchema),
+  },
+  'POST /users': {
+    summary: 'Create a user with an initial password (admins only)',
+    tag: 'Users',
+    body: userInputSchema,
+    response: publicUserSchema,
+    status: 201,
+  },
+  'GET /users/{id}': {
+    summary: 'Fetch one user (admins only)',
+    tag: 'Users',
+    response: publicUserSchema,
+  },
+  'PATCH /users/{id}': {
+    summary: "Change a user's name, role or password (admins only)",
+    tag: 'Users',
+    body: userPatchSchema,
+    response: publicUserSchema,
+  },
+
+  'GET /models': {
+    summary: 'Search, filter, sort and page cost models',
+    tag: 'Cost models',
+    query: costModelQuerySchema,
+    response: costModelPageSchema,
+  },
+  'POST /models': {
+    summary: 'Create a cost model',
+    tag: 'Cost models',
+    body: costModelInputSchema,
+    response: costModelSchema,
+    status: 201,
+    etag: true,
+  },
+  'GET /models/{id}': {
+    summary: 'Fetch one cost model',
+    tag: 'Cost models',
+    response: costModelSchema,
+    etag: true,
+  },
+  'GET /models/{id}/summary': {
+    summary: "How a cost model's total builds up from its works cost through its add-ons",
+    tag: 'Cost models',
+    response: costPlanSummarySchema,
+  },
+  'PUT /models/{id}': {
+    summary: "Replace a cost model's editable fields",
+    tag: 'Cost models',
+    body: costModelInputSchema,
+    response: costModelSchema,
+    etag: true,
+    ifMatch: true,
+  },
+  'PATCH /models/{id}': {
+    summary: "Update some of a cost model's fields",
+    tag: 'Cost models',
+    body: costModelPatchSchema,
+    response: costModelSchema,
+    etag: true,
+    ifMatch: true,
+  },
+  'DELETE /models/{id}': {
+    summary: 'Delete a cost model and its works',
+    tag: 'Cost models',
+    ifMatch: true,
+  },
+  'POST /models/{id}/transitions': {
+    summary: 'Approve, archive or reopen a cost model',
+    tag: 'Cost models',
+    body: transitionInputSchema,
+    response: costModelSchema,
+    etag: true,
+    ifMatch: true,
+  },
+  'POST /models/{id}/duplicate': {
+    summary: 'Copy a cost model and its works as a new draft',
+    tag: 'Cost models',
+    body: duplicateInputSchema,
+    response: costModelSchema,
+    status: 201,
+  },
+  'POST /models/{id}/template': {
+    summary: 'Save a cost model and its works as a template',
+    tag: 'Templates',
+    body: templateInputSchema,
+    response: templateSummarySchema,
+    status: 201,
+  },
+
+  'GET /models/{id}/works': {
+    summary: "List a cost model's measured works",
+    tag: 'Measured works',
+    response: z.array(measuredWorkSchema),
+  },
+  'POST /models/{id}/works': {
+    summary: 'Add a measured work',
+    tag: 'Measured works',
+    body: measuredWorkInputSchema,
+    response: measuredWorkSchema,
+    status: 201,
+    etag: true,
+  },
+  'GET /models/{id}/works/{workId}': {
+    summary: 'Fetch one measured work',
+    tag: 'Measured works',
+    response: measuredWorkSchema,
+    etag: true,
+  },
+  'PUT /models/{id}/works/{workId}': {
+    summary: 'Replace a measured work',
+    tag: 'Measured works',
+    body: measuredWorkInputSchema,
+    response: measuredWorkSchema,
+    etag: true,
+    ifMatch: true,
+  },
+  'PATCH /models/{id}/works/{workId}': {
+    summary: "Update some of a measured work's fields",
+    tag: 'Measured works',
+    body: measuredWorkPatchSchema,
+    response: measuredWorkSchema,
+    etag: true,
+    ifMatch: true,
+  },
+  'DELETE /models/{id}/works/{workId}': {
+    summary: 'Delete a measured work',
+    tag: 'Measured works',
+    ifMatch: true,
+  },
+  'POST /models/{id}/works/import/preview': {
+    summary: 'Parse a CSV bill of quantities without saving',
+    tag: 'Measured works',
+    body: worksImportSchema,
+    response: importPreviewSchema,
+  },
+  'POST /models/{id}/works/import': {
+    summary: 'Import every row of a CSV bill of quantities, or none if any is invalid',
+    tag: 'Measured works',
+    body: worksImportSchema,
+    response: z.array(measuredWorkSchema),
+    status: 201,
+  },
+
+  'GET /models/{id}/revisions': {
+    summary: "List a cost model's revisions, without their snapshots",
+    tag: 'Revisions',
+    response: z.array(revisionSummarySchema),
+  },
+  'POST /models/{id}/revisions': {
+    summary: 'Save the current state as a labelled revision',
+    tag: 'Revisions',
+    body: revisionLabelSchema,
+    response: revisionSummarySchema,
+    status: 201,
+  },
+  'GET /models/{id}/revisions/diff': {
+    summary: 'Compare two revisions, grouped by element code',
+    tag: 'Revisions',
+    query: revisionDiffQuerySchema,
+    response: revisionDiffSchema,
+  },
+  'GET /models/{id}/revisions/{number}': {
+    summary: "Fetch a revision's full snapshot",
+    tag: 'Revisions',
+    response: revisionSchema,
+  },
+  'PATCH /models/{id}/revisions/{number}': {
+    summary: "Change a revision's label",
+    tag: 'Revisions',
+    body: revisionLabelSchema,
+    response: revisionSummarySchema,
+  },
+
+  'GET /models/{id}/audit': {
+    summary: "A cost model's audit trail, newest first",
+    tag: 'Audit',
+    query: auditQuerySchema,
+    response: z.array(auditEntrySchema),
+  },
+  'GET /models/{id}/events': {
+    summary: 'Live presence and change events for a cost model',
+    tag: 'Cost models',
+    response: modelEventSchema,
+    produces: ['text/event-stream'],
+  },
+  'GET /models/{id}/report': {
+    summary: 'Elemental cost plan summary of a cost model',
+    tag: 'Reports',
+    query: reportQuerySchema,
+    response: costPlanReportSchema,
+    produces: ['text/csv', 'text/html'],
+  },
+  'GET /models/{id}/cashflow': {
+    summary: "A cost model's outturn cost spread across its construction programme",
+    tag: 'Reports',
+    query: cashflowQuerySchema,
+    response: cashflowSchema,
+    produces: ['text/csv'],
+  },
+  'GET /models/{id}/simulation': {
+    summary: "Monte Carlo simulation of a cost model's total from its ranges and risk register",
+    tag: 'Reports',
+    query: simulationQuerySchema,
+    response: simulationSchema,
+  },
+
+  'GET /templates': {
+    summary: 'List templates, without their work lines',
+    tag: 'Templates',
+    response: z.array(templateSummarySchema),
+  },
+  'GET /templates/{id}': {
+    summary: 'Fetch a template with its work lines',
+    tag: 'Templates',
+    response: templateSchema,
+  },
+  'DELETE /templates/{id}': {
+    summary: 'Delete a template',
+    tag: 'Templates',
+  },
+  'POST /templates/{id}/models': {
+    summary: 'Create a draft cost model from a template',
+    tag: 'Templates',
+    body: templateModelInputSchema,
+    response: templateModelResultSchema,
+    status: 201,
+  },
+
+  'GET /benchmarks': {
+    summary: '£/m² GIFA per model and per element against a comparison set',
+    tag: 'Benchmarks',
+    query: benchmarkQuerySchema,
+    response: benchmarkReportSchema,
+  },
+  'GET /compare': {
+    summary: 'Two cost models or revisions side by side, with a variance bridge',
+    tag: 'Comparisons',
+    query: comparisonQuerySchema,
+    response: comparisonSchema,
+  },
+
+  'GET /resources': {
+    summary: "List the rate library's labour, plant and materials",
+    tag: 'Rate library',
+    response: z.array(resourceSchema),
+  },
+  'POST /resources': {
+    summary: 'Add a resource',
+    tag: 'Rate library',
+    body: resourceInputSchema,
+    response: resourceSchema,
+    status: 201,
+  },
+  'GET /resources/{id}': {
+    summary: 'Fetch one resource',
+    tag: 'Rate library',
+    response: resourceSchema,
+  },
+  'POST /resources/{id}/preview': {
+    summary: 'What a PATCH with the same body would do, without saving',
+    tag: 'Rate library',
+    body: resourcePatchSchema,
+    response: rateImpactSchema,
+  },
+  'PATCH /resources/{id}': {
+    summary: 'Update a resource, repricing the rates and draft works that use it',
+    tag: 'Rate library',
+    body: resourcePatchSchema,
+    response: resourceSchema,
+  },
+  'DELETE /resources/{id}': {
+    summary: 'Delete a resource no composite rate uses',
+    tag: 'Rate library',
+  },
+  'GET /rates': {
+    summary: "List the rate library's composite rates",
+    tag: 'Rate library',
+    response: z.array(compositeRateSchema),
+  },
+  'POST /rates': {
+    summary: 'Add a composite rate built from library resources',
+    tag: 'Rate library',
+    body: compositeRateInputSchema,
+    response: compositeRateSchema,
+    status: 201,
+  },
+  'GET /rates/{id}': {
+    summary: 'Fetch one composite rate with its priced components',
+    tag: 'Rate library',
+    response: compositeRateSchema,
+  },
+  'POST /rates/{id}/preview': {
+    summary: 'What a PUT with the same body would do, without saving',
+    tag: 'Rate library',
+    body: compositeRateInputSchema,
+    response: rateImpactSchema,
+  },
+  'PUT /rates/{id}': {
+    summary: 'Replace a composite rate, repricing linked works in draft models',
+    tag: 'Rate library',
+    body: compositeRateInputSchema,
+    response: compositeRateSchema,
+  },
+  'DELETE /rates/{id}': {
+    summary: 'Delete a composite rate no work or template links to',
+    tag: 'Rate library',
+  },
+
+  'GET /tender-price-index': {
+    summary: 'List the tender price index table, oldest quarter first',
+    tag: 'Tender price index',
+    response: z.array(tenderPriceIndexEntrySchema),
+  },
+  'PUT /tender-price-index/{quarter}': {
+    summary: "Set a quarter's index value, adding the quarter if it is new",
+    tag: 'Tender price index',
+    body: tenderPriceIndexInputSchema,
+    response: tenderPriceIndexEntrySchema,
+  },
+  'DELETE /tender-price-index/{quarter}': {
+    summary: 'Remove a quarter from the tender price index table',
+    tag: 'Tender price index',
+  },
+
+  'GET /elements': {
+    summary: 'Search the NRM element library',
+    tag: 'NRM elements',
+    query: elementQuerySchema,
+    response: z.array(nrmElementSchema),
+  },
+  'GET /elements/tree': {
+    summary: 'The full group → element → sub-element hierarchy',
+    tag: 'NRM elements',
+    response: z.array(nrmElementNodeSchema),
+  },
+  'GET /elements/{code}': {
+    summary: 'One element with its ancestors and direct children',
+    tag: 'NRM elements',
+    response: nrmElementDetailSchema,
+  },
+} satisfies Record<string, Endpoint>;
+
+export type Endpoints = typeof endpoints;
+export type Route = keyof Endpoints;
+export type ApiErrorBody = z.infer<typeof apiErrorSchema>;
+
+// { id: string; workId: string } for '/models/{id}/works/{workId}'
+export type PathParams<Path extends string> = Path extends `${string}{${infer Name}}${infer Rest}`
+  ? { [K in Name]: string } & PathParams<Rest>
+  : unknown;
+
+export type RequestQuery<R extends Route> = Endpoints[R] extends { query: infer S extends z.ZodType }
+  ? Partial<z.output<S>>
+  : never;
+
+export type RequestBody<R extends Route> = Endpoints[R] extends { body: infer S extends z.ZodType }
+  ? z.input<S>
+  : never;
+
+export type ResponseBody<R extends Route> = Endpoints[R] extends { response: infer S extends z.ZodType }
+  ? z.output<S>
+  : void;
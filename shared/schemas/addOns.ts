@@ -0,0 +1,86 @@
+/**
+ * Cost plan add-on schemas
+ *
+ * A cost model's total builds up from its works cost in stages: main
+ * contractor's preliminaries, overheads and profit, design and construction
+ * contingencies, then other allowances. Each add-on belongs to one stage and
+ * is either a percentage of a base or a fixed sum. A percentage is taken of
+ * the works cost alone or of the subtotal at the end of the stage before
+ * its own, so add-ons in the same stage never compound on each other.
+ * Amounts are calculated by the server (see backend/utils/addOns.ts).
+ */
+
+import { z } from 'zod';
+import { inflationSchema } from './priceIndex.js';
+import { twoDecimals } from './works.js';
+
+// In the order they are applied
+export const addOnCategorySchema = z.enum([
+  'preliminaries',
+  'overheadsProfit',
+  'designContingency',
+  'constructionContingency',
+  'otherAllowance',
+]);
+
+export const addOnBaseSchema = z.enum(['works', 'subtotal']);
+
+export const addOnSchema = z
+  .object({
+    category: addOnCategorySchema,
+    label: z.string().trim().min(1).max(100),
+    method: z.enum(['percentage', 'fixed']),
+    // Percent (e.g. 12.5) or pounds, depending on method
+    value: twoDecimals,
+    // What a percentage is taken of; ignored for a fixed sum
+    base: addOnBaseSchema.default('subtotal'),
+  })
+  .strict()
+  .refine((addOn) => addOn.method !== 'percentage' || addOn.value <= 100, {
+    message: 'A percentage must be between 0 and 100',
+    path: ['value'],
+  });
+
+export const addOnListSchema = z.array(addOnSchema).max(30);
+
+const costPlanLineSchema = z.object({
+  label: z.string(),
+  method: addOnSchema.shape.method,
+  value: z.number(),
+  base: addOnBaseSchema,
+  // What the percentage was taken of; the amount itself for a fixed sum
+  baseAmount: z.number(),
+  amount: z.number(),
+});
+
+const costPlanStageSchema = z.object({
+  category: addOnCategorySchema,
+  label: z.string(),
+  lines: z.array(costPlanLineSchema),
+  amount: z.number(),
+  // Works cost plus this and every earlier stage
+  subtotal: z.number(),
+});
+
+// Response for GET /api/models/:id/summary
+export const costPlanSummarySchema = z.object({
+  costModelId: z.string(),
+  worksCost: z.number(),
+  // Only stages with at least one add-on
+  stages: z.array(costPlanStageSchema),
+  totalCost: z.number(),
+  costPerM2: z.number().nullable(),
+  // Inflation on the total from the base date to the construction
+  // mid-point; null until the model has a base date and programme
+  inflation: inflationSchema.nullable(),
+  // Total project cost plus inflation, where it could be worked out
+  outturnCost: z.number(),
+});
+
+export type AddOn = z.infer<typeof addOnSchema>;
+export type AddOnInput = z.input<typeof addOnSchema>;
+export type AddOnCategory = z.infer<typeof addOnCategorySchema>;
+export type AddOnBase = z.infer<typeof addOnBaseSchema>;
+export type CostPlanLine = z.infer<typeof costPlanLineSchema>;
+export type CostPlanStage = z.infer<typeof costPlanStageSchema>;
+export type CostPlanSummary = z.infer<typeof costPlanSummarySchema>;
@@ -0,0 +1,58 @@
+/**
+ * Audit log schemas
+ *
+ * One entry is written for every create, update, delete and status change
+ * of a cost model or a measured work, holding who made it, when, and each
+ * changed field's value before and after. Entries are never changed or
+ * removed, and outlive the model they describe.
+ */
+
+import { z } from 'zod';
+
+export const auditEntitySchema = z.enum(['model', 'work']);
+
+export const auditActionSchema = z.enum(['create', 'update', 'delete', 'status']);
+
+export const auditEntrySchema = z.object({
+  id: z.string(),
+  costModelId: z.string(),
+  entity: auditEntitySchema,
+  entityId: z.string(),
+  // Project name or work description at the time, so entries stay readable
+  // after the entity itself is deleted
+  entityLabel: z.string(),
+  action: auditActionSchema,
+  actor: z.object({
+    id: z.string(),
+    username: z.string(),
+    displayName: z.string(),
+  }),
+  timestamp: z.iso.datetime(),
+  changes: z.array(
+    z.object({
+      field: z.string(),
+      from: z.unknown(),
+      to: z.unknown(),
+    })
+  ),
+});
+
+// A date (whole day) or a full timestamp
+const auditDateSchema = z.union([z.iso.date(), z.iso.datetime()]);
+
+// Query for GET /api/models/:id/audit
+export const auditQuerySchema = z.object({
+  user: z.string().trim().toLowerCase().min(1).optional(),
+  field: z.string().trim().min(1).optional(),
+  entity: auditEntitySchema.optional(),
+  from: auditDateSchema.optional(),
+  to: auditDateSchema.optional(),
+}).refine(({ from, to }) => !from || !to || from.slice(0, 10) <= to.slice(0, 10), {
+  message: 'from must not be after to',
+  path: ['from'],
+});
+
+export type AuditEntity = z.infer<typeof auditEntitySchema>;
+export type AuditAction = z.infer<typeof auditActionSchema>;
+export type AuditEntry = z.infer<typeof auditEntrySchema>;
+export type AuditQuery = z.infer<typeof auditQuerySchema>;
@@ -0,0 +1,87 @@
+/**
+ * Benchmarking schemas
+ *
+ * £/m² of GIFA for every model in a comparison set, overall and per NRM
+ * element, with the median and quartiles of the set. Models without a GIFA
+ * cannot be benchmarked and are left out. Both are works cost per m², so
+ * the elements add up to the overall figure; add-ons vary between models
+ * and can't be split by element.
+ */
+
+import { z } from 'zod';
+import { costModelStatusListSchema, costModelStatusSchema } from './models.js';
+
+export const benchmarkQuerySchema = z.object({
+  status: costModelStatusListSchema.optional(),
+  client: z.string().trim().min(1).optional(),
+  // Works are rolled up to this level of the NRM hierarchy before comparing
+  level: z.enum(['group', 'element']).default('element'),
+  // A model to position against the set even if the filters exclude it
+  modelId: z.string().optional(),
+});
+
+const benchmarkStatsSchema = z.object({
+  count: z.number().int(),
+  min: z.number(),
+  lowerQuartile: z.number(),
+  median: z.number(),
+  upperQuartile: z.number(),
+  max: z.number(),
+});
+
+// Where one £/m² figure sits in the comparison set
+const benchmarkPositionSchema = z.object({
+  quartile: z.literal([1, 2, 3, 4]),
+  varianceFromMedian: z.number(),
+  percentFromMedian: z.number(),
+});
+
+const benchmarkModelSchema = z.object({
+  modelId: z.string(),
+  projectName: z.string(),
+  projectRef: z.string().optional(),
+  client: z.string().optional(),
+  status: costModelStatusSchema,
+  gifa: z.number(),
+  worksCost: z.number(),
+  costPerM2: z.number(),
+  inComparisonSet: z.boolean(),
+  // null when the comparison set is empty
+  position: benchmarkPositionSchema.nullable(),
+});
+
+const benchmarkElementEntrySchema = z.object({
+  modelId: z.string(),
+  subtotal: z.number(),
+  costPerM2: z.number(),
+  inComparisonSet: z.boolean(),
+  position: benchmarkPositionSchema.nullable(),
+});
+
+const benchmarkElementSchema = z.object({
+  elementCode: z.string(),
+  elementName: z.string(),
+  stats: benchmarkStatsSchema.nullable(),
+  models: z.array(benchmarkElementEntrySchema),
+});
+
+export const benchmarkReportSchema = z.object({
+  filters: z.object({
+    status: z.array(costModelStatusSchema).optional(),
+    client: z.string().optional(),
+    level: z.enum(['group', 'element']),
+  }),
+  overall: z.object({
+    stats: benchmarkStatsSchema.nullable(),
+    models: z.array(benchmarkModelSchema),
+  }),
+  elements: z.array(benchmarkElementSchema),
+});
+
+export type BenchmarkQuery = z.infer<typeof benchmarkQuerySchema>;
+export type BenchmarkStats = z.infer<typeof benchmarkStatsSchema>;
+export type BenchmarkPosition = z.infer<typeof benchmarkPositionSchema>;
+export type BenchmarkModel = z.infer<typeof benchmarkModelSchema>;
+export type BenchmarkElementEntry = z.infer<typeof benchmarkElementEntrySchema>;
+export type BenchmarkElement = z.infer<typeof benchmarkElementSchema>;
+export type BenchmarkReport = z.infer<typeof benchmarkReportSchema>;
@@ -0,0 +1,98 @@
+/**
+ * Cashflow forecast schemas
+ *
+ * A model's spend profile: its outturn cost spread across the calendar
+ * months of its construction programme, either as one total or element by
+ * element (with the add-ons and inflation as rows of their own). The
+ * spread follows a distribution:
+ *
+ *   linear   equal shares each month
+ *   sCurve   the standard cubic S-curve, slow to start and finish
+ *   custom   one weight per programme month, e.g. ?weights=1,2,4,4,2,1
+ *
+ * Optional retention is held back from each month's payment, half
+ * released at completion and the rest at the end of the defects period.
+ * Amounts are calculated by the server (see backend/utils/cashflow.ts).
+ */
+
+import { z } from 'zod';
+import { decimalPlaces } from '../utils/money.js';
+
+export const distributionSchema = z.enum(['linear', 'sCurve', 'custom']);
+
+// ?weights=1,2,4,4,2,1 or ?weights=1&weights=2...
+const weightListSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? value.split(',') : value),
+  z.array(z.coerce.number().nonnegative()).max(120)
+);
+
+// Query for GET /api/models/:id/cashflow
+export const cashflowQuerySchema = z
+  .object({
+    distribution: distributionSchema.default('sCurve'),
+    // Only used, and then required, for a custom distribution
+    weights: weightListSchema.optional(),
+    by: z.enum(['total', 'element']).default('total'),
+    // Percent held back from each payment
+    retention: z.coerce
+      .number()
+      .min(0)
+      .max(100)
+      .refine((value) => decimalPlaces(value) <= 2, 'Must have at most 2 decimal places')
+      .default(0),
+    // Months from completion to the release of the second half of retention
+    defectsPeriod: z.coerce.number().int().min(0).max(60).default(12),
+    format: z.enum(['json', 'csv']).default('json'),
+  })
+  .refine((query) => query.distribution !== 'custom' || query.weights?.some((weight) => weight > 0), {
+    message: 'A custom distribution needs weights, at least one above zero',
+    path: ['weights'],
+  });
+
+const cashflowMonthSchema = z.object({
+  // e.g. 2025-05
+  month: z.string(),
+  gross: z.number(),
+  cumulativeGross: z.number(),
+  // Cumulative gross as a percentage of the total, to 2 decimal places
+  percentComplete: z.number(),
+  retentionHeld: z.number(),
+  retentionReleased: z.number(),
+  net: z.number(),
+  cumulativeNet: z.number(),
+});
+
+// One element, add-on stage or inflation, or the whole total
+const cashflowRowSchema = z.object({
+  // Element code, add-on category, 'inflation' or 'total'
+  key: z.string(),
+  label: z.string(),
+  amount: z.number(),
+  // Gross amount in each month, in the same order as months
+  months: z.array(z.number()),
+});
+
+export const cashflowSchema = z.object({
+  costModelId: z.string(),
+  projectName: z.string(),
+  projectRef: z.string().optional(),
+  distribution: distributionSchema,
+  // Share of the total in each programme month, as percentages
+  weights: z.array(z.number()),
+  by: z.enum(['total', 'element']),
+  retention: z.number(),
+  defectsPeriod: z.number().int(),
+  constructionStart: z.iso.date(),
+  constructionCompletion: z.iso.date(),
+  // The outturn cost, or the total project cost if there's no inflation
+  total: z.number(),
+  // Programme months, then any months up to the final retention release
+  months: z.array(cashflowMonthSchema),
+  rows: z.array(cashflowRowSchema),
+});
+
+export type Distribution = z.infer<typeof distributionSchema>;
+export type CashflowQuery = z.infer<typeof cashflowQuerySchema>;
+export type CashflowMonth = z.infer<typeof cashflowMonthSchema>;
+export type CashflowRow = z.infer<typeof cashflowRowSchema>;
+export type Cashflow = z.infer<typeof cashflowSchema>;
@@ -0,0 +1,78 @@
+/**
+ * Comparison schemas
+ *
+ * Two cost models - or two revisions, of one model or of two - side by side,
+ * with their works aligned by element code. "from" is the baseline and "to"
+ * the model being explained, so a positive variance means "to" costs more.
+ * Everything is compared on works cost: add-ons apply to a model as a
+ * whole, so they can't be lined up by element.
+ */
+
+import { z } from 'zod';
+import { revisionNumberSchema } from './revisions.js';
+import { measuredWorkSchema, unitSchema } from './works.js';
+
+export const comparisonQuerySchema = z.object({
+  fromModel: z.string().min(1),
+  // Leave a revision out to compare the model as it is now
+  fromRevision: revisionNumberSchema.optional(),
+  toModel: z.string().min(1),
+  toRevision: revisionNumberSchema.optional(),
+});
+
+// One side of the comparison
+const comparisonSideSchema = z.object({
+  modelId: z.string(),
+  projectName: z.string(),
+  // null for the model as it is now
+  revision: z.number().int().nullable(),
+  revisionLabel: z.string().optional(),
+  gifa: z.number().optional(),
+  worksCost: z.number(),
+});
+
+// An element's works on one side; quantity and rate are only given when
+// every work in the element is measured in the same unit
+const elementSideSchema = z.object({
+  works: z.array(measuredWorkSchema),
+  unit: unitSchema.nullable(),
+  quantity: z.number().nullable(),
+  rate: z.number().nullable(),
+  total: z.number(),
+});
+
+const elementComparisonSchema = z.object({
+  elementCode: z.string(),
+  elementName: z.string(),
+  from: elementSideSchema,
+  to: elementSideSchema,
+  variance: z.number(),
+  // null when the element costs nothing in "from"
+  variancePercent: z.number().nullable(),
+});
+
+// A step in the bridge from the "from" works cost to the "to" works cost
+const bridgeStepSchema = z.object({
+  label: z.string(),
+  elementCode: z.string().optional(),
+  kind: z.enum(['start', 'change', 'end']),
+  amount: z.number(),
+  // Running total after this step
+  runningTotal: z.number(),
+});
+
+export const comparisonSchema = z.object({
+  from: comparisonSideSchema,
+  to: comparisonSideSchema,
+  variance: z.number(),
+  variancePercent: z.number().nullable(),
+  elements: z.array(elementComparisonSchema),
+  bridge: z.array(bridgeStepSchema),
+});
+
+export type ComparisonQuery = z.infer<typeof comparisonQuerySchema>;
+export type ComparisonSide = z.infer<typeof comparisonSideSchema>;
+export type ElementSide = z.infer<typeof elementSideSchema>;
+export type ElementComparison = z.infer<typeof elementComparisonSchema>;
+export type BridgeStep = z.infer<typeof bridgeStepSchema>;
+export type Comparison = z.infer<typeof comparisonSchema>;
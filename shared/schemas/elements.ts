@@ -0,0 +1,49 @@
+/**
+ * NRM element schemas
+ *
+ * The catalogue is hierarchical: group element (e.g. 2) → element (2.5) →
+ * sub-element (2.5.1). level and parentCode are derived from the dotted
+ * code.
+ */
+
+import { z } from 'zod';
+import { unitSchema } from './works.js';
+
+export const elementLevelSchema = z.enum(['group', 'element', 'subElement']);
+
+export const nrmElementSchema = z.object({
+  code: z.string(),
+  name: z.string(),
+  suggestedUnit: unitSchema,
+  description: z.string().optional(),
+  level: elementLevelSchema,
+  parentCode: z.string().optional(),
+});
+
+export const elementQuerySchema = z.object({
+  q: z.string().trim().optional(),
+  level: elementLevelSchema.optional(),
+  parentCode: z.string().optional(),
+});
+
+// GET /api/elements/:code
+export const nrmElementDetailSchema = nrmElementSchema.extend({
+  ancestors: z.array(nrmElementSchema),
+  children: z.array(nrmElementSchema),
+});
+
+// GET /api/elements/tree; the id names the recursive schema in the
+// OpenAPI document
+export const nrmElementNodeSchema = nrmElementSchema
+  .extend({
+    get children() {
+      return z.array(nrmElementNodeSchema);
+    },
+  })
+  .meta({ id: 'NRM2ElementNode' });
+
+export type NRM2Element = z.infer<typeof nrmElementSchema>;
+export type ElementLevel = z.infer<typeof elementLevelSchema>;
+export type ElementQuery = z.infer<typeof elementQuerySchema>;
+export type NRM2ElementDetail = z.infer<typeof nrmElementDetailSchema>;
+export type NRM2ElementNode = z.infer<typeof nrmElementNodeSchema>;
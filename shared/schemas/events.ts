@@ -0,0 +1,22 @@
+/**
+ * Live update events
+ *
+ * Sent to everyone viewing a cost model over GET /api/models/:id/events
+ * (Server-Sent Events, one event name per type). A change event carries the
+ * audit entry written for it, so clients know who changed what and can
+ * reload.
+ */
+
+import { z } from 'zod';
+import { auditEntrySchema } from './audit.js';
+
+export const viewerSchema = auditEntrySchema.shape.actor;
+
+export const modelEventSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('change'), entry: auditEntrySchema }),
+  // Everyone viewing the model, once each however many tabs they have open
+  z.object({ type: z.literal('presence'), viewers: z.array(viewerSchema) }),
+]);
+
+export type Viewer = z.infer<typeof viewerSchema>;
+export type ModelEvent = z.infer<typeof modelEventSchema>;
@@ -0,0 +1,53 @@
+/**
+ * CSV import schemas
+ *
+ * A mapping column may be given as a header name ("Qty") or a zero-based
+ * column index (2). When no mapping is sent, columns are matched by header
+ * name (see backend/services/importService.ts).
+ */
+
+import { z } from 'zod';
+import { measuredWorkInputSchema } from './works.js';
+
+const columnRefSchema = z.union([z.string().trim().min(1), z.number().int().nonnegative()]);
+
+export const columnMappingSchema = z.object({
+  elementCode: columnRefSchema,
+  description: columnRefSchema,
+  quantity: columnRefSchema,
+  unit: columnRefSchema,
+  unitRate: columnRefSchema,
+  notes: columnRefSchema.optional(),
+}).strict();
+
+// Body for POST /import/preview and POST /import
+export const worksImportSchema = z.object({
+  csv: z.string().min(1, 'CSV content is empty'),
+  delimiter: z.string().length(1).default(','),
+  hasHeader: z.boolean().default(true),
+  mapping: columnMappingSchema.optional(),
+}).strict();
+
+const importRowSchema = z.object({
+  // Line number in the file (1-based, header included)
+  line: z.number().int(),
+  cells: z.array(z.string()),
+  work: measuredWorkInputSchema.nullable(),
+  totalCost: z.number(),
+  errors: z.array(z.object({ field: z.string(), message: z.string() })),
+});
+
+export const importPreviewSchema = z.object({
+  headers: z.array(z.string()),
+  mapping: columnMappingSchema,
+  rows: z.array(importRowSchema),
+  validCount: z.number().int(),
+  errorCount: z.number().int(),
+  totalCost: z.number(),
+});
+
+export type ColumnMapping = z.infer<typeof columnMappingSchema>;
+export type WorksImportInput = z.infer<typeof worksImportSchema>;
+export type ImportRow = z.infer<typeof importRowSchema>;
+export type ImportRowError = ImportRow['errors'][number];
+export type ImportPreview = z.infer<typeof importPreviewSchema>;
@@ -0,0 +1,121 @@
+/**
+ * Cost model schemas
+ *
+ * The entity schema describes what is stored and returned; the input
+ * schemas describe what clients may send (id, timestamps and totalCost are
+ * always set by the server - totalCost is the sum of the model's measured
+ * works plus its add-ons, see schemas/addOns.ts). preparedBy is stamped
+ * from the user who creates the model. status and the approval fields only
+ * change through the workflow transitions in backend/services/workflow.ts.
+ */
+
+import { z } from 'zod';
+import { addOnListSchema } from './addOns.js';
+import { riskListSchema } from './risks.js';
+
+export const costModelStatusSchema = z.enum(['draft', 'approved', 'archived']);
+
+export const costModelSchema = z.object({
+  id: z.string(),
+  projectName: z.string().trim().min(1),
+  projectRef: z.string().trim().optional(),
+  client: z.string().trim().optional(),
+  gifa: z.number().positive().optional(),
+  totalCost: z.number().nonnegative(),
+  status: costModelStatusSchema,
+  preparedBy: z.string().trim().optional(),
+  // Preliminaries, OH&P, contingencies and other allowances, in order
+  addOns: addOnListSchema.optional(),
+  // Date the model is priced at, and the construction programme it is
+  // inflated over (see schemas/priceIndex.ts)
+  baseDate: z.iso.date().optional(),
+  constructionStart: z.iso.date().optional(),
+  constructionCompletion: z.iso.date().optional(),
+  // Risk register, simulated with the works' ranges (see schemas/risks.ts)
+  risks: riskListSchema.optional(),
+  approvedBy: z.string().optional(),
+  approvedAt: z.iso.datetime().optional(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+// Fields clients can never write directly
+const serverManagedFields = {
+  id: true,
+  totalCost: true,
+  status: true,
+  preparedBy: true,
+  approvedBy: true,
+  approvedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} as const;
+
+// Every editable field; parsing a stored model with this drops the rest
+export const costModelFieldsSchema = costModelSchema.omit(serverManagedFields);
+
+// Body for POST and PUT: every editable field
+export const costModelInputSchema = costModelFieldsSchema.strict();
+
+// Body for PATCH: any subset of the editable fields
+export const costModelPatchSchema = costModelSchema
+  .omit(serverManagedFields)
+  .partial()
+  .strict();
+
+export const transitionActionSchema = z.enum(['approve', 'archive', 'reopen']);
+
+// Body for POST /api/models/:id/transitions
+// The approver is the signed-in user, so no name is sent
+export const transitionInputSchema = z.object({
+  action: transitionActionSchema,
+}).strict();
+
+// ?status=draft,approved or ?status=draft&status=approved
+export const costModelStatusListSchema = z.preprocess(
+  (value) => (typeof value === 'string' ? value.split(',') : value),
+  z.array(z.string().trim().pipe(costModelStatusSchema))
+);
+
+export const costModelSortFieldSchema = z.enum([
+  'projectName',
+  'projectRef',
+  'client',
+  'gifa',
+  'totalCost',
+  'status',
+  'preparedBy',
+  'createdAt',
+  'updatedAt',
+]);
+
+// Query for GET /api/models
+export const costModelQuerySchema = z.object({
+  // Case-insensitive text search over projectName, projectRef and client
+  q: z.string().trim().optional(),
+  status: costModelStatusListSchema.optional(),
+  // Case-insensitive, and matches part of a name (e.g. "smith")
+  preparedBy: z.string().trim().min(1).optional(),
+  sort: costModelSortFieldSchema.default('updatedAt'),
+  order: z.enum(['asc', 'desc']).default('desc'),
+  limit: z.coerce.number().int().min(1).max(100).default(25),
+  offset: z.coerce.number().int().min(0).default(0),
+});
+
+export const costModelPageSchema = z.object({
+  items: z.array(costModelSchema),
+  // Number of models matching the search and filters, across all pages
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int(),
+});
+
+export type CostModel = z.infer<typeof costModelSchema>;
+export type CostModelStatus = z.infer<typeof costModelStatusSchema>;
+export type CostModelInput = z.infer<typeof costModelInputSchema>;
+export type CostModelPatch = z.infer<typeof costModelPatchSchema>;
+export type TransitionAction = z.infer<typeof transitionActionSchema>;
+export type TransitionInput = z.infer<typeof transitionInputSchema>;
+export type CostModelSortField = z.infer<typeof costModelSortFieldSchema>;
+export type CostModelQuery = z.infer<typeof costModelQuerySchema>;
+export type CostModelPage = z.infer<typeof costModelPageSchema>;
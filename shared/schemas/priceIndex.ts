@@ -0,0 +1,61 @@
+/**
+ * Tender price index schemas
+ *
+ * A locally maintained table of tender price index values, one per quarter
+ * (e.g. 2025-Q1), kept up to date by admins. A model priced at a base date
+ * is inflated to the mid-point of its construction programme by the ratio
+ * of the two quarters' values (see backend/utils/inflation.ts). Values not
+ * yet published can be entered as forecasts.
+ */
+
+import { z } from 'zod';
+import { decimalPlaces } from '../utils/money.js';
+
+export const quarterSchema = z.string().regex(/^\d{4}-Q[1-4]$/, 'Must be a quarter, e.g. 2025-Q1');
+
+const indexValue = z
+  .number()
+  .positive()
+  .refine((value) => decimalPlaces(value) <= 2, 'Must have at most 2 decimal places');
+
+export const tenderPriceIndexEntrySchema = z.object({
+  id: z.string(),
+  quarter: quarterSchema,
+  value: indexValue,
+  forecast: z.boolean(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+// Body for PUT /api/tender-price-index/:quarter
+export const tenderPriceIndexInputSchema = z.object({
+  value: indexValue,
+  forecast: z.boolean().default(false),
+}).strict();
+
+const indexPointSchema = z.object({
+  quarter: quarterSchema,
+  // null when the table has no value for the quarter
+  value: z.number().nullable(),
+  forecast: z.boolean(),
+});
+
+// Inflation from a model's base date to the mid-point of construction,
+// with what it was worked out from
+export const inflationSchema = z.object({
+  baseDate: z.iso.date(),
+  midPoint: z.iso.date(),
+  baseIndex: indexPointSchema,
+  midPointIndex: indexPointSchema,
+  // Percentage uplift, to 2 decimal places; this and the rest are null
+  // until both quarters have an index value
+  uplift: z.number().nullable(),
+  amount: z.number().nullable(),
+  // e.g. "£1,000,000.00 × (315.00 ÷ 300.00 − 1) = £50,000.00"
+  formula: z.string().nullable(),
+});
+
+export type TenderPriceIndexEntry = z.infer<typeof tenderPriceIndexEntrySchema>;
+export type TenderPriceIndexInput = z.infer<typeof tenderPriceIndexInputSchema>;
+export type IndexPoint = z.infer<typeof indexPointSchema>;
+export type Inflation = z.infer<typeof inflationSchema>;
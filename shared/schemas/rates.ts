@@ -0,0 +1,124 @@
+/**
+ * Rate library schemas
+ *
+ * Resources are priced labour, plant and materials (per hour, per m³, per
+ * thousand bricks...). A composite rate prices one unit of measured work
+ * from resources: each component uses either a quantity of the resource
+ * per unit of work or an output (units of work per unit of resource, e.g.
+ * m² laid per hour), plus a wastage allowance. Component costs and the
+ * rate itself are always calculated by the server (backend/utils/rates.ts).
+ */
+
+import { z } from 'zod';
+import { decimalPlaces } from '../utils/money.js';
+import { costModelStatusSchema } from './models.js';
+import { twoDecimals, unitSchema } from './works.js';
+
+export const resourceTypeSchema = z.enum(['labour', 'plant', 'material']);
+
+const code = z.string().trim().min(1).max(20);
+
+// Usages and outputs are taken to 4dp, e.g. 0.0225 m³ of mortar per m²
+const usage = z
+  .number()
+  .positive()
+  .refine((value) => decimalPlaces(value) <= 4, 'Must have at most 4 decimal places');
+
+export const resourceSchema = z.object({
+  id: z.string(),
+  code,
+  name: z.string().trim().min(1).max(200),
+  type: resourceTypeSchema,
+  // The unit the resource is bought in, e.g. hr, m3, 1000
+  unit: z.string().trim().min(1).max(10),
+  price: twoDecimals,
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const rateComponentSchema = z.object({
+  resourceId: z.string().min(1),
+  quantity: usage.optional(),
+  output: usage.optional(),
+  // Percentage added to the quantity for waste, e.g. 5 for 5%
+  wastage: z
+    .number()
+    .min(0)
+    .max(100)
+    .refine((value) => decimalPlaces(value) <= 2, 'Must have at most 2 decimal places')
+    .default(0),
+  // Calculated: price × quantity (or ÷ output) plus wastage, to the penny
+  cost: z.number().nonnegative(),
+});
+
+export const compositeRateSchema = z.object({
+  id: z.string(),
+  code,
+  description: z.string().trim().min(1).max(500),
+  unit: unitSchema,
+  components: z.array(rateComponentSchema).min(1).max(50),
+  // Calculated: the sum of the component costs
+  rate: z.number().nonnegative(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+// Bodies for POST and PATCH /api/resources
+export const resourceInputSchema = resourceSchema.omit({ id: true, createdAt: true, updatedAt: true }).strict();
+export const resourcePatchSchema = resourceInputSchema.partial();
+
+const rateComponentInputSchema = rateComponentSchema
+  .omit({ cost: true })
+  .strict()
+  .refine((component) => (component.quantity === undefined) !== (component.output === undefined), {
+    message: 'Give either a quantity or an output',
+    path: ['quantity'],
+  });
+
+// Body for POST and PUT /api/rates
+export const compositeRateInputSchema = compositeRateSchema
+  .omit({ id: true, rate: true, createdAt: true, updatedAt: true })
+  .extend({
+    components: z.array(rateComponentInputSchema).min(1).max(50),
+  })
+  .strict();
+
+/**
+ * What a change to the library would do: the composite rates it reprices
+ * and the model totals that follow. Only draft models are updated; works in
+ * approved or archived models keep the rate they were approved at.
+ */
+export const rateImpactSchema = z.object({
+  rates: z.array(
+    compositeRateSchema.pick({ id: true, code: true, description: true, unit: true }).extend({
+      from: z.number(),
+      to: z.number(),
+    })
+  ),
+  models: z.array(
+    z.object({
+      modelId: z.string(),
+      projectName: z.string(),
+      status: costModelStatusSchema,
+      // Linked works whose unit rate changes
+      works: z.number().int(),
+      from: z.number(),
+      to: z.number(),
+      variance: z.number(),
+      // False for approved and archived models, which are left as they are
+      updated: z.boolean(),
+    })
+  ),
+  // Change across the models that are updated
+  variance: z.number(),
+});
+
+export type ResourceType = z.infer<typeof resourceTypeSchema>;
+export type Resource = z.infer<typeof resourceSchema>;
+export type ResourceInput = z.infer<typeof resourceInputSchema>;
+export type ResourcePatch = z.infer<typeof resourcePatchSchema>;
+export type RateComponent = z.infer<typeof rateComponentSchema>;
+export type RateComponentInput = z.infer<typeof rateComponentInputSchema>;
+export type CompositeRate = z.infer<typeof compositeRateSchema>;
+export type CompositeRateInput = z.infer<typeof compositeRateInputSchema>;
+export type RateImpact = z.infer<typeof rateImpactSchema>;
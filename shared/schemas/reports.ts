@@ -0,0 +1,53 @@
+/**
+ * Cost plan report schemas
+ *
+ * An elemental summary of one cost model: works grouped under their element
+ * code, a subtotal per element, a grand total and cost per m² of GIFA,
+ * followed by the add-ons that build the works total up to the total
+ * project cost.
+ */
+
+import { z } from 'zod';
+import { costPlanSummarySchema } from './addOns.js';
+import { costModelSchema } from './models.js';
+import { measuredWorkSchema } from './works.js';
+
+export const reportQuerySchema = z.object({
+  format: z.enum(['json', 'csv', 'html']).default('json'),
+});
+
+const reportElementSchema = z.object({
+  elementCode: z.string(),
+  elementName: z.string(),
+  works: z.array(measuredWorkSchema),
+  subtotal: z.number(),
+  costPerM2: z.number().nullable(),
+  percentOfTotal: z.number(),
+});
+
+export const costPlanReportSchema = z.object({
+  model: costModelSchema.pick({
+    id: true,
+    projectName: true,
+    projectRef: true,
+    client: true,
+    gifa: true,
+    status: true,
+    preparedBy: true,
+    approvedBy: true,
+    approvedAt: true,
+    baseDate: true,
+    constructionStart: true,
+    constructionCompletion: true,
+  }),
+  generatedAt: z.iso.datetime(),
+  elements: z.array(reportElementSchema),
+  // Sum of the element subtotals, i.e. the works cost
+  grandTotal: z.number(),
+  costPerM2: z.number().nullable(),
+  summary: costPlanSummarySchema,
+});
+
+export type ReportFormat = z.infer<typeof reportQuerySchema>['format'];
+export type ReportElement = z.infer<typeof reportElementSchema>;
+export type CostPlanReport = z.infer<typeof costPlanReportSchema>;
@@ -0,0 +1,92 @@
+/**
+ * Revision schemas
+ *
+ * A revision is a numbered snapshot of a cost model and all of its measured
+ * works, taken every time either is saved. Numbers start at 1 per model.
+ */
+
+import { z } from 'zod';
+import { costModelSchema } from './models.js';
+import { measuredWorkSchema } from './works.js';
+
+export const revisionSchema = z.object({
+  id: z.string(),
+  costModelId: z.string(),
+  number: z.number().int().positive(),
+  label: z.string().optional(),
+  createdAt: z.iso.datetime(),
+  model: costModelSchema,
+  works: z.array(measuredWorkSchema),
+});
+
+// How a revision is kept in the store: the model as it was, and either
+// every work (a full snapshot) or only the works added or changed and the
+// ids of those removed since the revision before. The revision service
+// rebuilds the full list of works from the last snapshot.
+export const storedRevisionSchema = revisionSchema.omit({ works: true }).extend({
+  works: z.array(measuredWorkSchema).optional(),
+  changedWorks: z.array(measuredWorkSchema).optional(),
+  removedWorkIds: z.array(z.string()).optional(),
+});
+
+// Body for POST (save a labelled revision) and PATCH (relabel a revision)
+export const revisionLabelSchema = z.object({
+  label: z.string().trim().min(1).max(100),
+}).strict();
+
+export const revisionNumberSchema = z.coerce.number().int().positive();
+
+export const revisionDiffQuerySchema = z.object({
+  from: revisionNumberSchema,
+  to: revisionNumberSchema,
+});
+
+export const revisionSummarySchema = revisionSchema.omit({ model: true, works: true }).extend({
+  totalCost: z.number(),
+  workCount: z.number().int(),
+});
+
+const fieldChangeSchema = z.object({
+  field: z.string(),
+  from: z.unknown(),
+  to: z.unknown(),
+});
+
+const workChangeSchema = z.object({
+  workId: z.string(),
+  description: z.string(),
+  changes: z.array(fieldChangeSchema),
+  quantityDelta: z.number(),
+  unitRateDelta: z.number(),
+  totalCostDelta: z.number(),
+});
+
+const elementDiffSchema = z.object({
+  elementCode: z.string(),
+  elementName: z.string(),
+  added: z.array(measuredWorkSchema),
+  removed: z.array(measuredWorkSchema),
+  changed: z.array(workChangeSchema),
+  fromTotal: z.number(),
+  toTotal: z.number(),
+  totalCostDelta: z.number(),
+});
+
+export const revisionDiffSchema = z.object({
+  costModelId: z.string(),
+  from: revisionSummarySchema,
+  to: revisionSummarySchema,
+  modelChanges: z.array(fieldChangeSchema),
+  // Change in works cost, the sum of the element deltas; add-on changes
+  // show up in modelChanges
+  worksCostDelta: z.number(),
+  elements: z.array(elementDiffSchema),
+});
+
+export type Revision = z.infer<typeof revisionSchema>;
+export type StoredRevision = z.infer<typeof storedRevisionSchema>;
+export type RevisionSummary = z.infer<typeof revisionSummarySchema>;
+export type FieldChange = z.infer<typeof fieldChangeSchema>;
+export type WorkChange = z.infer<typeof workChangeSchema>;
+export type ElementDiff = z.infer<typeof elementDiffSchema>;
+export type RevisionDiff = z.infer<typeof revisionDiffSchema>;
@@ -0,0 +1,100 @@
+/**
+ * Risk register and cost simulation schemas
+ *
+ * Each cost model can carry a register of risks, each with a chance of
+ * happening and a minimum, most likely and maximum cost if it does. Works
+ * can also carry three-point ranges on their quantity and unit rate (see
+ * schemas/works.ts), with the stored quantity and rate as the most likely
+ * values.
+ *
+ * The Monte Carlo simulation samples every range and risk many times from
+ * a seeded random sequence, so the same model, seed and iterations always
+ * give the same answer. Each iteration's works cost is built up through
+ * the model's add-ons, leaving out the design and construction
+ * contingencies the simulation stands in for, and the risks that occur are
+ * added on top. Percentiles of those totals, less the total without
+ * contingency, give the contingency needed for that confidence (see
+ * backend/utils/monteCarlo.ts).
+ */
+
+import { z } from 'zod';
+import { twoDecimals } from './works.js';
+
+export const riskSchema = z
+  .object({
+    title: z.string().trim().min(1).max(200),
+    owner: z.string().trim().max(100).optional(),
+    // Percent chance of the risk happening, e.g. 25
+    probability: twoDecimals.max(100),
+    // Cost if it happens
+    min: twoDecimals,
+    likely: twoDecimals,
+    max: twoDecimals,
+  })
+  .strict()
+  .refine((risk) => risk.min <= risk.likely && risk.likely <= risk.max, {
+    message: 'Cost impacts must run min ≤ likely ≤ max',
+    path: ['likely'],
+  });
+
+export const riskListSchema = z.array(riskSchema).max(100);
+
+// Query for GET /api/models/:id/simulation
+export const simulationQuerySchema = z.object({
+  iterations: z.coerce.number().int().min(100).max(20000).default(5000),
+  // Same seed, same model, same answer
+  seed: z.coerce.number().int().min(0).max(2 ** 31 - 1).default(1),
+});
+
+const percentileSchema = z.object({
+  // 10, 50, 80 or 90
+  percentile: z.number().int(),
+  total: z.number(),
+  // total less the cost without contingency
+  contingency: z.number(),
+});
+
+const histogramBinSchema = z.object({
+  from: z.number(),
+  to: z.number(),
+  count: z.number().int(),
+});
+
+// A risk or a ranged work, by how far the total moves with it
+const tornadoBarSchema = z.object({
+  // 'risk-<index>' or the work's id
+  key: z.string(),
+  kind: z.enum(['risk', 'work']),
+  label: z.string(),
+  // Mean simulated total when this input is in its lowest and highest
+  // tenth of samples
+  low: z.number(),
+  high: z.number(),
+  swing: z.number(),
+});
+
+export const simulationSchema = z.object({
+  costModelId: z.string(),
+  iterations: z.number().int(),
+  seed: z.number().int(),
+  // The model's total project cost, with its flat contingencies
+  totalCost: z.number(),
+  // Design and construction contingency add-ons in that total
+  currentContingency: z.number(),
+  // Total project cost without contingency, at the most likely values
+  baseCost: z.number(),
+  mean: z.number(),
+  min: z.number(),
+  max: z.number(),
+  percentiles: z.array(percentileSchema),
+  histogram: z.array(histogramBinSchema),
+  // Biggest swing first, at most 10
+  tornado: z.array(tornadoBarSchema),
+});
+
+export type Risk = z.infer<typeof riskSchema>;
+export type SimulationQuery = z.infer<typeof simulationQuerySchema>;
+export type SimulationPercentile = z.infer<typeof percentileSchema>;
+export type HistogramBin = z.infer<typeof histogramBinSchema>;
+export type TornadoBar = z.infer<typeof tornadoBarSchema>;
+export type Simulation = z.infer<typeof simulationSchema>;
@@ -0,0 +1,61 @@
+/**
+ * Template schemas
+ *
+ * A template is a frozen copy of a model's editable fields and its measured
+ * work lines, saved so new schemes can start from it. Later changes to the
+ * source model don't affect the template.
+ */
+
+import { z } from 'zod';
+import { costModelFieldsSchema, costModelInputSchema, costModelSchema } from './models.js';
+import { measuredWorkFieldsSchema } from './works.js';
+
+export const templateSchema = z.object({
+  id: z.string(),
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional(),
+  sourceModelId: z.string(),
+  model: costModelFieldsSchema,
+  works: z.array(measuredWorkFieldsSchema.required({ elementName: true })),
+  createdBy: z.string(),
+  createdAt: z.iso.datetime(),
+});
+
+// Body for POST /api/models/:id/template
+export const templateInputSchema = templateSchema.pick({ name: true, description: true }).strict();
+
+// Body for POST /api/models/:id/duplicate
+export const duplicateInputSchema = z.object({
+  // Defaults to the source model's name followed by "(copy)"
+  projectName: z.string().trim().min(1).optional(),
+}).strict();
+
+// Body for POST /api/templates/:id/models: the new model's fields and
+// whether to rescale quantities to its GIFA. Only addOns and risks default
+// to the template's; the other fields aren't taken from it
+export const templateModelInputSchema = costModelInputSchema
+  .extend({
+    scaleQuantities: z.boolean().default(false),
+  })
+  .strict();
+
+// GET /api/templates lists templates without their work lines
+export const templateSummarySchema = templateSchema.omit({ works: true }).extend({
+  workCount: z.number().int(),
+});
+
+export const templateModelResultSchema = z.object({
+  model: costModelSchema,
+  // New GIFA ÷ template GIFA, or null when quantities were copied unscaled
+  scaleFactor: z.number().nullable(),
+  scaledCount: z.number().int(),
+  // Lines whose unit (ls, nr) doesn't follow floor area; flagged needsReview
+  reviewCount: z.number().int(),
+});
+
+export type CostModelTemplate = z.infer<typeof templateSchema>;
+export type TemplateSummary = z.infer<typeof templateSummarySchema>;
+export type TemplateInput = z.infer<typeof templateInputSchema>;
+export type DuplicateInput = z.infer<typeof duplicateInputSchema>;
+export type TemplateModelInput = z.infer<typeof templateModelInputSchema>;
+export type TemplateModelResult = z.infer<typeof templateModelResultSchema>;
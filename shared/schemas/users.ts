@@ -0,0 +1,70 @@
+/**
+ * User and session schemas
+ *
+ * passwordHash never leaves the server - routes return PublicUser. A
+ * session is stored under the SHA-256 of its token, so the data file alone
+ * can't be used to sign in.
+ */
+
+import { z } from 'zod';
+
+export const roleSchema = z.enum(['estimator', 'reviewer', 'admin']);
+
+export const userSchema = z.object({
+  id: z.string(),
+  username: z
+    .string()
+    .trim()
+    .toLowerCase()
+    .min(3)
+    .max(50)
+    .regex(/^[a-z0-9._-]+$/, 'Use letters, numbers, dots, dashes and underscores only'),
+  displayName: z.string().trim().min(1).max(100),
+  role: roleSchema,
+  passwordHash: z.string(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+// What routes return for a user
+export const publicUserSchema = userSchema.omit({ passwordHash: true });
+
+export const passwordSchema = z.string().min(8, 'Must be at least 8 characters').max(200);
+
+// Body for POST /api/users
+export const userInputSchema = userSchema
+  .omit({ id: true, passwordHash: true, createdAt: true, updatedAt: true })
+  .extend({ password: passwordSchema })
+  .strict();
+
+// Body for PATCH /api/users/:id
+export const userPatchSchema = userInputSchema.omit({ username: true }).partial().strict();
+
+// Body for POST /api/auth/login
+export const loginSchema = z.object({
+  username: z.string().trim().toLowerCase().min(1),
+  password: z.string().min(1),
+}).strict();
+
+export const sessionSchema = z.object({
+  id: z.string(),
+  userId: z.string(),
+  createdAt: z.iso.datetime(),
+  expiresAt: z.iso.datetime(),
+});
+
+// Response to POST /api/auth/login
+export const signInSchema = z.object({
+  token: z.string(),
+  expiresAt: z.iso.datetime(),
+  user: publicUserSchema,
+});
+
+export type Role = z.infer<typeof roleSchema>;
+export type User = z.infer<typeof userSchema>;
+export type PublicUser = z.infer<typeof publicUserSchema>;
+export type UserInput = z.infer<typeof userInputSchema>;
+export type UserPatch = z.infer<typeof userPatchSchema>;
+export type LoginInput = z.infer<typeof loginSchema>;
+export type Session = z.infer<typeof sessionSchema>;
+export type SignIn = z.infer<typeof signInSchema>;
@@ -0,0 +1,95 @@
+/**
+ * Measured work schemas
+ *
+ * costModelId comes from the URL and totalCost is always calculated by the
+ * server, so neither is accepted in request bodies. elementName may be sent
+ * but is always replaced with the name from the NRM element library. When a
+ * dimension build-up is sent, the quantity is recalculated from it; when a
+ * library rateId is sent, unitRate is taken from the rate library.
+ * needsReview is set on lines a template couldn't rescale and cleared when
+ * the line is edited.
+ */
+
+import { z } from 'zod';
+import { decimalPlaces } from '../utils/money.js';
+
+// Quantities and rates are held to 2dp so line totals follow the rounding
+// policy in utils/money.ts exactly
+export const twoDecimals = z
+  .number()
+  .nonnegative()
+  .refine((value) => decimalPlaces(value) <= 2, 'Must have at most 2 decimal places');
+
+export const unitSchema = z.enum(['m2', 'm3', 'm', 'nr', 't', 'ls']);
+
+// Dimensions are taken off to the millimetre
+const dimension = z
+  .number()
+  .positive()
+  .refine((value) => decimalPlaces(value) <= 3, 'Must have at most 3 decimal places');
+
+// One line of a dimension sheet. Which of length, width and depth are used
+// depends on the work's unit (see backend/utils/dimensions.ts); a deduction is
+// subtracted from the total instead of added.
+export const dimensionLineSchema = z.object({
+  description: z.string().trim().max(200).default(''),
+  timesing: dimension.default(1),
+  length: dimension.optional(),
+  width: dimension.optional(),
+  depth: dimension.optional(),
+  deduction: z.boolean().default(false),
+}).strict();
+
+// Lowest and highest a quantity or unit rate could turn out, either side
+// of the value held on the work (see schemas/risks.ts)
+export const rangeSchema = z
+  .object({
+    min: twoDecimals,
+    max: twoDecimals,
+  })
+  .strict()
+  .refine((range) => range.min <= range.max, { message: 'min must not be more than max', path: ['min'] });
+
+export const measuredWorkSchema = z.object({
+  id: z.string(),
+  costModelId: z.string(),
+  elementCode: z.string().trim().min(1),
+  elementName: z.string().trim().min(1),
+  description: z.string().trim(),
+  quantity: twoDecimals,
+  unit: unitSchema,
+  unitRate: twoDecimals,
+  totalCost: z.number().nonnegative(),
+  notes: z.string().optional(),
+  // Library rate the unit rate is taken from (see schemas/rates.ts)
+  rateId: z.string().optional(),
+  // How the quantity was measured; when present, quantity is its total
+  buildUp: z.array(dimensionLineSchema).max(200).optional(),
+  // Three-point estimate ranges; quantity and unitRate are the most likely
+  quantityRange: rangeSchema.optional(),
+  unitRateRange: rangeSchema.optional(),
+  // Why the line should be checked by hand, e.g. a lump sum not rescaled
+  needsReview: z.string().optional(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+// Every field a client may send; parsing a stored work with this drops the rest
+export const measuredWorkFieldsSchema = measuredWorkSchema
+  .omit({ id: true, costModelId: true, totalCost: true, needsReview: true, createdAt: true, updatedAt: true })
+  .extend({
+    elementName: z.string().optional(),
+  });
+
+// Body for POST and PUT
+export const measuredWorkInputSchema = measuredWorkFieldsSchema.strict();
+
+// Body for PATCH
+export const measuredWorkPatchSchema = measuredWorkInputSchema.partial();
+
+export type MeasuredWork = z.infer<typeof measuredWorkSchema>;
+export type Unit = z.infer<typeof unitSchema>;
+export type DimensionLine = z.infer<typeof dimensionLineSchema>;
+export type Range = z.infer<typeof rangeSchema>;
+export type MeasuredWorkInput = z.infer<typeof measuredWorkInputSchema>;
+export type MeasuredWorkPatch = z.infer<typeof measuredWorkPatchSchema>;
@@ -0,0 +1,84 @@
+import assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { multiplyMoney, roundMoney, sumMoney, sumProducts } from './money.js';
+
+describe('roundMoney', () => {
+  it('rounds halves up, away from zero', () => {
+    assert.equal(roundMoney(0.125), 0.13);
+    assert.equal(roundMoney(2.675), 2.68);
+    assert.equal(roundMoney(1.005), 1.01);
+    assert.equal(roundMoney(-0.125), -0.13);
+  });
+
+  it('rounds below a half down', () => {
+    assert.equal(roundMoney(0.124), 0.12);
+    assert.equal(roundMoney(1.0049), 1);
+  });
+
+  it('treats non-numeric input as zero', () => {
+    assert.equal(roundMoney(Number.NaN), 0);
+  });
+});
+
+describe('multiplyMoney', () => {
+  it('multiplies exactly before rounding', () => {
+    // 1.15 × 100 is 114.99999999999999 as floats
+    assert.equal(multiplyMoney(1.15, 100), 115);
+    assert.equal(multiplyMoney(0.1, 0.2), 0.02);
+    assert.equal(multiplyMoney(1250.5, 42.75), 53458.88);
+  });
+
+  it('rounds a half penny up', () => {
+    assert.equal(multiplyMoney(1.5, 0.33), 0.5);
+    assert.equal(multiplyMoney(0.5, 0.01), 0.01);
+    assert.equal(multiplyMoney(-0.5, 0.01), -0.01);
+  });
+
+  it('keeps large totals to the penny', () => {
+    assert.equal(multiplyMoney(123456.78, 9876.54), 1219325825.94);
+  });
+});
+
+describe('sumMoney', () => {
+  it('adds without float drift', () => {
+    assert.equal(sumMoney([0.1, 0.2]), 0.3);
+    assert.equal(sumMoney(new Array(1000).fill(0.01)), 10);
+  });
+
+  it('gives the same total in any order or grouping', () => {
+    const amounts = [1234.56, 0.07, 99999.99, 0.01, 15000.1, 8.3];
+    const grouped = sumMoney([sumMoney(amounts.slice(0, 3)), sumMoney(amounts.slice(3))]);
+    assert.equal(sumMoney(amounts), 116243.03);
+    assert.equal(sumMoney([...amounts].reverse()), 116243.03);
+    assert.equal(grouped, 116243.03);
+  });
+
+  it('is zero for no amounts', () => {
+    assert.equal(sumMoney([]), 0);
+  });
+});
+
+describe('sumProducts', () => {
+  it('sums products exactly and rounds once at the end', () => {
+    // Each line is 0.004, which would round to 0 on its own
+    const terms = new Array(5).fill({ factors: [0.1, 0.04] });
+    assert.equal(sumProducts(terms), 0.02);
+  });
+
+  it('subtracts deductions', () => {
+    const terms = [
+      { factors: [2, 4.5, 3.2] },
+      { factors: [1, 0.9, 2.1], negative: true },
+    ];
+    assert.equal(sumProducts(terms), 26.91);
+  });
+
+  it('rounds a half penny up', () => {
+    assert.equal(sumProducts([{ factors: [0.5, 0.01] }]), 0.01);
+    assert.equal(sumProducts([{ factors: [0.5, 0.01], negative: true }]), -0.01);
+  });
+
+  it('is zero for no terms', () => {
+    assert.equal(sumProducts([]), 0);
+  });
+});
@@ -0,0 +1,160 @@
+/**
+ * Exact decimal money arithmetic
+ *
+ * Amounts travel through the API as decimal pounds (e.g. 67500.25), but no
+ * arithmetic is done on them as floats. Each value is read from its decimal
+ * representation into an integer count of pence (BigInt), calculated
+ * exactly, and only converted back to a number at the end.
+ *
+ * Rounding policy:
+ * - Line totals: quantity × unit rate is computed exactly, then rounded
+ *   half-up (away from zero) to 2 decimal places.
+ * - Totals and subtotals: exact sums of the rounded line totals - no further
+ *   rounding, so any grouping of the same lines adds up to the same total.
+ * - Ratios (£/m², percentages): rounded half-up to 2 decimal places; they
+ *   are for display and never fed back into totals.
+ *
+ * Used by the backend and the frontend alike, so live totals in the UI
+ * match what the server stores.
+ */
+
+const PENCE_SCALE = 2;
+
+interface Decimal {
+  units: bigint;
+  scale: number;
+}
+
+function parseDecimal(value: number | string): Decimal {
+  const text = typeof value === 'number' ? value.toString() : value.trim();
+  const match = /^([+-]?)(\d*)(?:\.(\d*))?(?:e([+-]?\d+))?$/i.exec(text);
+  if (!match || (match[2] === '' && !match[3])) {
+    throw new RangeError(`Not a decimal number: ${text}`);
+  }
+  const [, sign, intPart, fracPart = '', exponent = '0'] = match;
+  let digits = intPart + fracPart;
+  let scale = fracPart.length - Number(exponent);
+  if (scale < 0) {
+    digits += '0'.repeat(-scale);
+    scale = 0;
+  }
+  const units = BigInt(digits || '0');
+  return { units: sign === '-' ? -units : units, scale };
+}
+
+// Change the scale of a decimal, rounding half-up (away from zero)
+function rescale(units: bigint, fromScale: number, toScale: number): bigint {
+  if (toScale >= fromScale) {
+    return units * 10n ** BigInt(toScale - fromScale);
+  }
+  const divisor = 10n ** BigInt(fromScale - toScale);
+  const quotient = units / divisor;
+  const remainder = units % divisor;
+  const absRemainder = remainder < 0n ? -remainder : remainder;
+  if (absRemainder * 2n >= divisor) {
+    return quotient + (units < 0n ? -1n : 1n);
+  }
+  return quotient;
+}
+
+// Non-numeric input (NaN, undefined from an empty field) counts as zero
+function finite(value: number): number {
+  const n = Number(value);
+  return Number.isFinite(n) ? n : 0;
+}
+
+/**
+ * Decimal pounds → integer pence, rounded half-up
+ */
+export function toPence(amount: number): bigint {
+  const { units, scale } = parseDecimal(finite(amount));
+  return rescale(units, scale, PENCE_SCALE);
+}
+
+/**
+ * Integer pence → decimal pounds
+ */
+export function fromPence(pence: bigint): number {
+  return Number(pence) / 100;
+}
+
+/**
+ * Number of decimal places in a value's shortest representation
+ */
+export function decimalPlaces(value: number): number {
+  return parseDecimal(finite(value)).scale;
+}
+
+export function roundMoney(amount: number): number {
+  return fromPence(toPence(amount));
+}
+
+export function multiplyMoney(quantity: number, unitRate: number): number {
+  const q = parseDecimal(finite(quantity));
+  const r = parseDecimal(finite(unitRate));
+  return fromPence(rescale(q.units * r.units, q.scale + r.scale, PENCE_SCALE));
+}
+
+export function sumMoney(amounts: number[]): number {
+  return fromPence(amounts.reduce((total, amount) => total + toPence(amount), 0n));
+}
+
+/**
+ * Sum of products, e.g. the dimension lines of a take-off (timesing ×
+ * length × width, deductions negative). Each product and the sum are exact;
+ * the result is rounded half-up to 2 decimal places once, at the end.
+ */
+export function sumProducts(terms: { factors: number[]; negative?: boolean }[]): number {
+  let total: Decimal = { units: 0n, scale: 0 };
+  for (const { factors, negative = false } of terms) {
+    const product = factors
+      .map((factor) => parseDecimal(finite(factor)))
+      .reduce((a, b) => ({ units: a.units * b.units, scale: a.scale + b.scale }), { units: 1n, scale: 0 });
+    const scale = Math.max(total.scale, product.scale);
+    total = {
+      units: rescale(total.units, total.scale, scale) + rescale(negative ? -product.units : product.units, product.scale, scale),
+      scale,
+    };
+  }
+  return fromPence(rescale(total.units, total.scale, PENCE_SCALE));
+}
+
+export function subtractMoney(amount: number, minus: number): number {
+  return fromPence(toPence(amount) - toPence(minus));
+}
+
+/**
+ * amount ÷ divisor to 2 decimal places (e.g. £/m² of GIFA); zero divisor gives 0
+ */
+export function divideMoney(amount: number, divisor: number): number {
+  const d = parseDecimal(finite(divisor));
+  if (d.units === 0n) {
+    return 0;
+  }
+  // pence × 10^scale ÷ units, kept at one extra digit so rescale can round it
+  const numerator = toPence(amount) * 10n ** BigInt(d.scale) * 10n;
+  return fromPence(rescale(numerator / d.units, 1, 0));
+}
+
+/**
+ * amount × numerator ÷ denominator, rounded half-up to the penny once (e.g.
+ * a cost moved between two index values); zero denominator gives 0
+ */
+export function scaleMoney(amount: number, numerator: number, denominator: number): number {
+  const n = parseDecimal(finite(numerator));
+  const d = parseDecimal(finite(denominator));
+  if (d.units === 0n) {
+    return 0;
+  }
+  // pence × n ÷ d, with both scales brought level and one extra digit kept
+  // so rescale can round it
+  const scaled = toPence(amount) * n.units * 10n ** BigInt(d.scale) * 10n;
+  return fromPence(rescale(scaled / (d.units * 10n ** BigInt(n.scale)), 1, 0));
+}
+
+/**
+ * part as a percentage of whole, to 2 decimal places
+ */
+export function percentOf(part: number, whole: number): number {
+  return divideMoney(multiplyMoney(part, 100), whole);
+}